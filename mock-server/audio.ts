@@ -0,0 +1,39 @@
+import { encodeWav } from '../src/lib/voice/wav';
+import { mulawToLinear } from '../src/lib/voice/pcm';
+
+export const TTS_SAMPLE_RATE = 16000;
+
+/**
+ * Stand-in for TTS: a soft two-tone "voice" so chunk boundaries, gaps and
+ * reordering are audible when testing by ear.
+ */
+export const synthesizeSpeech = (durationMs: number, frequency = 220, offsetSamples = 0) => {
+  const length = Math.round((TTS_SAMPLE_RATE * durationMs) / 1000);
+  const samples = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    const t = (offsetSamples + i) / TTS_SAMPLE_RATE;
+    const envelope = 0.6 + 0.4 * Math.sin(2 * Math.PI * 3 * t);
+    const value = 0.25 * envelope * (Math.sin(2 * Math.PI * frequency * t) + 0.5 * Math.sin(2 * Math.PI * frequency * 1.5 * t));
+    samples[i] = Math.round(value * 0x7fff * 0.6);
+  }
+  return samples;
+};
+
+/** Splits an utterance into independently decodable WAV chunks. */
+export const speechChunks = (durationMs: number, chunks: number, frequency?: number) => {
+  const samplesPerChunk = Math.round((TTS_SAMPLE_RATE * durationMs) / 1000 / chunks);
+  return Array.from({ length: chunks }, (_, index) =>
+    encodeWav(synthesizeSpeech((samplesPerChunk * 1000) / TTS_SAMPLE_RATE, frequency, index * samplesPerChunk), TTS_SAMPLE_RATE)
+  );
+};
+
+/** Decodes an incoming binary frame to PCM16 according to the announced encoding. */
+export const decodeFrame = (frame: Uint8Array, encoding: 'audio/l16' | 'audio/x-mulaw') => {
+  if (encoding === 'audio/x-mulaw') {
+    return Int16Array.from(frame, mulawToLinear);
+  }
+  const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+  return Int16Array.from({ length: frame.byteLength / 2 }, (_, i) => view.getInt16(i * 2, true));
+};
+
+export const toBase64 = (bytes: Uint8Array) => Buffer.from(bytes).toString('base64');
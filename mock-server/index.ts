@@ -0,0 +1,36 @@
+import { parseArgs } from 'node:util';
+import { SCENARIOS } from './scenarios';
+import { DEFAULT_PATH, startMockVoiceServer } from './server';
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', default: '6543' },
+    host: { type: 'string', default: 'localhost' },
+    path: { type: 'string', default: DEFAULT_PATH },
+    scenario: { type: 'string', default: 'echo' },
+    list: { type: 'boolean', default: false },
+  },
+});
+
+if (values.list) {
+  for (const scenario of Object.values(SCENARIOS)) {
+    console.log(`${scenario.name.padEnd(14)} ${scenario.description}`);
+  }
+  process.exit(0);
+}
+
+const server = await startMockVoiceServer({
+  port: Number(values.port),
+  host: values.host,
+  path: values.path,
+  scenario: values.scenario,
+  log: message => console.log(`[mock-server] ${message}`),
+});
+
+console.log(`[mock-server] Listening on ${server.url} (scenario: ${values.scenario})`);
+
+const shutdown = () => {
+  server.close().then(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
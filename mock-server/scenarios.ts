@@ -0,0 +1,164 @@
+import { readFileSync } from 'node:fs';
+
+export type ScenarioStep =
+  /** Sends a `{ type: 'log' }` message. */
+  | { action: 'log'; message: string }
+  /** Pauses the script. */
+  | { action: 'wait'; ms: number }
+  /** Waits until the client has sent `count` audio messages/frames in total. */
+  | { action: 'waitForAudio'; count: number }
+  /**
+   * Plays a synthetic utterance as `media` chunks. `order` permutes the
+   * chunk indices before sending, `drop` skips indices entirely (their seq
+   * numbers are still consumed), `resetSeq` starts this utterance at seq 0
+   * under a new `utterance` id.
+   */
+  | {
+      action: 'say';
+      durationMs?: number;
+      chunks?: number;
+      frequency?: number;
+      chunkDelayMs?: number;
+      order?: number[];
+      drop?: number[];
+      resetSeq?: boolean;
+    }
+  /**
+   * Sends a `transcript` utterance: word-by-word interim results every
+   * `wordDelayMs` (unless `interim` is false), then the final text.
+   */
+  | { action: 'transcript'; speaker: 'prospect' | 'agent'; text: string; interim?: boolean; wordDelayMs?: number }
+  /** Sends `{ type: 'playback', play: false }` (server-side barge-in). */
+  | { action: 'stopPlayback' }
+  /** Sends `{ type: 'end_call', play: false }`. */
+  | { action: 'endCall' }
+  /** Closes with `code`, or kills the TCP connection (client sees 1006) when omitted. */
+  | { action: 'disconnect'; code?: number; reason?: string }
+  /** Sends an arbitrary JSON value, for protocol edge cases. */
+  | { action: 'raw'; message: unknown };
+
+export interface Scenario {
+  name: string;
+  description: string;
+  /** Protocol hello to reply with; `false` emulates a legacy server that never replies. */
+  hello?: { protocol: number; minProtocol?: number } | false;
+  /** Echo the caller's audio back as TTS, in `echoChunkMs` chunks. */
+  echo?: boolean;
+  echoChunkMs?: number;
+  /** On a client `barge_in`, stop the current `say` and send `playback: false`. */
+  stopOnBargeIn?: boolean;
+  steps: ScenarioStep[];
+}
+
+export const SCENARIOS: Record<string, Scenario> = {
+  echo: {
+    name: 'echo',
+    description: 'Greets the caller, then echoes their audio back',
+    echo: true,
+    steps: [{ action: 'log', message: 'Mock server ready - echoing your audio' }],
+  },
+  greeting: {
+    name: 'greeting',
+    description: 'Speaks a greeting, listens for a while and ends the call',
+    steps: [
+      { action: 'log', message: 'Call connected' },
+      { action: 'say', durationMs: 2000, chunks: 4 },
+      { action: 'waitForAudio', count: 5 },
+      { action: 'log', message: 'Thanks, goodbye' },
+      { action: 'say', durationMs: 1000, chunks: 2, frequency: 180 },
+      { action: 'wait', ms: 1500 },
+      { action: 'endCall' },
+    ],
+  },
+  'out-of-order': {
+    name: 'out-of-order',
+    description: 'Delivers TTS chunks out of sequence',
+    steps: [
+      { action: 'say', durationMs: 2000, chunks: 5, order: [0, 2, 1, 4, 3], chunkDelayMs: 50 },
+    ],
+  },
+  'lost-chunk': {
+    name: 'lost-chunk',
+    description: 'Never delivers one TTS chunk, then starts a new utterance',
+    steps: [
+      { action: 'say', durationMs: 2000, chunks: 5, drop: [2] },
+      { action: 'wait', ms: 2000 },
+      { action: 'say', durationMs: 1000, chunks: 2, frequency: 330, resetSeq: true },
+    ],
+  },
+  'barge-in': {
+    name: 'barge-in',
+    description: 'Starts a long utterance and stops it from the server side',
+    steps: [
+      { action: 'say', durationMs: 6000, chunks: 12 },
+      { action: 'wait', ms: 1500 },
+      { action: 'stopPlayback' },
+      { action: 'log', message: 'Prospect interrupted - playback stopped' },
+    ],
+  },
+  'client-barge-in': {
+    name: 'client-barge-in',
+    description: 'Speaks in real time and yields as soon as the client reports a barge-in',
+    stopOnBargeIn: true,
+    steps: [
+      { action: 'say', durationMs: 6000, chunks: 12, chunkDelayMs: 500 },
+      { action: 'wait', ms: 1000 },
+      { action: 'log', message: 'Go ahead, I am listening' },
+    ],
+  },
+  transcript: {
+    name: 'transcript',
+    description: 'A short scripted conversation with live transcripts for both sides',
+    steps: [
+      { action: 'transcript', speaker: 'agent', text: 'Hi, this is Sam from Acme. Do you have a minute?' },
+      { action: 'say', durationMs: 2000, chunks: 4 },
+      { action: 'wait', ms: 500 },
+      { action: 'transcript', speaker: 'prospect', text: 'Sure, what is this about?' },
+      { action: 'wait', ms: 500 },
+      { action: 'transcript', speaker: 'agent', text: 'We help teams cut their cloud bill. Can I send you a short overview?' },
+      { action: 'say', durationMs: 3000, chunks: 6, frequency: 180 },
+    ],
+  },
+  flaky: {
+    name: 'flaky',
+    description: 'Drops the connection after a few seconds so the client reconnects',
+    echo: true,
+    steps: [
+      { action: 'log', message: 'This connection will drop in 3 seconds' },
+      { action: 'wait', ms: 3000 },
+      { action: 'disconnect' },
+    ],
+  },
+  slow: {
+    name: 'slow',
+    description: 'Adds large gaps between TTS chunks',
+    steps: [{ action: 'say', durationMs: 3000, chunks: 6, chunkDelayMs: 800 }],
+  },
+  legacy: {
+    name: 'legacy',
+    description: 'Protocol v1 server that never answers the hello handshake',
+    hello: false,
+    echo: true,
+    steps: [],
+  },
+  incompatible: {
+    name: 'incompatible',
+    description: 'Replies with a protocol version this client does not speak',
+    hello: { protocol: 99, minProtocol: 99 },
+    steps: [],
+  },
+};
+
+/** Resolves a built-in scenario name or a path to a scenario JSON file. */
+export const loadScenario = (nameOrPath: string): Scenario => {
+  const builtIn = SCENARIOS[nameOrPath];
+  if (builtIn) {
+    return builtIn;
+  }
+
+  const scenario = JSON.parse(readFileSync(nameOrPath, 'utf8')) as Scenario;
+  if (!Array.isArray(scenario.steps)) {
+    throw new Error(`Scenario file ${nameOrPath} has no "steps" array`);
+  }
+  return { ...scenario, name: scenario.name ?? nameOrPath, description: scenario.description ?? '' };
+};
@@ -0,0 +1,152 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it } from 'vitest';
+import { WebSocket } from 'ws';
+import { type MockVoiceServer, startMockVoiceServer } from './server';
+import type { Scenario } from './scenarios';
+
+interface Received {
+  type?: string;
+  event?: string;
+  protocol?: number;
+  media?: { seq: number; payload: string; utterance?: string };
+  message?: string;
+  id?: string;
+  text?: string;
+  final?: boolean;
+}
+
+const connect = (server: MockVoiceServer, streamSid = 'stream-1', resume = false, preflight = false) =>
+  new Promise<{ ws: WebSocket; received: Received[] }>((resolve, reject) => {
+    const ws = new WebSocket(
+      `${server.url}?streamSid=${streamSid}&language=English${resume ? '&resume=true' : ''}${preflight ? '&preflight=true' : ''}`
+    );
+    const received: Received[] = [];
+    ws.on('message', data => received.push(JSON.parse(data.toString())));
+    ws.on('open', () => {
+      ws.send(JSON.stringify({ type: 'hello', protocol: 3, minProtocol: 1, streamSid, resume }));
+      resolve({ ws, received });
+    });
+    ws.on('error', reject);
+  });
+
+const waitUntil = async (predicate: () => boolean, timeoutMs = 2000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!predicate()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+describe('mock voice server', () => {
+  let server: MockVoiceServer;
+
+  afterEach(async () => {
+    await server?.close();
+  });
+
+  it('answers the hello handshake and runs the scripted scenario', async () => {
+    server = await startMockVoiceServer({ scenario: 'out-of-order' });
+    const { received } = await connect(server);
+
+    await waitUntil(() => received.filter(m => m.event === 'media').length === 5);
+
+    expect(received[0]).toMatchObject({ type: 'hello', protocol: 4 });
+    expect(received.filter(m => m.event === 'media').map(m => m.media?.seq)).toEqual([0, 2, 1, 4, 3]);
+  });
+
+  it('skips dropped chunks and resets seq for a new utterance', async () => {
+    server = await startMockVoiceServer({
+      scenario: {
+        name: 'test',
+        description: '',
+        steps: [
+          { action: 'say', chunks: 3, drop: [1], durationMs: 300 },
+          { action: 'say', chunks: 2, resetSeq: true, durationMs: 200 },
+          { action: 'endCall' },
+        ],
+      } satisfies Scenario,
+    });
+    const { received } = await connect(server);
+
+    await waitUntil(() => received.some(m => m.type === 'end_call'));
+
+    const media = received.filter(m => m.event === 'media');
+    expect(media.map(m => m.media?.seq)).toEqual([0, 2, 0, 1]);
+    expect(media.map(m => m.media?.utterance)).toEqual(['tts-0', 'tts-0', 'tts-1', 'tts-1']);
+  });
+
+  it('echoes binary μ-law frames back as WAV media', async () => {
+    server = await startMockVoiceServer({ scenario: { name: 'echo', description: '', echo: true, echoChunkMs: 40, steps: [] } });
+    const { ws, received } = await connect(server);
+
+    ws.send(JSON.stringify({ event: 'start', start: { streamSid: 'stream-1', mediaFormat: { encoding: 'audio/x-mulaw', sampleRate: 8000, channels: 1 } } }));
+    ws.send(new Uint8Array(160).fill(0xff));
+    ws.send(new Uint8Array(160).fill(0xff));
+
+    await waitUntil(() => received.some(m => m.event === 'media'));
+
+    const media = received.find(m => m.event === 'media');
+    expect(Buffer.from(media?.media?.payload ?? '', 'base64').subarray(0, 4).toString()).toBe('RIFF');
+    expect(server.connections[0]).toMatchObject({ binaryFrames: 2, binaryBytes: 320 });
+  });
+
+  it('continues the sequence when a stream resumes after a disconnect', async () => {
+    server = await startMockVoiceServer({
+      scenario: { name: 'drop', description: '', steps: [{ action: 'say', chunks: 2, durationMs: 200 }, { action: 'disconnect' }] },
+    });
+    const first = await connect(server);
+    await new Promise(resolve => first.ws.on('close', resolve));
+
+    const resumed = await connect(server, 'stream-1', true);
+    await waitUntil(() => resumed.received.some(m => m.type === 'hello'));
+
+    expect(server.connections[1]).toMatchObject({ resume: true, streamSid: 'stream-1' });
+    expect(resumed.received.some(m => m.event === 'media')).toBe(false);
+    resumed.ws.close();
+  });
+
+  it('answers a pre-call check without starting the scenario', async () => {
+    server = await startMockVoiceServer({ scenario: 'out-of-order' });
+    const { ws, received } = await connect(server, 'preflight-1', false, true);
+    await waitUntil(() => received.some(m => m.type === 'hello'));
+    await new Promise(resolve => setTimeout(resolve, 600));
+
+    expect(server.connections[0]).toMatchObject({ preflight: true });
+    expect(received.some(m => m.event === 'media')).toBe(false);
+    ws.close();
+  });
+
+  it('sends interim transcripts word by word before the final one', async () => {
+    server = await startMockVoiceServer({
+      scenario: {
+        name: 'test',
+        description: '',
+        steps: [{ action: 'transcript', speaker: 'prospect', text: 'who is this', wordDelayMs: 5 }],
+      },
+    });
+    const { received } = await connect(server);
+
+    await waitUntil(() => received.some(m => m.type === 'transcript' && m.final));
+    const transcripts = received.filter(m => m.type === 'transcript');
+    expect(transcripts.map(m => [m.text, m.final])).toEqual([
+      ['who', false],
+      ['who is', false],
+      ['who is this', true],
+    ]);
+    expect(new Set(transcripts.map(m => m.id)).size).toBe(1);
+  });
+
+  it('yields to a client barge-in when the scenario asks for it', async () => {
+    server = await startMockVoiceServer({ scenario: 'client-barge-in' });
+    const { ws, received } = await connect(server);
+    await waitUntil(() => received.some(m => m.event === 'media'));
+
+    ws.send(JSON.stringify({ type: 'barge_in', streamSid: 'stream-1', speechStartMs: 900, detectedAtMs: 1100, playbackPositionMs: 400, action: 'none' }));
+
+    await waitUntil(() => received.some(m => m.type === 'playback'));
+    const sent = received.filter(m => m.event === 'media').length;
+    await new Promise(resolve => setTimeout(resolve, 600));
+    expect(received.filter(m => m.event === 'media')).toHaveLength(sent);
+    ws.close();
+  });
+});
@@ -0,0 +1,277 @@
+import type { AddressInfo } from 'node:net';
+import { WebSocket, WebSocketServer, type RawData } from 'ws';
+import { MIN_SUPPORTED_PROTOCOL_VERSION, PROTOCOL_VERSION } from '../src/lib/voice/protocol';
+import { encodeWav } from '../src/lib/voice/wav';
+import { decodeFrame, speechChunks, toBase64 } from './audio';
+import { SCENARIOS, type Scenario, type ScenarioStep, loadScenario } from './scenarios';
+
+export const DEFAULT_PATH = '/voice/ws/browser/stream';
+
+export interface MockVoiceServerOptions {
+  port?: number;
+  host?: string;
+  path?: string;
+  scenario?: Scenario | string;
+  log?: (message: string) => void;
+}
+
+/** What one client connection did; exposed so tests can assert on it. */
+export interface MockConnection {
+  streamSid: string;
+  language: string;
+  resume: boolean;
+  /** A pre-call connectivity check: answers the handshake but never starts a conversation. */
+  preflight: boolean;
+  messages: unknown[];
+  binaryFrames: number;
+  binaryBytes: number;
+  mediaFormat?: { encoding: 'audio/l16' | 'audio/x-mulaw'; sampleRate: number };
+  closed: boolean;
+}
+
+export interface MockVoiceServer {
+  url: string;
+  port: number;
+  connections: MockConnection[];
+  close: () => Promise<void>;
+}
+
+interface StreamState {
+  seq: number;
+  /** Tags media chunks; bumped whenever an utterance restarts at seq 0. */
+  utterance: number;
+}
+
+const HELLO_GRACE_MS = 500;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const startMockVoiceServer = (options: MockVoiceServerOptions = {}): Promise<MockVoiceServer> => {
+  const path = options.path ?? DEFAULT_PATH;
+  const log = options.log ?? (() => {});
+  const scenario = typeof options.scenario === 'string' ? loadScenario(options.scenario) : options.scenario ?? SCENARIOS.echo;
+  const streams = new Map<string, StreamState>();
+  const connections: MockConnection[] = [];
+
+  const wss = new WebSocketServer({ port: options.port ?? 0, host: options.host, path });
+
+  wss.on('connection', (ws, request) => {
+    const params = new URL(request.url ?? '', 'ws://localhost').searchParams;
+    const connection: MockConnection = {
+      streamSid: params.get('streamSid') ?? '',
+      language: params.get('language') ?? '',
+      resume: params.get('resume') === 'true',
+      preflight: params.get('preflight') === 'true',
+      messages: [],
+      binaryFrames: 0,
+      binaryBytes: 0,
+      closed: false,
+    };
+    connections.push(connection);
+
+    const resumed = connection.resume && streams.has(connection.streamSid);
+    const stream = streams.get(connection.streamSid) ?? { seq: 0, utterance: 0 };
+    streams.set(connection.streamSid, stream);
+    log(`${resumed ? 'Resumed' : 'New'} stream ${connection.streamSid} (${connection.language || 'no language'})`);
+
+    const audioWaiters: { count: number; resolve: () => void }[] = [];
+    let markGreeted: () => void = () => {};
+    const greeted = new Promise<void>(resolve => {
+      markGreeted = resolve;
+    });
+    let interrupted = false;
+    let utterances = 0;
+    const startedAt = Date.now();
+    let echoSamples: Int16Array[] = [];
+    let echoLength = 0;
+
+    const audioCount = () => connection.binaryFrames + connection.messages.filter(isMediaMessage).length;
+
+    const notifyAudio = () => {
+      for (const waiter of [...audioWaiters]) {
+        if (audioCount() >= waiter.count) {
+          audioWaiters.splice(audioWaiters.indexOf(waiter), 1);
+          waiter.resolve();
+        }
+      }
+    };
+
+    const send = (message: unknown) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(message));
+      }
+    };
+
+    const sendMedia = (payload: Uint8Array, seq: number) => {
+      send({ event: 'media', media: { payload: toBase64(payload), seq, utterance: `tts-${stream.utterance}` } });
+    };
+
+    const echoFrame = (samples: Int16Array, sampleRate: number) => {
+      echoSamples.push(samples);
+      echoLength += samples.length;
+      if (echoLength < (sampleRate * (scenario.echoChunkMs ?? 1000)) / 1000) return;
+
+      const merged = new Int16Array(echoLength);
+      let offset = 0;
+      for (const chunk of echoSamples) {
+        merged.set(chunk, offset);
+        offset += chunk.length;
+      }
+      echoSamples = [];
+      echoLength = 0;
+      sendMedia(encodeWav(merged, sampleRate), stream.seq++);
+    };
+
+    const handleMessage = (data: RawData, isBinary: boolean) => {
+      if (isBinary) {
+        const frame = new Uint8Array(data as Buffer);
+        connection.binaryFrames++;
+        connection.binaryBytes += frame.byteLength;
+        if (scenario.echo && connection.mediaFormat) {
+          echoFrame(decodeFrame(frame, connection.mediaFormat.encoding), connection.mediaFormat.sampleRate);
+        }
+        notifyAudio();
+        return;
+      }
+
+      let message: Record<string, unknown>;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        log(`Ignoring non-JSON text frame from ${connection.streamSid}`);
+        return;
+      }
+      connection.messages.push(message);
+      markGreeted();
+
+      if (message.type === 'hello' && scenario.hello !== false) {
+        const hello = scenario.hello ?? { protocol: PROTOCOL_VERSION, minProtocol: MIN_SUPPORTED_PROTOCOL_VERSION };
+        send({ type: 'hello', ...hello, server: 'mock-voice-server' });
+      } else if (message.event === 'start') {
+        const start = message.start as { mediaFormat?: MockConnection['mediaFormat'] };
+        connection.mediaFormat = start.mediaFormat;
+        log(`Binary audio: ${start.mediaFormat?.encoding} @ ${start.mediaFormat?.sampleRate} Hz`);
+      } else if (message.type === 'barge_in') {
+        log(`Barge-in on ${connection.streamSid}: ${JSON.stringify(message)}`);
+        if (scenario.stopOnBargeIn) {
+          interrupted = true;
+          send({ type: 'playback', play: false });
+        }
+      } else if (isMediaMessage(message) && scenario.echo) {
+        // MediaRecorder chunks after the first lack a WebM header, so only the
+        // first one is decodable on its own; echo them anyway for round-trip tests.
+        const media = message.media as { payload: string };
+        send({ event: 'media', media: { payload: media.payload, seq: stream.seq++, utterance: `tts-${stream.utterance}` } });
+      }
+
+      notifyAudio();
+    };
+
+    const runStep = async (step: ScenarioStep) => {
+      switch (step.action) {
+        case 'log':
+          send({ type: 'log', message: step.message });
+          break;
+        case 'wait':
+          await sleep(step.ms);
+          break;
+        case 'waitForAudio':
+          if (audioCount() < step.count) {
+            await new Promise<void>(resolve => audioWaiters.push({ count: step.count, resolve }));
+          }
+          break;
+        case 'say': {
+          if (step.resetSeq) {
+            stream.seq = 0;
+            stream.utterance++;
+          }
+          const chunks = speechChunks(step.durationMs ?? 2000, step.chunks ?? 4, step.frequency);
+          const firstSeq = stream.seq;
+          stream.seq += chunks.length;
+          const order = step.order ?? chunks.map((_, index) => index);
+          interrupted = false;
+          for (const index of order) {
+            if (interrupted) break;
+            if (step.drop?.includes(index)) continue;
+            sendMedia(chunks[index], firstSeq + index);
+            if (step.chunkDelayMs) {
+              await sleep(step.chunkDelayMs);
+            }
+          }
+          break;
+        }
+        case 'transcript': {
+          const id = `${connection.streamSid}-u${utterances++}`;
+          const startMs = Date.now() - startedAt;
+          const words = step.text.split(' ');
+          if (step.interim !== false) {
+            for (let count = 1; count < words.length; count++) {
+              await sleep(step.wordDelayMs ?? 150);
+              const endMs = Date.now() - startedAt;
+              send({ type: 'transcript', id, speaker: step.speaker, text: words.slice(0, count).join(' '), final: false, startMs, endMs });
+            }
+          }
+          send({ type: 'transcript', id, speaker: step.speaker, text: step.text, final: true, startMs, endMs: Date.now() - startedAt });
+          break;
+        }
+        case 'stopPlayback':
+          send({ type: 'playback', play: false });
+          break;
+        case 'endCall':
+          send({ type: 'end_call', play: false });
+          break;
+        case 'disconnect':
+          if (step.code) {
+            ws.close(step.code, step.reason ?? 'Mock server disconnect');
+          } else {
+            ws.terminate();
+          }
+          break;
+        case 'raw':
+          send(step.message);
+          break;
+      }
+    };
+
+    const runScenario = async () => {
+      // Let the client's hello (and our reply) go first; legacy clients never send one.
+      await Promise.race([greeted, sleep(HELLO_GRACE_MS)]);
+      for (const step of scenario.steps) {
+        if (ws.readyState !== WebSocket.OPEN) return;
+        await runStep(step);
+      }
+    };
+
+    ws.on('message', handleMessage);
+    ws.on('close', () => {
+      connection.closed = true;
+      audioWaiters.length = 0;
+      log(`Stream ${connection.streamSid} closed`);
+    });
+
+    // A resumed stream continues the call that is already in progress.
+    if (!resumed && !connection.preflight) {
+      runScenario().catch(error => log(`Scenario ${scenario.name} failed: ${error}`));
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    wss.once('error', reject);
+    wss.once('listening', () => {
+      const { port } = wss.address() as AddressInfo;
+      resolve({
+        url: `ws://${options.host ?? 'localhost'}:${port}${path}`,
+        port,
+        connections,
+        close: () =>
+          new Promise<void>(done => {
+            wss.clients.forEach(client => client.terminate());
+            wss.close(() => done());
+          }),
+      });
+    });
+  });
+};
+
+const isMediaMessage = (message: unknown) =>
+  typeof message === 'object' && message !== null && 'media' in message && !('event' in message);
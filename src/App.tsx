@@ -5,8 +5,15 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
+import { AUTH_ROUTES } from "@/lib/auth/redirect";
 import AuthGuard from "@/components/AuthGuard";
+import RequireRole from "@/components/RequireRole";
 import Index from "./pages/Index";
+import CallsPage from "./pages/CallsPage";
+import CallDetailPage from "./pages/CallDetailPage";
+import AdminPage from "./pages/AdminPage";
+import ForgotPasswordPage from "./pages/ForgotPasswordPage";
+import SetPasswordPage from "./pages/SetPasswordPage";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -18,13 +25,27 @@ const App = () => (
         <Toaster />
         <Sonner />
         <BrowserRouter>
-          <AuthGuard>
-            <Routes>
-              <Route path="/" element={<Index />} />
-              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          </AuthGuard>
+          <Routes>
+            {/* Reachable signed out, or signed in only by the email link that opened them. */}
+            <Route path={AUTH_ROUTES.forgotPassword} element={<ForgotPasswordPage />} />
+            <Route path={AUTH_ROUTES.resetPassword} element={<SetPasswordPage mode="reset" />} />
+            <Route path={AUTH_ROUTES.acceptInvite} element={<SetPasswordPage mode="invite" />} />
+            <Route
+              path="*"
+              element={
+                <AuthGuard>
+                  <Routes>
+                    <Route path="/" element={<Index />} />
+                    <Route path="/calls" element={<CallsPage />} />
+                    <Route path="/calls/:id" element={<CallDetailPage />} />
+                    <Route path="/admin" element={<RequireRole role="admin"><AdminPage /></RequireRole>} />
+                    {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                    <Route path="*" element={<NotFound />} />
+                  </Routes>
+                </AuthGuard>
+              }
+            />
+          </Routes>
         </BrowserRouter>
       </TooltipProvider>
     </AuthProvider>
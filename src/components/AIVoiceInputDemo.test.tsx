@@ -0,0 +1,144 @@
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeWebSocket, installMediaFakes } from '@/test/fakes';
+import { AIVoiceInputDemo } from './AIVoiceInputDemo';
+
+vi.mock('@/hooks/useAuth', () => ({
+  useAuth: () => ({ user: { id: 'user-1', email: 'agent@example.com' } }),
+}));
+
+// Recording a sample and playing a tone take real seconds; the checks themselves are covered in preflight.test.ts.
+vi.mock('@/lib/voice/preflight', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/voice/preflight')>()),
+  recordMicSample: vi.fn(async () => ({ blob: new Blob(['sample']), loudestDbfs: -20 })),
+  playTestTone: vi.fn(async () => {}),
+  testServerConnection: vi.fn(async () => ({ connectMs: 12, roundTripMs: 34, protocol: 3 })),
+}));
+
+vi.mock('@/lib/recordings/call-events', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/recordings/call-events')>()),
+  writeCallEvents: vi.fn(async () => {}),
+}));
+
+// No admin has saved the voice servers, so the build-time defaults apply.
+vi.mock('@/lib/settings/app-settings', () => ({
+  fetchAppSetting: vi.fn(async () => null),
+  saveAppSetting: vi.fn(async () => {}),
+}));
+
+const saveRecording = vi.hoisted(() => vi.fn());
+
+vi.mock('@/hooks/useRecordingUploads', () => ({
+  useRecordingUploads: () => ({ statuses: {}, saveRecording, retryUpload: vi.fn(), saveTranscript: vi.fn() }),
+}));
+
+const renderDemo = () =>
+  render(
+    <QueryClientProvider client={new QueryClient()}>
+      <AIVoiceInputDemo />
+    </QueryClientProvider>
+  );
+
+describe('AIVoiceInputDemo', () => {
+  beforeEach(() => {
+    installMediaFakes();
+    localStorage.clear();
+    saveRecording.mockClear();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  const passPreCallCheck = async () => {
+    fireEvent.click(screen.getByRole('button', { name: 'Record sample' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Play tone' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Test connection' }));
+    fireEvent.click(await screen.findByRole('button', { name: 'Heard it' }));
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Start call' })).toBeEnabled());
+  };
+
+  const startCall = async () => {
+    await passPreCallCheck();
+    fireEvent.click(screen.getByRole('button', { name: 'Start call' }));
+    expect(await screen.findByText('Connecting to server...')).toBeInTheDocument();
+    const ws = FakeWebSocket.last;
+    await act(async () => {
+      ws.handshake();
+    });
+    return ws;
+  };
+
+  it('connects to the configured local endpoint and shows the live state', async () => {
+    renderDemo();
+
+    const ws = await startCall();
+
+    expect(ws.url).toMatch(/^ws:\/\/localhost:6543\/voice\/ws\/browser\/stream\?/);
+    expect(await screen.findByText(/Connected! Ready to speak in English/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Stop call' })).toBeInTheDocument();
+    expect(screen.getByText(/\[Browser\]: Connecting to WebSocket/)).toBeInTheDocument();
+  });
+
+  it('adds a finished recording to the history when the server ends the call', async () => {
+    renderDemo();
+    const ws = await startCall();
+
+    await act(async () => {
+      ws.receive({ type: 'end_call', play: false });
+    });
+
+    expect(await screen.findByText('Full Conversation History')).toBeInTheDocument();
+    expect(await screen.findByRole('button', { name: 'Start call' })).toBeInTheDocument();
+  });
+
+  it('saves a finished call even when the history was cleared during it', async () => {
+    renderDemo();
+    const ws = await startCall();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Clear All' }));
+    await act(async () => {
+      ws.receive({ type: 'end_call', play: false });
+    });
+
+    await waitFor(() => expect(saveRecording).toHaveBeenCalledTimes(1));
+    expect(saveRecording.mock.calls[0][2]).toMatchObject({ language: 'English', status: 'success', startedAt: expect.any(String) });
+  });
+
+  it('offers playback and transcription for a call that failed after recording some audio', async () => {
+    renderDemo();
+    const ws = await startCall();
+
+    await act(async () => {
+      ws.receive({ type: 'error', message: 'Unsupported client', code: 'protocol_version' });
+    });
+
+    expect(await screen.findByText(/Error: Incompatible server protocol/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Open player' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Transcribe recording' })).toBeInTheDocument();
+  });
+
+  it('keeps the start button disabled until every pre-call check passes', async () => {
+    renderDemo();
+
+    expect(screen.getByRole('button', { name: 'Start call' })).toBeDisabled();
+    fireEvent.click(screen.getByRole('button', { name: 'Test connection' }));
+    expect(await screen.findByText('Connected in 12 ms, round trip 34 ms (protocol v3)')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Play tone' }));
+    fireEvent.click(await screen.findByRole('button', { name: "Didn't hear it" }));
+    expect(screen.getByText(/Tone not heard/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Start call' })).toBeDisabled();
+  });
+
+  it('shows the error when the connection fails', async () => {
+    renderDemo();
+    await passPreCallCheck();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Start call' }));
+    await act(async () => {
+      FakeWebSocket.last.fail();
+    });
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('WebSocket connection failed');
+    expect(screen.getByText(/Error: WebSocket connection failed/)).toBeInTheDocument();
+  });
+});
@@ -1,541 +1,215 @@
 import { AIVoiceInput } from "@/components/ui/ai-voice-input";
-import { useState, useRef } from "react";
+import { useState, useRef, useMemo, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Download, AlertCircle, CheckCircle, Trash2, Play, Pause, FileText } from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Download, AlertCircle, CheckCircle, Trash2, Play, ChevronUp, FileText, MessageSquareText } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { DropdownMenuItem } from "@/components/ui/dropdown-menu";
+import VoiceEndpointSettings from "@/components/VoiceEndpointSettings";
+import AudioDeviceSettings from "@/components/AudioDeviceSettings";
+import PreCallCheck from "@/components/PreCallCheck";
+import RecordingUploadStatus from "@/components/RecordingUploadStatus";
+import OfflineTranscriptionStatus from "@/components/OfflineTranscriptionStatus";
+import CallExportMenu from "@/components/CallExportMenu";
+import CallHistoryExportDialog from "@/components/CallHistoryExportDialog";
+import TranscriptPanel from "@/components/TranscriptPanel";
+import WaveformPlayer, { type WaveformPlayerHandle } from "@/components/WaveformPlayer";
+import { useVoiceStream } from "@/hooks/useVoiceStream";
+import { useVoiceEndpoint } from "@/hooks/useVoiceEndpoint";
+import { useAudioDevices } from "@/hooks/useAudioDevices";
+import { usePreflightChecks } from "@/hooks/usePreflightChecks";
+import { useRecordingUploads } from "@/hooks/useRecordingUploads";
+import { useCallEventLog } from "@/hooks/useCallEventLog";
+import { useOfflineTranscription } from "@/hooks/useOfflineTranscription";
+import { useCallExport } from "@/hooks/useCallExport";
+import { downloadBlob } from "@/lib/download";
+import { RECORDING_SIDE_LABELS, type RecordingSide, exportRecordingSide } from "@/lib/recordings/channels";
+import { type ExportableCall, fromLogEntries } from "@/lib/recordings/export";
+import { recordingOffsetMs, toCallMarkers } from "@/lib/recordings/markers";
+import { DEFAULT_MIC_PROCESSING, MIC_CONSTRAINTS } from "@/lib/voice/mic";
+import { formatTranscript } from "@/lib/voice/transcript";
+import type {
+  AudioFormat,
+  BargeInMode,
+  LogEntry,
+  MicConstraintName,
+  MicProcessingOptions,
+  RecordingChannels,
+  TranscriptSegment,
+  VoiceStreamResult
+} from "@/lib/voice/types";
+
+const MIC_PROCESSING_LABELS: Record<MicConstraintName | "highPass" | "noiseGate", string> = {
+  echoCancellation: "Echo cancellation",
+  noiseSuppression: "Noise suppression",
+  autoGainControl: "Auto gain",
+  highPass: "High-pass filter",
+  noiseGate: "Noise gate"
+};
 
 interface Recording {
   id: string;
+  streamSid: string;
   duration: number;
   timestamp: Date;
+  language: string;
+  channels: RecordingChannels;
   status: 'success' | 'error' | 'processing';
   audioBlob?: Blob;
   error?: string;
   logs?: LogEntry[];
-}
-
-interface LogEntry {
-  timestamp: string;
-  type: 'info' | 'error' | 'warning';
-  source: 'server' | 'browser';
-  message: string;
+  transcript?: TranscriptSegment[];
 }
 
 export function AIVoiceInputDemo() {
   const [recordings, setRecordings] = useState<Recording[]>([]);
   const [selectedLanguage, setSelectedLanguage] = useState("English");
-  const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [isListening, setIsListening] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [isConnecting, setIsConnecting] = useState(false);
-  const [isConnected, setIsConnected] = useState(false);
-  const [playingRecording, setPlayingRecording] = useState<string | null>(null);
-  
-  // WebSocket and audio refs
-  const webSocketRef = useRef<WebSocket | null>(null);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const streamIdRef = useRef<string>('');
-  const currentRecordingRef = useRef<Recording | null>(null);
-  const connectionAttemptInProgress = useRef<boolean>(false);
-  const audioChunksRef = useRef<Blob[]>([]);
-  const currentAudioRef = useRef<HTMLAudioElement | null>(null);
-  
-  // Duration tracking refs
-  const conversationStartTimeRef = useRef<number | null>(null);
-  const conversationDurationRef = useRef<number>(0);
-  const cleanupInProgress = useRef<boolean>(false);
-  const durationUpdateIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  
-  // Full conversation recording refs
-  const playbackQueueRef = useRef<AudioBuffer[]>([]);
-  const isPlayingRef = useRef<boolean>(false);
-  const nextSeqToPlayRef = useRef<number>(0);
-  const audioBufferMapRef = useRef<{[key: number]: AudioBuffer}>({});
-  const mixerNodeRef = useRef<GainNode | null>(null);
-  const micSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-  const destinationStreamRef = useRef<MediaStreamAudioDestinationNode | null>(null);
-  const fullConversationRecorderRef = useRef<MediaRecorder | null>(null);
-  
-  // Playback control refs
-  const currentPlaybackSourceRef = useRef<AudioBufferSourceNode | null>(null);
-
-  const WEBSOCKET_URL = 'ws://localhost:6543/voice/ws/browser/stream';
-  const CHUNK_DURATION_MS = 1000;
-
-  // Store logs for current recording
-  const currentRecordingLogsRef = useRef<LogEntry[]>([]);
-
-  const appendLog = (message: string, type: 'info' | 'error' | 'warning' = 'info', source: 'server' | 'browser' = 'browser') => {
-    const timestamp = new Date().toISOString().replace('T', ' ').replace('Z', '').slice(0, 23);
-    
-    const prefixedMessage = source === 'server' ? `[Server]: ${message}` : `[Browser]: ${message}`;
-    
-    const logEntry: LogEntry = { timestamp, type, source, message: prefixedMessage };
-    
-    setTimeout(() => {
-      setLogs(prev => [...prev, logEntry]);
-      currentRecordingLogsRef.current.push(logEntry);
-    }, 0);
-    
-    console.log(`[${type.toUpperCase()}] ${prefixedMessage}`);
-  };
-
-  const startDurationTracking = () => {
-    if (durationUpdateIntervalRef.current) {
-      clearInterval(durationUpdateIntervalRef.current);
-    }
-    
-    conversationStartTimeRef.current = Date.now();
-    conversationDurationRef.current = 0;
-    
-    durationUpdateIntervalRef.current = setInterval(() => {
-      if (conversationStartTimeRef.current) {
-        conversationDurationRef.current = Math.floor((Date.now() - conversationStartTimeRef.current) / 1000);
-      }
-    }, 1000);
-  };
-
-  const stopDurationTracking = () => {
-    if (durationUpdateIntervalRef.current) {
-      clearInterval(durationUpdateIntervalRef.current);
-      durationUpdateIntervalRef.current = null;
-    }
-    
-    if (conversationStartTimeRef.current) {
-      conversationDurationRef.current = Math.floor((Date.now() - conversationStartTimeRef.current) / 1000);
-    }
-  };
-
-  const handleStart = async () => {
-    if (isConnecting || isListening || connectionAttemptInProgress.current) {
-      console.log('[INFO] Connection attempt blocked - already connecting or listening');
-      return;
-    }
-
-    connectionAttemptInProgress.current = true;
-    cleanupInProgress.current = false;
-    setLogs([]);
-    currentRecordingLogsRef.current = [];
-    setError(null);
-    setIsConnecting(true);
-    setIsConnected(false);
-    audioChunksRef.current = [];
-    nextSeqToPlayRef.current = 0;
-    audioBufferMapRef.current = {};
-    playbackQueueRef.current = [];
-    isPlayingRef.current = false;
-    
-    startDurationTracking();
-    
-    appendLog('Starting new audio recording...', 'info', 'browser');
-    
-    try {
-      const recordingId = crypto.randomUUID();
-      streamIdRef.current = crypto.randomUUID();
-      
-      const newRecording: Recording = {
-        id: recordingId,
-        duration: 0,
-        timestamp: new Date(),
-        status: 'processing',
-        logs: []
-      };
-      
-      currentRecordingRef.current = newRecording;
-      setRecordings(prev => [newRecording, ...prev.slice(0, 9)]);
-      
-      await initWebSocket();
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'WebSocket connection failed';
-      appendLog(`Failed to start recording: ${errorMessage}`, 'error', 'browser');
-      setError(errorMessage);
-      handleConnectionFailure(errorMessage);
-    }
-  };
-
-  const handleConnectionFailure = (errorMessage: string) => {
-    setIsConnecting(false);
-    setIsListening(false);
-    setIsConnected(false);
-    connectionAttemptInProgress.current = false;
-    
-    stopDurationTracking();
-    
-    if (currentRecordingRef.current) {
-      const recordingLogs = [...currentRecordingLogsRef.current];
-      setRecordings(prev => prev.map(r => 
-        r.id === currentRecordingRef.current?.id 
-          ? { ...r, status: 'error', error: errorMessage, duration: conversationDurationRef.current, logs: recordingLogs }
-          : r
-      ));
-      currentRecordingRef.current = null;
-    }
-    
-    cleanupResources();
-  };
-
-  const handleStop = (duration: number) => {
-    if (cleanupInProgress.current) {
-      return;
-    }
-    
-    appendLog(`Stopping recording after ${conversationDurationRef.current} seconds`, 'info', 'browser');
-    
-    stopDurationTracking();
-    
-    setIsConnecting(false);
-    setIsListening(false);
-    setIsConnected(false);
-    connectionAttemptInProgress.current = false;
-    
-    if (fullConversationRecorderRef.current && fullConversationRecorderRef.current.state !== "inactive") {
-      fullConversationRecorderRef.current.stop();
-    }
-    
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== "inactive") {
-      mediaRecorderRef.current.stop();
-    }
-    
-    if (currentRecordingRef.current) {
-      const recordingId = currentRecordingRef.current.id;
-      const finalDuration = conversationDurationRef.current;
-      const recordingLogs = [...currentRecordingLogsRef.current];
-      
-      setTimeout(() => {
-        if (audioChunksRef.current.length > 0) {
-          const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-          
-          setRecordings(prev => prev.map(r => 
-            r.id === recordingId 
-              ? { ...r, duration: finalDuration, status: 'success', audioBlob, logs: recordingLogs }
-              : r
-          ));
-        } else {
-          setRecordings(prev => prev.map(r => 
-            r.id === recordingId 
-              ? { ...r, duration: finalDuration, status: 'success', logs: recordingLogs }
-              : r
-          ));
-        }
-      }, 100);
+  const [audioFormat, setAudioFormat] = useState<AudioFormat>("webm");
+  const [bargeInMode, setBargeInMode] = useState<BargeInMode>("duck");
+  const [bargeInSensitivity, setBargeInSensitivity] = useState(0.5);
+  const [micProcessing, setMicProcessing] = useState<MicProcessingOptions>(DEFAULT_MIC_PROCESSING);
+  const [recordingChannels, setRecordingChannels] = useState<RecordingChannels>("mono");
+  const bargeIn = useMemo(
+    () => ({ mode: bargeInMode, sensitivity: bargeInSensitivity }),
+    [bargeInMode, bargeInSensitivity]
+  );
+  const [openPlayerId, setOpenPlayerId] = useState<string | null>(null);
+  const playerRef = useRef<WaveformPlayerHandle>(null);
+  const endpoint = useVoiceEndpoint();
+  const audioDevices = useAudioDevices();
+  const preflight = usePreflightChecks({
+    url: endpoint.url,
+    urlError: endpoint.error,
+    language: selectedLanguage,
+    inputDeviceId: audioDevices.preferences.inputDeviceId,
+    outputDeviceId: audioDevices.preferences.outputDeviceId,
+    mic: micProcessing
+  });
+  const uploads = useRecordingUploads();
+  // What saving a call needs beyond its result, kept apart from the list so "Clear All" or the cap can't lose a call.
+  const callMetadata = useRef(new Map<string, { language: string; startedAt: string }>());
+  const callEvents = useCallEventLog();
+  const offlineTranscription = useOfflineTranscription();
+  const callExport = useCallExport();
+  const [exportingRecording, setExportingRecording] = useState<string | null>(null);
+
+  const handleEnded = (result: VoiceStreamResult) => {
+    callEvents.endCall(result.id);
+    const metadata = callMetadata.current.get(result.id);
+    callMetadata.current.delete(result.id);
+    // Failed calls are saved too, with whatever audio there is, so they show up in call history.
+    if (metadata) {
+      uploads.saveRecording(result.id, result.audioBlob ?? null, {
+        streamSid: result.streamSid,
+        durationSeconds: result.duration,
+        language: metadata.language,
+        status: result.error ? 'error' : 'success',
+        error: result.error ?? null,
+        startedAt: metadata.startedAt,
+        searchText: [...result.logs.map(log => log.message), formatTranscript(result.transcript)].join('\n'),
+        transcript: result.transcript,
+        channels: result.recordingChannels
+      });
     }
-    
-    currentRecordingRef.current = null;
-    stopListening();
-  };
 
-  const initWebSocket = async () => {
-    return new Promise<void>((resolve, reject) => {
-      if (webSocketRef.current) {
-        webSocketRef.current.close();
-        webSocketRef.current = null;
-      }
-
-      appendLog('Connecting to WebSocket...', 'info', 'browser');
-      
-      const wsUrlWithStreamId = `${WEBSOCKET_URL}?streamSid=${streamIdRef.current}&language=${selectedLanguage}`;
-      const webSocket = new WebSocket(wsUrlWithStreamId);
-      webSocketRef.current = webSocket;
-
-      const connectionTimeout = setTimeout(() => {
-        if (webSocket.readyState === WebSocket.CONNECTING) {
-          webSocket.close();
-          reject(new Error('WebSocket connection timeout'));
-        }
-      }, 10000);
-
-      webSocket.onopen = () => {
-        clearTimeout(connectionTimeout);
-        appendLog('WebSocket connected. Requesting microphone access...', 'info', 'browser');
-        setIsConnecting(false);
-        setIsListening(true);
-        setIsConnected(true);
-        connectionAttemptInProgress.current = false;
-        appendLog('Connection established! Ready to speak - your voice will be sent to the server.', 'info', 'browser');
-        initFullConversationRecording().then(resolve).catch(reject);
-      };
-
-      webSocket.onclose = (event) => {
-        clearTimeout(connectionTimeout);
-        appendLog(`WebSocket closed: ${event.reason || 'No reason given'} (Code: ${event.code})`, 'warning', 'browser');
-        setIsConnecting(false);
-        setIsListening(false);
-        setIsConnected(false);
-        connectionAttemptInProgress.current = false;
-        webSocketRef.current = null;
-      };
-
-      webSocket.onerror = (error) => {
-        clearTimeout(connectionTimeout);
-        appendLog('WebSocket connection failed', 'error', 'browser');
-        setIsConnecting(false);
-        setIsListening(false);
-        setIsConnected(false);
-        connectionAttemptInProgress.current = false;
-        webSocketRef.current = null;
-        reject(new Error('WebSocket connection failed'));
-      };
-
-      webSocket.onmessage = async (event) => {
-        let message;
-        try {
-          message = JSON.parse(event.data);
-        } catch (e) {
-          appendLog(event.data, 'info', 'server');
-          return;
-        }
-
-        console.log("[LOG] Message received from server:", message);
-
-        if (message.type === 'log') {
-          appendLog(message.message, 'info', 'server');
-        } else if (message.type === 'playback' && message.play === false) {
-          // Stop current playback immediately when server requests
-          appendLog('Received playback stop command from server', 'info', 'server');
-          if (currentPlaybackSourceRef.current) {
-            currentPlaybackSourceRef.current.stop();
-            currentPlaybackSourceRef.current = null;
-          }
-          isPlayingRef.current = false;
-          playbackQueueRef.current = []; // Clear queue
-        } else if (message.type === 'end_call' && message.play === false) {
-          // Close WebSocket connection when end_call is received
-          appendLog('Received end_call command from server - closing connection', 'info', 'server');
-          if (webSocketRef.current) {
-            webSocketRef.current.close(1000, "Server requested end call");
+    setRecordings(prev => prev.map(r =>
+      r.id === result.id
+        ? {
+            ...r,
+            duration: result.duration,
+            status: result.error ? 'error' : 'success',
+            audioBlob: result.audioBlob,
+            error: result.error,
+            logs: result.logs,
+            transcript: result.transcript
           }
-          handleStop(conversationDurationRef.current);
-        } else if (message.event === 'media' && message.media?.payload) {
-          const seq = message.media.seq;
-          appendLog(`Received audio chunk, seq=${seq}`, 'info', 'server');
-          
-          const base64 = message.media.payload;
-          const audioBytes = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
-          
-          if (audioContextRef.current) {
-            try {
-              const audioBuffer = await audioContextRef.current.decodeAudioData(audioBytes.buffer);
-              audioBufferMapRef.current[seq] = audioBuffer;
-              tryPlayInOrder();
-            } catch (error) {
-              console.error('Error decoding audio:', error);
-              appendLog('Error decoding audio from server', 'error', 'browser');
-            }
-          }
-        } else {
-          appendLog(`[Unhandled]: ${JSON.stringify(message)}`, 'warning', 'server');
-        }
-      };
-    });
+        : r
+    ));
   };
 
-  const tryPlayInOrder = () => {
-    while (audioBufferMapRef.current[nextSeqToPlayRef.current]) {
-      enqueueAudioBuffer(audioBufferMapRef.current[nextSeqToPlayRef.current]);
-      delete audioBufferMapRef.current[nextSeqToPlayRef.current];
-      nextSeqToPlayRef.current++;
+  const {
+    logs,
+    transcript,
+    duration,
+    error,
+    setError,
+    isConnecting,
+    isConnected,
+    isReconnecting,
+    reconnectAttempt,
+    isSpeaking,
+    micReport,
+    inputAnalyser,
+    outputAnalyser,
+    isActive,
+    start,
+    stop,
+    clearLogs
+  } = useVoiceStream({
+    url: endpoint.url,
+    language: selectedLanguage,
+    audioFormat,
+    bargeIn,
+    mic: micProcessing,
+    inputDeviceId: audioDevices.preferences.inputDeviceId,
+    outputDeviceId: audioDevices.preferences.outputDeviceId,
+    recordingChannels,
+    onLog: callEvents.record,
+    onEnded: handleEnded
+  });
+
+  const isListening = isActive && !isConnecting;
+  const refreshDevices = audioDevices.refresh;
+
+  // Device labels are only exposed once microphone access has been granted.
+  useEffect(() => {
+    if (isConnected) {
+      refreshDevices();
     }
-  };
+  }, [isConnected, refreshDevices]);
 
-  const enqueueAudioBuffer = (audioBuffer: AudioBuffer) => {
-    playbackQueueRef.current.push(audioBuffer);
-    if (!isPlayingRef.current) {
-      playNextFromQueue();
-    }
-  };
-
-  const playNextFromQueue = async () => {
-    if (playbackQueueRef.current.length === 0) {
-      isPlayingRef.current = false;
-      currentPlaybackSourceRef.current = null;
+  const handleStart = () => {
+    if (!preflight.allPassed) {
       return;
     }
-
-    const buffer = playbackQueueRef.current.shift();
-    if (!buffer || !audioContextRef.current || !mixerNodeRef.current) return;
-
-    const source = audioContextRef.current.createBufferSource();
-    source.buffer = buffer;
-    currentPlaybackSourceRef.current = source;
-    
-    source.connect(mixerNodeRef.current);
-    source.connect(audioContextRef.current.destination);
-
-    isPlayingRef.current = true;
-    appendLog('Starting TTS playback - microphone continues listening', 'info', 'browser');
-
-    source.onended = () => {
-      appendLog('TTS playback ended', 'info', 'browser');
-      currentPlaybackSourceRef.current = null;
-      isPlayingRef.current = false;
-      playNextFromQueue();
-    };
-
-    source.start(0);
-  };
-
-  const initFullConversationRecording = async () => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true, video: false });
-      appendLog('Microphone access granted. Setting up full conversation recording...', 'info', 'browser');
-
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
-      
-      mixerNodeRef.current = audioContextRef.current.createGain();
-      
-      destinationStreamRef.current = audioContextRef.current.createMediaStreamDestination();
-      mixerNodeRef.current.connect(destinationStreamRef.current);
-      
-      micSourceRef.current = audioContextRef.current.createMediaStreamSource(stream);
-      micSourceRef.current.connect(mixerNodeRef.current);
-      
-      fullConversationRecorderRef.current = new MediaRecorder(destinationStreamRef.current.stream);
-      
-      fullConversationRecorderRef.current.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          audioChunksRef.current.push(event.data);
-          appendLog(`Full conversation chunk recorded: ${event.data.size} bytes`, 'info', 'browser');
-        }
-      };
-
-      fullConversationRecorderRef.current.onstart = () => {
-        appendLog('Full conversation recording started', 'info', 'browser');
-      };
-
-      fullConversationRecorderRef.current.onstop = () => {
-        appendLog('Full conversation recording stopped', 'info', 'browser');
-      };
-
-      fullConversationRecorderRef.current.onerror = (event) => {
-        appendLog(`Full conversation recorder error: ${(event as any).error.name}`, 'error', 'browser');
-      };
-
-      fullConversationRecorderRef.current.start(CHUNK_DURATION_MS);
-      
-      const mediaRecorder = new MediaRecorder(stream);
-      mediaRecorderRef.current = mediaRecorder;
-
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          if (webSocketRef.current && webSocketRef.current.readyState === WebSocket.OPEN) {
-            const reader = new FileReader();
-            reader.onloadend = () => {
-              const base64Audio = (reader.result as string).split(',')[1];
-              const message = {
-                start: {
-                  streamSid: streamIdRef.current
-                },
-                media: {
-                  payload: base64Audio
-                }
-              };
-              webSocketRef.current?.send(JSON.stringify(message));
-              appendLog('Audio chunk sent to server using websocket', 'info', 'browser');
-            };
-            reader.readAsDataURL(event.data);
-          }
-        }
-      };
-
-      mediaRecorder.onstart = () => {
-        appendLog('WebSocket streaming started', 'info', 'browser');
-      };
-
-      mediaRecorder.onstop = () => {
-        appendLog('WebSocket streaming stopped', 'info', 'browser');
-        stream.getTracks().forEach(track => track.stop());
-      };
-
-      mediaRecorder.onerror = (event) => {
-        appendLog(`WebSocket streaming error: ${(event as any).error.name}`, 'error', 'browser');
-        handleConnectionFailure(`MediaRecorder error: ${(event as any).error.name}`);
-      };
-
-      mediaRecorder.start(CHUNK_DURATION_MS);
-      
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Microphone access denied';
-      appendLog(`Error accessing microphone: ${errorMessage}`, 'error', 'browser');
-      throw err;
-    }
-  };
-
-  const cleanupResources = () => {
-    if (cleanupInProgress.current) {
+    if (endpoint.error) {
+      setError(endpoint.error);
       return;
     }
-    
-    cleanupInProgress.current = true;
-    appendLog('Cleaning up audio resources...', 'info', 'browser');
-    
-    stopDurationTracking();
-    
-    // Stop current playback
-    if (currentPlaybackSourceRef.current) {
-      currentPlaybackSourceRef.current.stop();
-      currentPlaybackSourceRef.current = null;
-    }
-    
-    if (fullConversationRecorderRef.current && fullConversationRecorderRef.current.state !== "inactive") {
-      fullConversationRecorderRef.current.stop();
-    }
-    
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== "inactive") {
-      mediaRecorderRef.current.stop();
-    }
 
-    if (micSourceRef.current) {
-      micSourceRef.current.disconnect();
-      micSourceRef.current = null;
-    }
-    
-    if (mixerNodeRef.current) {
-      mixerNodeRef.current.disconnect();
-      mixerNodeRef.current = null;
-    }
-    
-    if (destinationStreamRef.current) {
-      destinationStreamRef.current.disconnect();
-      destinationStreamRef.current = null;
-    }
-
-    if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-      audioContextRef.current.close();
-    }
-
-    if (webSocketRef.current && (webSocketRef.current.readyState === WebSocket.OPEN || webSocketRef.current.readyState === WebSocket.CONNECTING)) {
-      webSocketRef.current.close(1000, "Client initiated stop");
+    const session = start();
+    if (!session) {
+      return;
     }
 
-    fullConversationRecorderRef.current = null;
-    mediaRecorderRef.current = null;
-    audioContextRef.current = null;
-    webSocketRef.current = null;
-    playbackQueueRef.current = [];
-    isPlayingRef.current = false;
+    const newRecording: Recording = {
+      id: session.id,
+      streamSid: session.streamSid,
+      duration: 0,
+      timestamp: new Date(),
+      language: selectedLanguage,
+      channels: recordingChannels,
+      status: 'processing',
+      logs: []
+    };
+    callMetadata.current.set(session.id, { language: selectedLanguage, startedAt: newRecording.timestamp.toISOString() });
+    setRecordings(prev => [newRecording, ...prev.slice(0, 9)]);
   };
 
-  const stopListening = () => {
-    cleanupResources();
-    setIsConnecting(false);
-    setIsListening(false);
-    setIsConnected(false);
-    connectionAttemptInProgress.current = false;
+  const handleStop = () => {
+    stop();
   };
 
   const clearAllRecordings = () => {
-    if (currentAudioRef.current) {
-      currentAudioRef.current.pause();
-      currentAudioRef.current = null;
-    }
-    setPlayingRecording(null);
+    setOpenPlayerId(null);
     setRecordings([]);
-    setLogs([]);
+    clearLogs();
     setError(null);
   };
 
@@ -545,48 +219,36 @@ export function AIVoiceInputDemo() {
     return `${mins}:${secs.toString().padStart(2, "0")}`;
   };
 
-  const downloadRecordingHistory = () => {
-    const csvContent = "data:text/csv;charset=utf-8," 
-      + "Recording Number,Duration,Status,Timestamp,Error\n"
-      + recordings.map((recording, index) => 
-          `${recordings.length - index},${formatDuration(recording.duration)},${recording.status},${recording.timestamp.toLocaleString()},${recording.error || ''}`
-        ).join("\n");
-    
-    const encodedUri = encodeURI(csvContent);
-    const link = document.createElement("a");
-    link.setAttribute("href", encodedUri);
-    link.setAttribute("download", "recording_history.csv");
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const toExportableCall = (recording: Recording): ExportableCall => ({
+    id: recording.id,
+    streamSid: recording.streamSid,
+    startedAt: recording.timestamp.toISOString(),
+    durationSeconds: recording.duration,
+    language: recording.language,
+    status: recording.status === 'error' ? 'error' : 'success',
+    error: recording.error ?? null,
+    channels: recording.channels,
+    audio: recording.audioBlob ?? null,
+    transcript: recording.transcript ?? [],
+    logs: fromLogEntries(recording.logs ?? [])
+  });
+
+  const exportRecording = async (recording: Recording, task: (call: ExportableCall) => Promise<void>) => {
+    setExportingRecording(recording.id);
+    await task(toExportableCall(recording));
+    setExportingRecording(null);
   };
 
-  const downloadIndividualRecording = (recording: Recording) => {
-    if (recording.audioBlob) {
-      const url = URL.createObjectURL(recording.audioBlob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = `full_conversation_${recording.id.slice(0, 8)}.webm`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-    } else {
-      const csvContent = "data:text/csv;charset=utf-8," 
-        + "Property,Value\n"
-        + `ID,${recording.id}\n`
-        + `Duration,${formatDuration(recording.duration)}\n`
-        + `Status,${recording.status}\n`
-        + `Timestamp,${recording.timestamp.toLocaleString()}\n`
-        + `Error,${recording.error || 'None'}`;
-      
-      const encodedUri = encodeURI(csvContent);
-      const link = document.createElement("a");
-      link.setAttribute("href", encodedUri);
-      link.setAttribute("download", `recording_${recording.id.slice(0, 8)}.csv`);
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+  const downloadRecordingSide = async (recording: Recording, side: RecordingSide) => {
+    if (!recording.audioBlob) {
+      return;
+    }
+
+    try {
+      const blob = await exportRecordingSide(recording.audioBlob, side);
+      downloadBlob(blob, `${side}_${recording.id.slice(0, 8)}.wav`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Exporting the recording failed');
     }
   };
 
@@ -598,46 +260,46 @@ export function AIVoiceInputDemo() {
     const logsText = recording.logs
       .map(log => `[${log.timestamp}] [${log.type.toUpperCase()}] ${log.message}`)
       .join('\n');
-    
-    const blob = new Blob([logsText], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = `logs_${recording.id.slice(0, 8)}.txt`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-  };
-
-  const playRecording = (recording: Recording) => {
-    if (!recording.audioBlob) return;
 
-    if (currentAudioRef.current) {
-      currentAudioRef.current.pause();
-    }
+    downloadBlob(new Blob([logsText], { type: 'text/plain' }), `logs_${recording.id.slice(0, 8)}.txt`);
+  };
 
-    if (playingRecording === recording.id) {
-      setPlayingRecording(null);
-      currentAudioRef.current = null;
+  const downloadTranscript = (recording: Recording) => {
+    if (!recording.transcript || recording.transcript.length === 0) {
       return;
     }
 
-    const audio = new Audio(URL.createObjectURL(recording.audioBlob));
-    currentAudioRef.current = audio;
-    setPlayingRecording(recording.id);
+    const blob = new Blob([formatTranscript(recording.transcript)], { type: 'text/plain' });
+    downloadBlob(blob, `transcript_${recording.id.slice(0, 8)}.txt`);
+  };
 
-    audio.onended = () => {
-      setPlayingRecording(null);
-      currentAudioRef.current = null;
-    };
+  const transcribeRecording = async (recording: Recording) => {
+    if (!recording.audioBlob) {
+      return;
+    }
 
-    audio.onerror = () => {
-      setPlayingRecording(null);
-      currentAudioRef.current = null;
-    };
+    const segments = await offlineTranscription.transcribe(
+      recording.id,
+      recording.audioBlob,
+      selectedLanguage,
+      recording.channels
+    );
+    if (!segments) {
+      return;
+    }
 
-    audio.play();
+    // Whisper times from the start of the recording; transcripts count from the stream start.
+    const offsetMs = recordingOffsetMs(fromLogEntries(recording.logs ?? []));
+    const transcript = segments.map(segment => ({
+      ...segment,
+      startMs: segment.startMs + offsetMs,
+      endMs: segment.endMs + offsetMs
+    }));
+
+    setRecordings(prev => prev.map(r => r.id === recording.id ? { ...r, transcript } : r));
+    const searchText = [...(recording.logs ?? []).map(log => log.message), formatTranscript(transcript)].join('\n');
+    uploads.saveTranscript(recording.id, transcript, searchText)
+      .catch(error => console.error('Error saving transcript:', error));
   };
 
   const getStatusIcon = (status: Recording['status']) => {
@@ -653,10 +315,6 @@ export function AIVoiceInputDemo() {
     }
   };
 
-  const clearLogs = () => {
-    setLogs([]);
-  };
-
   const getLogItemStyle = (log: LogEntry) => {
     if (log.source === 'server') {
       return log.type === 'error' ? 'border-red-500 bg-red-50 text-red-700' :
@@ -686,13 +344,34 @@ export function AIVoiceInputDemo() {
             <CardDescription>
               {isConnecting 
                 ? "Connecting to server..." 
-                : isConnected && isListening 
-                  ? `✅ Connected! Ready to speak in ${selectedLanguage}. Recording full conversation...` 
-                  : "Click the microphone button to start/stop recording full conversation"
+                : isReconnecting
+                  ? `Connection lost - reconnecting (attempt ${reconnectAttempt})...`
+                  : isConnected && isSpeaking
+                    ? "🔊 Agent is speaking - interrupt any time"
+                    : isConnected && isListening 
+                      ? `✅ Connected! Ready to speak in ${selectedLanguage}. Recording full conversation...` 
+                      : "Click the microphone button to start/stop recording full conversation"
               }
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
+            <VoiceEndpointSettings
+              settings={endpoint.settings}
+              environments={endpoint.environments}
+              onChange={endpoint.updateSettings}
+              url={endpoint.url}
+              error={endpoint.error}
+              disabled={isListening || isConnecting}
+            />
+
+            <AudioDeviceSettings
+              inputs={audioDevices.inputs}
+              outputs={audioDevices.outputs}
+              preferences={audioDevices.preferences}
+              onChange={audioDevices.updatePreferences}
+              canSelectOutput={audioDevices.canSelectOutput}
+            />
+
             <div className="flex flex-col space-y-2">
               <label className="text-sm font-medium">Language</label>
               <Select value={selectedLanguage} onValueChange={setSelectedLanguage} disabled={isListening || isConnecting}>
@@ -708,11 +387,108 @@ export function AIVoiceInputDemo() {
               </Select>
             </div>
 
+            <div className="flex flex-col space-y-2">
+              <label className="text-sm font-medium">Audio Format</label>
+              <Select value={audioFormat} onValueChange={(value) => setAudioFormat(value as AudioFormat)} disabled={isListening || isConnecting}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select audio format" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="webm">WebM chunks (1 s, compatibility)</SelectItem>
+                  <SelectItem value="pcm16">PCM16 16 kHz (20 ms frames)</SelectItem>
+                  <SelectItem value="mulaw">μ-law 8 kHz (20 ms frames, telephony)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex flex-col space-y-2">
+              <label className="text-sm font-medium">Barge-in</label>
+              <Select value={bargeInMode} onValueChange={(value) => setBargeInMode(value as BargeInMode)} disabled={isListening || isConnecting}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select barge-in behaviour" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="duck">Duck agent audio while the caller talks</SelectItem>
+                  <SelectItem value="stop">Stop agent audio when the caller talks</SelectItem>
+                  <SelectItem value="server">Report to server, let it decide</SelectItem>
+                  <SelectItem value="off">Off</SelectItem>
+                </SelectContent>
+              </Select>
+              {bargeInMode !== "off" && (
+                <div className="flex items-center gap-3">
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">Sensitivity</span>
+                  <Slider
+                    value={[bargeInSensitivity]}
+                    onValueChange={([value]) => setBargeInSensitivity(value)}
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    disabled={isListening || isConnecting}
+                    aria-label="Barge-in sensitivity"
+                  />
+                  <span className="text-xs text-muted-foreground w-10 text-right">{Math.round(bargeInSensitivity * 100)}%</span>
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-col space-y-2">
+              <label className="text-sm font-medium">Microphone Processing</label>
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(MIC_PROCESSING_LABELS) as (keyof typeof MIC_PROCESSING_LABELS)[]).map((key) => (
+                  <div key={key} className="flex items-center gap-2">
+                    <Switch
+                      id={`mic-${key}`}
+                      checked={micProcessing[key]}
+                      onCheckedChange={(checked) => setMicProcessing(prev => ({ ...prev, [key]: checked }))}
+                      disabled={isListening || isConnecting}
+                    />
+                    <Label htmlFor={`mic-${key}`} className="text-sm font-normal">{MIC_PROCESSING_LABELS[key]}</Label>
+                  </div>
+                ))}
+              </div>
+              {micReport && (
+                <div className="flex flex-wrap gap-2" aria-label="Applied microphone processing">
+                  {MIC_CONSTRAINTS.map((name) => (
+                    <Badge key={name} variant={micReport.mismatched.includes(name) ? "destructive" : "secondary"}>
+                      {MIC_PROCESSING_LABELS[name]}: {micReport.applied[name] === undefined ? "unknown" : micReport.applied[name] ? "on" : "off"}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="stereo-recording"
+                checked={recordingChannels === "stereo"}
+                onCheckedChange={(checked) => setRecordingChannels(checked ? "stereo" : "mono")}
+                disabled={isListening || isConnecting}
+              />
+              <Label htmlFor="stereo-recording" className="text-sm font-normal">
+                Stereo recording (caller left, agent right)
+              </Label>
+            </div>
+
+            <PreCallCheck
+              checks={preflight.checks}
+              hasMicSample={preflight.hasMicSample}
+              onTestMicrophone={preflight.testMicrophone}
+              onPlayMicSample={preflight.playMicSample}
+              onTestSpeaker={preflight.testSpeaker}
+              onConfirmSpeaker={preflight.confirmSpeaker}
+              onTestServer={preflight.testServer}
+              disabled={isListening || isConnecting}
+            />
+
             <AIVoiceInput 
               onStart={handleStart}
               onStop={handleStop}
-              actualDuration={conversationDurationRef.current}
+              actualDuration={duration}
               isRecording={isListening || isConnecting}
+              disabled={!preflight.allPassed}
+              disabledReason="Pass the pre-call check to start a call"
+              inputAnalyser={inputAnalyser}
+              outputAnalyser={outputAnalyser}
             />
           </CardContent>
         </Card>
@@ -723,7 +499,7 @@ export function AIVoiceInputDemo() {
               <div>
                 <CardTitle>Full Conversation History</CardTitle>
                 <CardDescription>
-                  Your recent full conversation recordings (last 10) - includes both voice and TTS playback
+                  Your recent full conversation recordings (last 10) - includes both voice and TTS playback, saved to your account
                 </CardDescription>
               </div>
               <div className="flex gap-2">
@@ -736,107 +512,183 @@ export function AIVoiceInputDemo() {
                   <Trash2 className="w-4 h-4" />
                   Clear All
                 </Button>
-                <Button 
-                  variant="outline" 
-                  size="sm" 
-                  onClick={downloadRecordingHistory}
-                  className="flex items-center gap-2"
-                >
-                  <Download className="w-4 h-4" />
-                  Download All
-                </Button>
+                <CallHistoryExportDialog>
+                  <Button variant="outline" size="sm" className="flex items-center gap-2">
+                    <Download className="w-4 h-4" />
+                    Download All
+                  </Button>
+                </CallHistoryExportDialog>
               </div>
             </CardHeader>
             <CardContent>
+              {callExport.error && (
+                <div className="text-sm text-red-500 mb-2" role="alert">Export failed: {callExport.error}</div>
+              )}
               <div className="space-y-2">
                 {recordings.map((recording, index) => (
-                  <div key={recording.id} className={`flex items-center justify-between p-3 border rounded-lg ${
-                    recording.status === 'error' ? 'border-red-200 bg-red-50' : 
-                    recording.status === 'success' ? 'border-green-200 bg-green-50' :
-                    'border-yellow-200 bg-yellow-50'
-                  }`}>
-                    <div className="flex items-center gap-3">
-                      <Badge variant="secondary">#{recordings.length - index}</Badge>
-                      <span className="font-medium">Full Conversation</span>
-                      {getStatusIcon(recording.status)}
-                    </div>
-                    <div className="flex items-center gap-4">
-                      <div className="text-sm text-muted-foreground">
-                        <span>Duration: {formatDuration(recording.duration)}</span>
-                        <span className="ml-4">{recording.timestamp.toLocaleTimeString()}</span>
-                        {recording.error && (
-                          <div className="text-red-500 text-xs mt-1">
-                            Error: {recording.error}
-                          </div>
-                        )}
+                  <div key={recording.id} className="space-y-2">
+                    <div className={`flex items-center justify-between p-3 border rounded-lg ${
+                      recording.status === 'error' ? 'border-red-200 bg-red-50' : 
+                      recording.status === 'success' ? 'border-green-200 bg-green-50' :
+                      'border-yellow-200 bg-yellow-50'
+                    }`}>
+                      <div className="flex items-center gap-3">
+                        <Badge variant="secondary">#{recordings.length - index}</Badge>
+                        <span className="font-medium">Full Conversation</span>
+                        {getStatusIcon(recording.status)}
+                        <RecordingUploadStatus
+                          status={uploads.statuses[recording.id]}
+                          onRetry={() => uploads.retryUpload(recording.id)}
+                        />
                       </div>
-                      <div className="flex items-center gap-2">
-                        {recording.audioBlob && recording.status === 'success' && (
-                          <Button 
-                            variant="outline" 
-                            size="sm" 
-                            onClick={() => playRecording(recording)}
-                            className="flex items-center gap-1"
-                          >
-                            {playingRecording === recording.id ? (
-                              <Pause className="w-3 h-3" />
-                            ) : (
-                              <Play className="w-3 h-3" />
-                            )}
-                          </Button>
-                        )}
-                        {recording.logs && recording.logs.length > 0 && (
-                          <Dialog>
-                            <DialogTrigger asChild>
-                              <Button 
-                                variant="outline" 
-                                size="sm" 
-                                className="flex items-center gap-1"
-                              >
-                                <FileText className="w-3 h-3" />
-                              </Button>
-                            </DialogTrigger>
-                            <DialogContent className="max-w-4xl max-h-[80vh]">
-                              <DialogHeader>
-                                <DialogTitle>Recording Logs</DialogTitle>
-                                <DialogDescription>
-                                  Logs for recording #{recordings.length - index} - {recording.timestamp.toLocaleString()}
-                                </DialogDescription>
-                              </DialogHeader>
-                              <div className="flex justify-between items-center mb-4">
-                                <span className="text-sm text-muted-foreground">
-                                  {recording.logs.length} log entries
-                                </span>
+                      <div className="flex items-center gap-4">
+                        <div className="text-sm text-muted-foreground">
+                          <span>Duration: {formatDuration(recording.duration)}</span>
+                          <span className="ml-4">{recording.timestamp.toLocaleTimeString()}</span>
+                          {recording.error && (
+                            <div className="text-red-500 text-xs mt-1">
+                              Error: {recording.error}
+                            </div>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {recording.audioBlob && (
+                            <Button 
+                              variant="outline" 
+                              size="sm" 
+                              onClick={() => setOpenPlayerId(prev => prev === recording.id ? null : recording.id)}
+                              className="flex items-center gap-1"
+                              aria-label={openPlayerId === recording.id ? "Close player" : "Open player"}
+                              aria-expanded={openPlayerId === recording.id}
+                            >
+                              {openPlayerId === recording.id ? (
+                                <ChevronUp className="w-3 h-3" />
+                              ) : (
+                                <Play className="w-3 h-3" />
+                              )}
+                            </Button>
+                          )}
+                          {recording.audioBlob && !recording.transcript?.length && (
+                            <OfflineTranscriptionStatus
+                              status={offlineTranscription.statuses[recording.id]}
+                              onTranscribe={() => transcribeRecording(recording)}
+                            />
+                          )}
+                          {recording.transcript && recording.transcript.length > 0 && (
+                            <Dialog>
+                              <DialogTrigger asChild>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="flex items-center gap-1"
+                                  aria-label="View transcript"
+                                >
+                                  <MessageSquareText className="w-3 h-3" />
+                                </Button>
+                              </DialogTrigger>
+                              <DialogContent className="max-w-4xl max-h-[80vh]">
+                                <DialogHeader>
+                                  <DialogTitle>Transcript</DialogTitle>
+                                  <DialogDescription>
+                                    Transcript for recording #{recordings.length - index} - {recording.timestamp.toLocaleString()}
+                                  </DialogDescription>
+                                </DialogHeader>
+                                <div className="flex justify-end mb-4">
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => downloadTranscript(recording)}
+                                    className="flex items-center gap-2"
+                                  >
+                                    <Download className="w-4 h-4" />
+                                    Download Transcript
+                                  </Button>
+                                </div>
+                                <TranscriptPanel segments={recording.transcript} className="border rounded-lg p-4" />
+                              </DialogContent>
+                            </Dialog>
+                          )}
+                          {recording.logs && recording.logs.length > 0 && (
+                            <Dialog>
+                              <DialogTrigger asChild>
                                 <Button 
                                   variant="outline" 
                                   size="sm" 
-                                  onClick={() => downloadLogs(recording)}
-                                  className="flex items-center gap-2"
+                                  className="flex items-center gap-1"
                                 >
-                                  <Download className="w-4 h-4" />
-                                  Download Logs
+                                  <FileText className="w-3 h-3" />
                                 </Button>
-                              </div>
-                              <div className="space-y-1 max-h-96 overflow-y-auto font-mono text-sm border rounded-lg p-4">
-                                {recording.logs.map((log, logIndex) => (
-                                  <div key={logIndex} className={`p-2 rounded text-xs border-l-2 ${getLogItemStyle(log)}`}>
-                                    <span className="text-gray-500">[{log.timestamp}]</span> {log.message}
-                                  </div>
+                              </DialogTrigger>
+                              <DialogContent className="max-w-4xl max-h-[80vh]">
+                                <DialogHeader>
+                                  <DialogTitle>Recording Logs</DialogTitle>
+                                  <DialogDescription>
+                                    Logs for recording #{recordings.length - index} - {recording.timestamp.toLocaleString()}
+                                  </DialogDescription>
+                                </DialogHeader>
+                                <div className="flex justify-between items-center mb-4">
+                                  <span className="text-sm text-muted-foreground">
+                                    {recording.logs.length} log entries
+                                  </span>
+                                  <Button 
+                                    variant="outline" 
+                                    size="sm" 
+                                    onClick={() => downloadLogs(recording)}
+                                    className="flex items-center gap-2"
+                                  >
+                                    <Download className="w-4 h-4" />
+                                    Download Logs
+                                  </Button>
+                                </div>
+                                <div className="space-y-1 max-h-96 overflow-y-auto font-mono text-sm border rounded-lg p-4">
+                                  {recording.logs.map((log, logIndex) => (
+                                    <div key={logIndex} className={`p-2 rounded text-xs border-l-2 ${getLogItemStyle(log)}`}>
+                                      <span className="text-gray-500">[{log.timestamp}]</span> {log.message}
+                                    </div>
+                                  ))}
+                                </div>
+                              </DialogContent>
+                            </Dialog>
+                          )}
+                          {recording.status !== 'processing' && (
+                            <CallExportMenu
+                              hasAudio={!!recording.audioBlob}
+                              progress={exportingRecording === recording.id ? callExport.progress : null}
+                              onExportAudio={(format) => exportRecording(recording, call => callExport.exportAudio(call, format))}
+                              onExportBundle={(format) => exportRecording(recording, call => callExport.exportBundle([call], format))}
+                            >
+                              {recording.channels === 'stereo' && recording.audioBlob &&
+                                (Object.keys(RECORDING_SIDE_LABELS) as RecordingSide[]).map((side) => (
+                                  <DropdownMenuItem key={side} onSelect={() => downloadRecordingSide(recording, side)}>
+                                    {RECORDING_SIDE_LABELS[side]} only (WAV)
+                                  </DropdownMenuItem>
                                 ))}
-                              </div>
-                            </DialogContent>
-                          </Dialog>
-                        )}
-                        <Button 
-                          variant="outline" 
-                          size="sm" 
-                          onClick={() => downloadIndividualRecording(recording)}
-                          className="flex items-center gap-1"
-                        >
-                          <Download className="w-3 h-3" />
-                        </Button>
+                            </CallExportMenu>
+                          )}
+                        </div>
                       </div>
                     </div>
+                    {openPlayerId === recording.id && recording.audioBlob && (
+                      <div className="space-y-2">
+                        <WaveformPlayer
+                          ref={playerRef}
+                          audio={recording.audioBlob}
+                          markers={toCallMarkers(fromLogEntries(recording.logs ?? []))}
+                          autoPlay
+                        />
+                        {recording.transcript && recording.transcript.length > 0 && (
+                          <TranscriptPanel
+                            segments={recording.transcript}
+                            onSeek={(startMs) =>
+                              playerRef.current?.seek(
+                                Math.max(0, startMs - recordingOffsetMs(fromLogEntries(recording.logs ?? [])))
+                              )
+                            }
+                            className="border rounded-lg p-3"
+                          />
+                        )}
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -845,8 +697,21 @@ export function AIVoiceInputDemo() {
         )}
       </div>
 
-      {/* Right Side - Live Logs */}
+      {/* Right Side - Live Transcript and Logs */}
       <div className="space-y-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Live Transcript</CardTitle>
+            <CardDescription>What the prospect and the agent are saying, as the server transcribes it</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TranscriptPanel
+              segments={transcript}
+              emptyMessage={isListening || isConnecting ? "Waiting for speech..." : "The transcript appears here during a call."}
+            />
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader className="flex flex-row items-center justify-between">
             <div>
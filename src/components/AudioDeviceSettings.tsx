@@ -0,0 +1,73 @@
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AudioDevicePreferences, deviceLabel } from "@/lib/voice/devices";
+
+// Radix Select can't use an empty string as an item value.
+const DEFAULT_DEVICE = "default";
+
+interface AudioDeviceSettingsProps {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+  preferences: AudioDevicePreferences;
+  onChange: (changes: Partial<AudioDevicePreferences>) => void;
+  canSelectOutput: boolean;
+}
+
+const toValue = (deviceId: string | null) => deviceId ?? DEFAULT_DEVICE;
+const fromValue = (value: string) => (value === DEFAULT_DEVICE ? null : value);
+
+/** Skips Chrome's own "default" entry, which the System default item already covers. */
+const selectable = (devices: MediaDeviceInfo[]) =>
+  devices.filter(device => device.deviceId && device.deviceId !== DEFAULT_DEVICE);
+
+const AudioDeviceSettings = ({ inputs, outputs, preferences, onChange, canSelectOutput }: AudioDeviceSettingsProps) => {
+  return (
+    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+      <div className="flex flex-col space-y-2">
+        <Label htmlFor="voice-input-device">Microphone</Label>
+        <Select
+          value={toValue(preferences.inputDeviceId)}
+          onValueChange={(value) => onChange({ inputDeviceId: fromValue(value) })}
+        >
+          <SelectTrigger id="voice-input-device" className="w-full">
+            <SelectValue placeholder="Select microphone" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_DEVICE}>System default</SelectItem>
+            {selectable(inputs).map((device, index) => (
+              <SelectItem key={device.deviceId} value={device.deviceId}>
+                {deviceLabel(device, index)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-col space-y-2">
+        <Label htmlFor="voice-output-device">Speaker</Label>
+        <Select
+          value={toValue(preferences.outputDeviceId)}
+          onValueChange={(value) => onChange({ outputDeviceId: fromValue(value) })}
+          disabled={!canSelectOutput}
+        >
+          <SelectTrigger id="voice-output-device" className="w-full">
+            <SelectValue placeholder="Select speaker" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_DEVICE}>System default</SelectItem>
+            {selectable(outputs).map((device, index) => (
+              <SelectItem key={device.deviceId} value={device.deviceId}>
+                {deviceLabel(device, index)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {!canSelectOutput && (
+          <span className="text-xs text-muted-foreground">This browser always plays through the system default speaker.</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AudioDeviceSettings;
@@ -1,5 +1,7 @@
 
+import { Navigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { AUTH_ROUTES } from '@/lib/auth/redirect';
 import LoginPage from '@/pages/LoginPage';
 
 interface AuthGuardProps {
@@ -7,7 +9,7 @@ interface AuthGuardProps {
 }
 
 const AuthGuard = ({ children }: AuthGuardProps) => {
-  const { user, loading } = useAuth();
+  const { user, loading, authRedirect } = useAuth();
 
   if (loading) {
     return (
@@ -21,6 +23,15 @@ const AuthGuard = ({ children }: AuthGuardProps) => {
     return <LoginPage />;
   }
 
+  // Reset and invite links should land on their own pages, but Supabase falls
+  // back to the site URL when the redirect isn't allowed.
+  if (authRedirect?.type === 'recovery') {
+    return <Navigate to={AUTH_ROUTES.resetPassword} replace />;
+  }
+  if (authRedirect?.type === 'invite') {
+    return <Navigate to={AUTH_ROUTES.acceptInvite} replace />;
+  }
+
   return <>{children}</>;
 };
 
@@ -0,0 +1,22 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface AuthLayoutProps {
+  title: string;
+  description: React.ReactNode;
+  children: React.ReactNode;
+}
+
+/** The centred card the signed-out pages share. */
+const AuthLayout = ({ title, description, children }: AuthLayoutProps) => (
+  <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+    <Card className="w-full max-w-md">
+      <CardHeader className="text-center">
+        <CardTitle className="text-2xl">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>{children}</CardContent>
+    </Card>
+  </div>
+);
+
+export default AuthLayout;
@@ -0,0 +1,69 @@
+import { Badge } from "@/components/ui/badge";
+import type { CallEvent } from "@/lib/recordings/call-events";
+import { logPositionMs } from "@/lib/recordings/markers";
+import { formatTranscriptTime } from "@/lib/voice/transcript";
+
+interface CallEventTimelineProps {
+  events: CallEvent[];
+  /** When the recording started (epoch ms); with `onSeek`, each event links to its point in the recording. */
+  recordingStartedAt?: number | null;
+  onSeek?: (positionMs: number) => void;
+}
+
+const getEventStyle = (event: CallEvent) => {
+  if (event.level === "error") return "border-red-500 bg-red-50 text-red-700";
+  if (event.level === "warning") return "border-orange-500 bg-orange-50 text-orange-700";
+  return event.source === "server" ? "border-blue-500 bg-blue-50 text-blue-700" : "border-yellow-500 bg-yellow-50 text-yellow-700";
+};
+
+const formatTime = (iso: string) => {
+  const date = new Date(iso);
+  return `${date.toLocaleTimeString()}.${date.getMilliseconds().toString().padStart(3, "0")}`;
+};
+
+const SeekButton = ({ positionMs, onSeek }: { positionMs: number; onSeek: (positionMs: number) => void }) => (
+  <button
+    type="button"
+    className="text-gray-500 underline-offset-2 hover:underline"
+    onClick={() => onSeek(positionMs)}
+    aria-label={`Play from ${formatTranscriptTime(positionMs)}`}
+  >
+    ▶ {formatTranscriptTime(positionMs)}
+  </button>
+);
+
+const CallEventTimeline = ({ events, recordingStartedAt = null, onSeek }: CallEventTimelineProps) => {
+  if (events.length === 0) {
+    return <div className="text-sm text-muted-foreground">No events were saved for this call.</div>;
+  }
+
+  return (
+    <ol className="space-y-1 max-h-[32rem] overflow-y-auto font-mono text-sm border rounded-lg p-4" aria-label="Call timeline">
+      {events.map(event => (
+        <li key={event.seq} className={`p-2 rounded text-xs border-l-2 ${getEventStyle(event)}`}>
+          <div className="flex flex-wrap items-center gap-2">
+            <time dateTime={event.occurred_at} className="text-gray-500">{formatTime(event.occurred_at)}</time>
+            {onSeek && recordingStartedAt !== null && (
+              <SeekButton positionMs={logPositionMs(event.occurred_at, recordingStartedAt)} onSeek={onSeek} />
+            )}
+            <Badge variant="outline" className="px-1.5 py-0 text-[10px] uppercase">{event.source}</Badge>
+            {event.level !== "info" && (
+              <Badge variant={event.level === "error" ? "destructive" : "outline"} className="px-1.5 py-0 text-[10px] uppercase">
+                {event.level}
+              </Badge>
+            )}
+            <span className="break-all">{event.message}</span>
+          </div>
+          {event.payload !== null && (
+            <details className="mt-1">
+              <summary className="cursor-pointer text-gray-500">Details</summary>
+              <pre className="mt-1 whitespace-pre-wrap break-all text-gray-700">{JSON.stringify(event.payload, null, 2)}</pre>
+            </details>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default CallEventTimeline;
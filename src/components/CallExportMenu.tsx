@@ -0,0 +1,88 @@
+import type { ReactNode } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { AUDIO_EXPORT_FORMATS, type AudioExportFormat } from "@/lib/recordings/transcode";
+
+interface CallExportMenuProps {
+  hasAudio?: boolean;
+  /** 0–1 while an export is running. */
+  progress: number | null;
+  /** Leave out for several calls at once, where only a bundle makes sense. */
+  onExportAudio?: (format: AudioExportFormat) => void;
+  onExportBundle: (format: AudioExportFormat) => void;
+  /** Shown instead of the icon, e.g. "Export" on the detail page. */
+  label?: string;
+  /** Extra items at the end of the menu. */
+  children?: ReactNode;
+}
+
+const FORMATS = Object.keys(AUDIO_EXPORT_FORMATS) as AudioExportFormat[];
+
+const CallExportMenu = ({ hasAudio = true, progress, onExportAudio, onExportBundle, label, children }: CallExportMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button
+        variant="outline"
+        size="sm"
+        className="flex items-center gap-1"
+        disabled={progress !== null}
+        aria-label={label ? undefined : "Export call"}
+      >
+        {progress !== null ? (
+          <>
+            <Loader2 className="w-3 h-3 animate-spin" />
+            {Math.round(progress * 100)}%
+          </>
+        ) : (
+          <>
+            <Download className="w-3 h-3" />
+            {label}
+          </>
+        )}
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      {onExportAudio && (
+        <>
+          <DropdownMenuLabel>Audio</DropdownMenuLabel>
+          {FORMATS.map((format) => (
+            <DropdownMenuItem key={format} disabled={!hasAudio} onSelect={() => onExportAudio(format)}>
+              {AUDIO_EXPORT_FORMATS[format].label}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+        </>
+      )}
+      <DropdownMenuSub>
+        <DropdownMenuSubTrigger>Bundle (ZIP)</DropdownMenuSubTrigger>
+        <DropdownMenuSubContent>
+          <DropdownMenuLabel>Audio, transcript, logs and manifest, with audio as</DropdownMenuLabel>
+          {FORMATS.map((format) => (
+            <DropdownMenuItem key={format} onSelect={() => onExportBundle(format)}>
+              {AUDIO_EXPORT_FORMATS[format].label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuSubContent>
+      </DropdownMenuSub>
+      {children && (
+        <>
+          <DropdownMenuSeparator />
+          {children}
+        </>
+      )}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+export default CallExportMenu;
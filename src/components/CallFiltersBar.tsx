@@ -0,0 +1,156 @@
+import { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { CalendarIcon, Search, X } from "lucide-react";
+import type { DateRange } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CallFilters, EMPTY_CALL_FILTERS, toDateParam } from "@/lib/recordings/calls";
+
+// Radix Select can't use an empty string as an item value.
+const ANY = "any";
+
+const LANGUAGES = ["English", "Hindi", "Spanish", "Urdu"];
+
+interface CallFiltersBarProps {
+  filters: CallFilters;
+  onChange: (filters: CallFilters) => void;
+}
+
+const describeRange = (from: string | null, to: string | null) => {
+  const label = (date: string) => format(parseISO(date), "d MMM yyyy");
+  if (from && to) return from === to ? label(from) : `${label(from)} – ${label(to)}`;
+  if (from) return `From ${label(from)}`;
+  if (to) return `Until ${label(to)}`;
+  return "Any date";
+};
+
+const toSeconds = (value: string) => (value === "" ? null : Math.max(0, Math.floor(Number(value))));
+
+const CallFiltersBar = ({ filters, onChange }: CallFiltersBarProps) => {
+  const [search, setSearch] = useState(filters.search);
+
+  // Follow the URL when it changes underneath us (back button, cleared filters).
+  useEffect(() => {
+    setSearch(filters.search);
+  }, [filters.search]);
+
+  const update = (changes: Partial<CallFilters>) => onChange({ ...filters, ...changes });
+
+  const range: DateRange | undefined = filters.from || filters.to
+    ? { from: filters.from ? parseISO(filters.from) : undefined, to: filters.to ? parseISO(filters.to) : undefined }
+    : undefined;
+
+  return (
+    <div className="space-y-4">
+      <form
+        className="flex gap-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          update({ search });
+        }}
+      >
+        <Input
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
+          placeholder='Search logs, e.g. timeout -reconnect or "barge-in"'
+          aria-label="Search calls"
+        />
+        <Button type="submit" variant="outline" className="flex items-center gap-2">
+          <Search className="w-4 h-4" />
+          Search
+        </Button>
+      </form>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <div className="flex flex-col space-y-2">
+          <Label>Date</Label>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="justify-start font-normal">
+                <CalendarIcon className="w-4 h-4 mr-2" />
+                {describeRange(filters.from, filters.to)}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="range"
+                selected={range}
+                onSelect={(selected) => update({
+                  from: selected?.from ? toDateParam(selected.from) : null,
+                  to: selected?.to ? toDateParam(selected.to) : null
+                })}
+                numberOfMonths={2}
+              />
+            </PopoverContent>
+          </Popover>
+        </div>
+
+        <div className="flex flex-col space-y-2">
+          <Label htmlFor="call-language">Language</Label>
+          <Select value={filters.language ?? ANY} onValueChange={(value) => update({ language: value === ANY ? null : value })}>
+            <SelectTrigger id="call-language">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any language</SelectItem>
+              {LANGUAGES.map((language) => (
+                <SelectItem key={language} value={language}>{language}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex flex-col space-y-2">
+          <Label htmlFor="call-status">Status</Label>
+          <Select
+            value={filters.status ?? ANY}
+            onValueChange={(value) => update({ status: value === ANY ? null : (value as CallFilters["status"]) })}
+          >
+            <SelectTrigger id="call-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any status</SelectItem>
+              <SelectItem value="success">Completed</SelectItem>
+              <SelectItem value="error">Failed</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex flex-col space-y-2">
+          <Label>Duration (seconds)</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={0}
+              value={filters.minDurationSeconds ?? ""}
+              onChange={(event) => update({ minDurationSeconds: toSeconds(event.target.value) })}
+              placeholder="Min"
+              aria-label="Minimum duration in seconds"
+            />
+            <span className="text-muted-foreground">–</span>
+            <Input
+              type="number"
+              min={0}
+              value={filters.maxDurationSeconds ?? ""}
+              onChange={(event) => update({ maxDurationSeconds: toSeconds(event.target.value) })}
+              placeholder="Max"
+              aria-label="Maximum duration in seconds"
+            />
+          </div>
+        </div>
+      </div>
+
+      <Button variant="ghost" size="sm" onClick={() => onChange(EMPTY_CALL_FILTERS)} className="flex items-center gap-1">
+        <X className="w-3 h-3" />
+        Clear filters
+      </Button>
+    </div>
+  );
+};
+
+export default CallFiltersBar;
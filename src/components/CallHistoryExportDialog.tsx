@@ -0,0 +1,126 @@
+import { type ReactNode, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { downloadBlob } from "@/lib/download";
+import { type CallFilters, EMPTY_CALL_FILTERS, writeCallQuery } from "@/lib/recordings/calls";
+import {
+  DEFAULT_HISTORY_COLUMNS,
+  HISTORY_COLUMNS,
+  type HistoryColumn,
+  type HistoryExportFormat,
+  buildHistoryExport,
+  fetchCallHistory
+} from "@/lib/recordings/history-export";
+
+interface CallHistoryExportDialogProps {
+  /** Exports every saved call matching these, across all pages. */
+  filters?: CallFilters;
+  /** The trigger button. */
+  children: ReactNode;
+}
+
+const ALL_COLUMNS = Object.keys(HISTORY_COLUMNS) as HistoryColumn[];
+
+const CallHistoryExportDialog = ({ filters = EMPTY_CALL_FILTERS, children }: CallHistoryExportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<HistoryExportFormat>("csv");
+  const [columns, setColumns] = useState<ReadonlySet<HistoryColumn>>(new Set(DEFAULT_HISTORY_COLUMNS));
+  const [loaded, setLoaded] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleColumn = (column: HistoryColumn, checked: boolean) =>
+    setColumns((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(column);
+      else next.delete(column);
+      return next;
+    });
+
+  const runExport = async () => {
+    setError(null);
+    setLoaded(0);
+    try {
+      const rows = await fetchCallHistory(filters, setLoaded);
+      const { blob, fileName } = buildHistoryExport(rows, format, ALL_COLUMNS.filter((column) => columns.has(column)));
+      downloadBlob(blob, fileName);
+      setOpen(false);
+    } catch (err) {
+      console.error("Error exporting call history:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoaded(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => loaded === null && setOpen(next)}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export call history</DialogTitle>
+          <DialogDescription>
+            Every saved call{writeCallQuery(filters, 1).size === 0 ? "" : " matching the current filters"}, newest first.
+            Calls still uploading aren't included.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <RadioGroup value={format} onValueChange={(value) => setFormat(value as HistoryExportFormat)} className="flex gap-6">
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="csv" id="history-format-csv" />
+                <Label htmlFor="history-format-csv" className="font-normal">CSV</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="json" id="history-format-json" />
+                <Label htmlFor="history-format-json" className="font-normal">JSON</Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Columns</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {ALL_COLUMNS.map((column) => (
+                <div key={column} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`history-column-${column}`}
+                    checked={columns.has(column)}
+                    onCheckedChange={(checked) => toggleColumn(column, checked === true)}
+                  />
+                  <Label htmlFor={`history-column-${column}`} className="font-normal">
+                    {HISTORY_COLUMNS[column].label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {error && <div className="text-sm text-red-500" role="alert">Export failed: {error}</div>}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={runExport} disabled={loaded !== null || columns.size === 0} className="flex items-center gap-2">
+            {loaded !== null && <Loader2 className="w-4 h-4 animate-spin" />}
+            {loaded !== null ? `Loaded ${loaded} calls...` : `Export ${format.toUpperCase()}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CallHistoryExportDialog;
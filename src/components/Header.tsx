@@ -1,20 +1,53 @@
 
+import { NavLink } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { type AppRole, ROLE_LABELS } from '@/lib/auth/roles';
+import { cn } from '@/lib/utils';
+
+interface NavLinkSpec {
+  to: string;
+  label: string;
+  end: boolean;
+  /** Hidden from users below this role. */
+  role?: AppRole;
+}
+
+const NAV_LINKS: NavLinkSpec[] = [
+  { to: '/', label: 'Live Call', end: true },
+  { to: '/calls', label: 'Call History', end: false },
+  { to: '/admin', label: 'Admin', end: false, role: 'admin' },
+];
 
 const Header = () => {
-  const { user, signOut } = useAuth();
+  const { user, signOut, role, hasRole } = useAuth();
 
   return (
     <header className="bg-white border-b border-gray-200 px-4 py-3">
       <div className="container mx-auto flex justify-between items-center">
-        <h1 className="text-xl font-semibold text-gray-900">
-          Cold Call Audio Streaming
-        </h1>
+        <div className="flex items-center space-x-6">
+          <h1 className="text-xl font-semibold text-gray-900">
+            Cold Call Audio Streaming
+          </h1>
+          <nav className="flex items-center space-x-4">
+            {NAV_LINKS.filter(link => !link.role || hasRole(link.role)).map(({ to, label, end }) => (
+              <NavLink
+                key={to}
+                to={to}
+                end={end}
+                className={({ isActive }) => cn('text-sm', isActive ? 'font-medium text-gray-900' : 'text-gray-600 hover:text-gray-900')}
+              >
+                {label}
+              </NavLink>
+            ))}
+          </nav>
+        </div>
         <div className="flex items-center space-x-4">
           <span className="text-sm text-gray-600">
             {user?.email}
           </span>
+          {role && <Badge variant="secondary">{ROLE_LABELS[role]}</Badge>}
           <Button 
             variant="outline" 
             size="sm"
@@ -0,0 +1,43 @@
+import { Captions, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { OfflineTranscriptionStatus as TranscriptionStatus } from "@/hooks/useOfflineTranscription";
+
+interface OfflineTranscriptionStatusProps {
+  status: TranscriptionStatus | undefined;
+  onTranscribe: () => void;
+}
+
+const PHASE_LABELS = {
+  loading: "Loading model",
+  transcribing: "Transcribing"
+};
+
+const OfflineTranscriptionStatus = ({ status, onTranscribe }: OfflineTranscriptionStatusProps) => {
+  if (status?.state === "running") {
+    return (
+      <Badge variant="outline" className="flex items-center gap-1">
+        <Loader2 className="w-3 h-3 animate-spin" />
+        {PHASE_LABELS[status.phase]} {Math.round(status.progress * 100)}%
+      </Badge>
+    );
+  }
+  if (status?.state === "done") {
+    return null;
+  }
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={onTranscribe}
+      className="flex items-center gap-1"
+      title={status?.state === "failed" ? status.error : "Transcribe in the browser"}
+      aria-label={status?.state === "failed" ? "Retry transcription" : "Transcribe recording"}
+    >
+      <Captions className={`w-3 h-3 ${status?.state === "failed" ? "text-red-500" : ""}`} />
+    </Button>
+  );
+};
+
+export default OfflineTranscriptionStatus;
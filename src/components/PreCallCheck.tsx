@@ -0,0 +1,127 @@
+import { AlertCircle, CheckCircle, Circle, HelpCircle, Mic, Play, Server, Volume2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import { PREFLIGHT_CHECKS, PreflightCheck, PreflightCheckId } from "@/lib/voice/preflight";
+
+interface PreCallCheckProps {
+  checks: Record<PreflightCheckId, PreflightCheck>;
+  hasMicSample: boolean;
+  onTestMicrophone: () => void;
+  onPlayMicSample: () => void;
+  onTestSpeaker: () => void;
+  onConfirmSpeaker: (heard: boolean) => void;
+  onTestServer: () => void;
+  disabled?: boolean;
+}
+
+const CHECK_LABELS: Record<PreflightCheckId, string> = {
+  microphone: "Microphone",
+  speaker: "Speaker",
+  server: "Voice server"
+};
+
+const CHECK_ICONS: Record<PreflightCheckId, typeof Mic> = {
+  microphone: Mic,
+  speaker: Volume2,
+  server: Server
+};
+
+const StatusIcon = ({ check }: { check: PreflightCheck }) => {
+  switch (check.status) {
+    case "passed":
+      return <CheckCircle className="w-4 h-4 text-green-500" aria-label="Passed" />;
+    case "failed":
+      return <AlertCircle className="w-4 h-4 text-red-500" aria-label="Failed" />;
+    case "running":
+      return <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" aria-label="Running" />;
+    case "confirming":
+      return <HelpCircle className="w-4 h-4 text-yellow-500" aria-label="Waiting for confirmation" />;
+    default:
+      return <Circle className="w-4 h-4 text-muted-foreground" aria-label="Not run" />;
+  }
+};
+
+const PreCallCheck = ({
+  checks,
+  hasMicSample,
+  onTestMicrophone,
+  onPlayMicSample,
+  onTestSpeaker,
+  onConfirmSpeaker,
+  onTestServer,
+  disabled = false
+}: PreCallCheckProps) => {
+  const runAction = (id: PreflightCheckId) => {
+    const busy = disabled || checks[id].status === "running";
+    switch (id) {
+      case "microphone":
+        return (
+          <>
+            <Button variant="outline" size="sm" onClick={onTestMicrophone} disabled={busy}>
+              Record sample
+            </Button>
+            {hasMicSample && (
+              <Button variant="outline" size="sm" onClick={onPlayMicSample} disabled={busy} aria-label="Play back sample">
+                <Play className="w-3 h-3" />
+              </Button>
+            )}
+          </>
+        );
+      case "speaker":
+        return checks.speaker.status === "confirming" ? (
+          <>
+            <Button variant="outline" size="sm" onClick={() => onConfirmSpeaker(true)}>
+              Heard it
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => onConfirmSpeaker(false)}>
+              Didn't hear it
+            </Button>
+          </>
+        ) : (
+          <Button variant="outline" size="sm" onClick={onTestSpeaker} disabled={busy}>
+            Play tone
+          </Button>
+        );
+      case "server":
+        return (
+          <Button variant="outline" size="sm" onClick={onTestServer} disabled={busy}>
+            Test connection
+          </Button>
+        );
+    }
+  };
+
+  return (
+    <div className="flex flex-col space-y-2">
+      <Label>Pre-call Check</Label>
+      <div className="space-y-2 rounded-lg border p-3">
+        {PREFLIGHT_CHECKS.map((id) => {
+          const Icon = CHECK_ICONS[id];
+          const check = checks[id];
+          return (
+            <div key={id} className="flex items-center justify-between gap-3" data-testid={`preflight-${id}`}>
+              <div className="flex items-start gap-2 min-w-0">
+                <StatusIcon check={check} />
+                <div className="min-w-0">
+                  <div className="flex items-center gap-1 text-sm font-medium">
+                    <Icon className="w-3 h-3" />
+                    {CHECK_LABELS[id]}
+                  </div>
+                  {check.detail && (
+                    <div className={cn("text-xs", check.status === "failed" ? "text-red-500" : "text-muted-foreground")}>
+                      {check.detail}
+                    </div>
+                  )}
+                </div>
+              </div>
+              <div className="flex shrink-0 gap-1">{runAction(id)}</div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PreCallCheck;
@@ -0,0 +1,52 @@
+import { CloudOff, CloudUpload, RotateCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { RecordingUploadStatus as UploadStatus } from "@/hooks/useRecordingUploads";
+
+interface RecordingUploadStatusProps {
+  status: UploadStatus | undefined;
+  onRetry: () => void;
+}
+
+const RecordingUploadStatus = ({ status, onRetry }: RecordingUploadStatusProps) => {
+  if (!status) {
+    return null;
+  }
+
+  switch (status.state) {
+    case "uploaded":
+      return <Badge variant="secondary">Saved</Badge>;
+    case "uploading":
+      return (
+        <Badge variant="outline" className="flex items-center gap-1">
+          <CloudUpload className="w-3 h-3" />
+          Uploading {Math.round(status.progress * 100)}%
+        </Badge>
+      );
+    case "queued":
+    case "failed":
+      return (
+        <div className="flex items-center gap-1">
+          <Badge
+            variant={status.state === "failed" ? "destructive" : "outline"}
+            className="flex items-center gap-1"
+            title={status.error ?? undefined}
+          >
+            <CloudOff className="w-3 h-3" />
+            {status.state === "failed"
+              ? "Upload failed"
+              : status.attempts > 0
+                ? `Upload retry at ${new Date(status.nextAttemptAt).toLocaleTimeString()}`
+                : "Waiting to upload"}
+          </Badge>
+          {status.attempts > 0 && (
+            <Button variant="ghost" size="sm" onClick={onRetry} aria-label="Retry upload">
+              <RotateCw className="w-3 h-3" />
+            </Button>
+          )}
+        </div>
+      );
+  }
+};
+
+export default RecordingUploadStatus;
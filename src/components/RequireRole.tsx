@@ -0,0 +1,40 @@
+import { ShieldAlert } from 'lucide-react';
+import Header from '@/components/Header';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useAuth } from '@/hooks/useAuth';
+import { type AppRole, ROLE_LABELS } from '@/lib/auth/roles';
+
+interface RequireRoleProps {
+  /** The lowest role allowed in; higher roles are too. */
+  role: AppRole;
+  children: React.ReactNode;
+}
+
+/**
+ * Route guard for pages beyond an agent's reach. Sits inside `AuthGuard`, so
+ * the user is signed in and their role loaded. This only hides the page;
+ * row-level security is what keeps the data out of reach.
+ */
+const RequireRole = ({ role, children }: RequireRoleProps) => {
+  const { hasRole } = useAuth();
+
+  if (!hasRole(role)) {
+    return (
+      <div className="min-h-screen bg-white">
+        <Header />
+        <div className="container mx-auto px-4 py-12">
+          <Alert variant="destructive">
+            <ShieldAlert className="h-4 w-4" />
+            <AlertDescription>
+              This page needs the {ROLE_LABELS[role]} role. Ask an admin if you should have access.
+            </AlertDescription>
+          </Alert>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireRole;
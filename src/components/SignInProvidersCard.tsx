@@ -0,0 +1,93 @@
+import { useEffect, useState } from "react";
+import type { Provider } from "@supabase/supabase-js";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useSaveAppSetting, useSsoSettings } from "@/hooks/useAppSettings";
+import { OAUTH_PROVIDER_LABELS, type SsoSettings } from "@/lib/auth/providers";
+
+const PROVIDERS = Object.keys(OAUTH_PROVIDER_LABELS) as Provider[];
+
+/** Admin form for the single sign-on buttons on the login page. */
+const SignInProvidersCard = () => {
+  const sso = useSsoSettings();
+  const saveSetting = useSaveAppSetting();
+  const [form, setForm] = useState<SsoSettings>({ oauthProviders: [], saml: false });
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    if (sso.data) setForm(sso.data);
+  }, [sso.data]);
+
+  const update = (changes: Partial<SsoSettings>) => {
+    setSaved(false);
+    setForm((current) => ({ ...current, ...changes }));
+  };
+
+  const toggleProvider = (provider: Provider, enabled: boolean) =>
+    update({
+      // Keep the login page's button order stable, whatever order they were switched on in.
+      oauthProviders: PROVIDERS.filter((p) => (p === provider ? enabled : form.oauthProviders.includes(p))),
+    });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sign-in providers</CardTitle>
+        <CardDescription>
+          Single sign-on buttons on the login page. Each provider must also be enabled in Supabase, and a user's first
+          SSO sign-in creates their account as an agent, so only enable providers your organisation controls.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="space-y-4 max-w-xl"
+          onSubmit={(event) => {
+            event.preventDefault();
+            saveSetting.mutate(
+              { key: "sign_in", value: { oauthProviders: form.oauthProviders, saml: form.saml } },
+              { onSuccess: () => setSaved(true) }
+            );
+          }}
+        >
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+            {PROVIDERS.map((provider) => (
+              <div key={provider} className="flex items-center gap-2">
+                <Switch
+                  id={`sso-${provider}`}
+                  checked={form.oauthProviders.includes(provider)}
+                  onCheckedChange={(checked) => toggleProvider(provider, checked)}
+                  disabled={sso.isLoading}
+                />
+                <Label htmlFor={`sso-${provider}`} className="text-sm font-normal">{OAUTH_PROVIDER_LABELS[provider]}</Label>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="sso-saml"
+              checked={form.saml}
+              onCheckedChange={(checked) => update({ saml: checked })}
+              disabled={sso.isLoading}
+            />
+            <Label htmlFor="sso-saml" className="text-sm font-normal">
+              Company SSO (SAML), found from the domain of the user's email
+            </Label>
+          </div>
+          {(sso.error || saveSetting.error) && (
+            <div className="text-sm text-red-600">{sso.error?.message ?? saveSetting.error?.message}</div>
+          )}
+          <div className="flex items-center gap-3">
+            <Button type="submit" disabled={sso.isLoading || saveSetting.isPending}>
+              {saveSetting.isPending ? "Saving..." : "Save"}
+            </Button>
+            {saved && <span className="text-sm text-muted-foreground" role="status">Saved.</span>}
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SignInProvidersCard;
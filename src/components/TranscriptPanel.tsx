@@ -0,0 +1,80 @@
+import { useEffect, useRef } from "react";
+import { SPEAKER_LABELS, formatTranscriptTime } from "@/lib/voice/transcript";
+import type { TranscriptSegment, TranscriptSpeaker } from "@/lib/voice/types";
+
+interface TranscriptPanelProps {
+  segments: TranscriptSegment[];
+  emptyMessage?: string;
+  className?: string;
+  /** Makes each line a button that jumps the recording to it. */
+  onSeek?: (positionMs: number) => void;
+}
+
+/** How close to the bottom still counts as "following along". */
+const STICKY_BOTTOM_PX = 24;
+
+const BUBBLE_STYLES: Record<TranscriptSpeaker, string> = {
+  prospect: "bg-emerald-50 text-emerald-900",
+  agent: "bg-sky-50 text-sky-900",
+  unknown: "bg-gray-50 text-gray-900"
+};
+
+const TranscriptPanel = ({ segments, emptyMessage = "No transcript yet.", className = "", onSeek }: TranscriptPanelProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const followingRef = useRef(true);
+
+  // Keep the newest words in view, unless the user has scrolled up to read back.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (container && followingRef.current) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [segments]);
+
+  const handleScroll = () => {
+    const container = containerRef.current;
+    if (!container) return;
+    followingRef.current = container.scrollHeight - container.scrollTop - container.clientHeight <= STICKY_BOTTOM_PX;
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={handleScroll}
+      className={`space-y-3 max-h-96 overflow-y-auto text-sm ${className}`}
+      aria-live="polite"
+      aria-label="Transcript"
+    >
+      {segments.length === 0 ? (
+        <div className="text-muted-foreground italic">{emptyMessage}</div>
+      ) : (
+        segments.map(segment => (
+          <div key={segment.id} className={`flex gap-3 ${segment.speaker === "agent" ? "flex-row-reverse text-right" : ""}`}>
+            <div className={`max-w-[85%] rounded-lg px-3 py-2 ${BUBBLE_STYLES[segment.speaker]}`}>
+              <div className="text-xs text-muted-foreground">
+                {SPEAKER_LABELS[segment.speaker]} ·{" "}
+                {onSeek ? (
+                  <button
+                    type="button"
+                    className="underline-offset-2 hover:underline"
+                    onClick={() => onSeek(segment.startMs)}
+                    aria-label={`Play from ${formatTranscriptTime(segment.startMs)}`}
+                  >
+                    {formatTranscriptTime(segment.startMs)}
+                  </button>
+                ) : (
+                  formatTranscriptTime(segment.startMs)
+                )}
+              </div>
+              <p className={segment.final ? "" : "italic text-muted-foreground"} data-final={segment.final}>
+                {segment.text}
+              </p>
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default TranscriptPanel;
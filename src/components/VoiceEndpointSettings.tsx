@@ -0,0 +1,54 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { VoiceEnvironment, VoiceEnvironmentId, EndpointSettings } from "@/lib/voice/endpoints";
+
+interface VoiceEndpointSettingsProps {
+  settings: EndpointSettings;
+  environments: VoiceEnvironment[];
+  onChange: (changes: Partial<EndpointSettings>) => void;
+  url: string;
+  error: string | null;
+  disabled?: boolean;
+}
+
+const VoiceEndpointSettings = ({ settings, environments, onChange, url, error, disabled }: VoiceEndpointSettingsProps) => {
+  return (
+    <div className="flex flex-col space-y-2">
+      <Label htmlFor="voice-environment">Server</Label>
+      <Select
+        value={settings.environment}
+        onValueChange={(value) => onChange({ environment: value as VoiceEnvironmentId })}
+        disabled={disabled}
+      >
+        <SelectTrigger id="voice-environment" className="w-full">
+          <SelectValue placeholder="Select server" />
+        </SelectTrigger>
+        <SelectContent>
+          {environments.map(env => (
+            <SelectItem key={env.id} value={env.id}>
+              {env.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {settings.environment === 'custom' && (
+        <Input
+          value={settings.customUrl}
+          onChange={(e) => onChange({ customUrl: e.target.value })}
+          placeholder="wss://voice.example.com/voice/ws/browser/stream"
+          disabled={disabled}
+        />
+      )}
+
+      {error ? (
+        <span className="text-xs text-red-600">{error}</span>
+      ) : (
+        <span className="text-xs text-muted-foreground font-mono break-all">{url}</span>
+      )}
+    </div>
+  );
+};
+
+export default VoiceEndpointSettings;
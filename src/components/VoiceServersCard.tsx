@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useSaveAppSetting, useVoiceServers } from "@/hooks/useAppSettings";
+import {
+  DEFAULT_VOICE_SERVERS,
+  SHARED_VOICE_ENVIRONMENTS,
+  type SharedVoiceEnvironmentId,
+  VOICE_ENVIRONMENT_LABELS,
+  type VoiceServerSettings,
+  validateWebSocketUrl,
+} from "@/lib/voice/endpoints";
+
+/** The first problem with `servers`, or null. Only the default server has to be set. */
+const validateServers = (servers: VoiceServerSettings) => {
+  for (const id of SHARED_VOICE_ENVIRONMENTS) {
+    const url = servers.urls[id];
+    if (url || id === servers.defaultEnvironment) {
+      const error = validateWebSocketUrl(url);
+      if (error) return `${VOICE_ENVIRONMENT_LABELS[id]}: ${error}`;
+    }
+  }
+  return null;
+};
+
+/** Admin form for the voice servers every operator chooses from. */
+const VoiceServersCard = () => {
+  const servers = useVoiceServers();
+  const saveSetting = useSaveAppSetting();
+  const [form, setForm] = useState<VoiceServerSettings>(DEFAULT_VOICE_SERVERS);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    if (servers.data) setForm(servers.data);
+  }, [servers.data]);
+
+  const validationError = validateServers(form);
+  const update = (changes: Partial<VoiceServerSettings>) => {
+    setSaved(false);
+    setForm((current) => ({ ...current, ...changes }));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Voice servers</CardTitle>
+        <CardDescription>
+          The servers operators pick from before a call, and where they connect until they pick one. Operators can
+          still enter a custom URL of their own.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="space-y-4 max-w-xl"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (validationError) return;
+            saveSetting.mutate(
+              { key: "voice_servers", value: { urls: form.urls, defaultEnvironment: form.defaultEnvironment } },
+              { onSuccess: () => setSaved(true) }
+            );
+          }}
+        >
+          {SHARED_VOICE_ENVIRONMENTS.map((id) => (
+            <div key={id} className="space-y-1">
+              <Label htmlFor={`voice-server-${id}`}>{VOICE_ENVIRONMENT_LABELS[id]}</Label>
+              <Input
+                id={`voice-server-${id}`}
+                value={form.urls[id]}
+                onChange={(event) => update({ urls: { ...form.urls, [id]: event.target.value } })}
+                placeholder="wss://voice.example.com/voice/ws/browser/stream"
+                disabled={servers.isLoading}
+              />
+            </div>
+          ))}
+          <div className="space-y-1">
+            <Label htmlFor="voice-server-default">Default server</Label>
+            <Select
+              value={form.defaultEnvironment}
+              onValueChange={(id) => update({ defaultEnvironment: id as SharedVoiceEnvironmentId })}
+              disabled={servers.isLoading}
+            >
+              <SelectTrigger id="voice-server-default" className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SHARED_VOICE_ENVIRONMENTS.map((id) => (
+                  <SelectItem key={id} value={id}>{VOICE_ENVIRONMENT_LABELS[id]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {(validationError || servers.error || saveSetting.error) && (
+            <div className="text-sm text-red-600">
+              {validationError ?? servers.error?.message ?? saveSetting.error?.message}
+            </div>
+          )}
+          <div className="flex items-center gap-3">
+            <Button type="submit" disabled={!!validationError || servers.isLoading || saveSetting.isPending}>
+              {saveSetting.isPending ? "Saving..." : "Save"}
+            </Button>
+            {saved && <span className="text-sm text-muted-foreground" role="status">Saved.</span>}
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default VoiceServersCard;
@@ -0,0 +1,287 @@
+import { type KeyboardEvent, type PointerEvent, forwardRef, useCallback, useEffect, useImperativeHandle, useRef, useState } from "react";
+import { Pause, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { CallMarker, CallMarkerEvent } from "@/lib/recordings/markers";
+import { PLAYBACK_RATES, WAVEFORM_BARS, loadWaveform, stepPlaybackRate } from "@/lib/recordings/waveform";
+import { formatTranscriptTime } from "@/lib/voice/transcript";
+import { cn } from "@/lib/utils";
+
+export interface WaveformPlayerHandle {
+  /** Jumps to `positionMs` and starts playing, e.g. from a transcript line. */
+  seek: (positionMs: number) => void;
+}
+
+interface WaveformPlayerProps {
+  /** The recording itself, or a URL to fetch it from. */
+  audio: Blob | string;
+  markers?: CallMarker[];
+  autoPlay?: boolean;
+  className?: string;
+}
+
+const SKIP_MS = 5000;
+const LONG_SKIP_MS = 15000;
+
+const MARKER_STYLES: Record<CallMarkerEvent, string> = {
+  barge_in: "bg-orange-500",
+  playback_stop: "bg-blue-500",
+  end_call: "bg-red-500"
+};
+
+const SHORTCUTS = "Space play/pause · ←/→ 5s · Shift+←/→ 15s · [ ] speed · Home/End";
+
+const WaveformPlayer = forwardRef<WaveformPlayerHandle, WaveformPlayerProps>(
+  ({ audio, markers = [], autoPlay = false, className }, ref) => {
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const waveformRef = useRef<HTMLDivElement>(null);
+    const draggingRef = useRef(false);
+    const probingDurationRef = useRef(false);
+    const [src, setSrc] = useState<string | null>(null);
+    const [peaks, setPeaks] = useState<Float32Array | null>(null);
+    const [decodedMs, setDecodedMs] = useState<number | null>(null);
+    const [mediaMs, setMediaMs] = useState<number | null>(null);
+    const [positionMs, setPositionMs] = useState(0);
+    const [playing, setPlaying] = useState(false);
+    const [rate, setRate] = useState(1);
+    const [waveformError, setWaveformError] = useState<string | null>(null);
+
+    const durationMs = mediaMs ?? decodedMs ?? 0;
+
+    useEffect(() => {
+      if (typeof audio === "string") {
+        setSrc(audio);
+        return;
+      }
+      const url = URL.createObjectURL(audio);
+      setSrc(url);
+      return () => URL.revokeObjectURL(url);
+    }, [audio]);
+
+    useEffect(() => {
+      let cancelled = false;
+      setPeaks(null);
+      setDecodedMs(null);
+      setMediaMs(null);
+      setPositionMs(0);
+      setWaveformError(null);
+
+      const load = async () => {
+        const blob = typeof audio === "string" ? await (await fetch(audio)).blob() : audio;
+        const waveform = await loadWaveform(blob);
+        if (cancelled) return;
+        setPeaks(waveform.peaks);
+        setDecodedMs(waveform.durationMs);
+      };
+      load().catch((error) => {
+        console.error("Error drawing waveform:", error);
+        if (!cancelled) setWaveformError("Waveform unavailable");
+      });
+
+      return () => {
+        cancelled = true;
+      };
+    }, [audio]);
+
+    // Follow the playhead smoothly while playing; `timeupdate` only fires a few times a second.
+    useEffect(() => {
+      if (!playing) return;
+      let frame = requestAnimationFrame(function tick() {
+        setPositionMs((audioRef.current?.currentTime ?? 0) * 1000);
+        frame = requestAnimationFrame(tick);
+      });
+      return () => cancelAnimationFrame(frame);
+    }, [playing]);
+
+    useEffect(() => {
+      if (audioRef.current) audioRef.current.playbackRate = rate;
+    }, [rate, src]);
+
+    const seekTo = useCallback((ms: number) => {
+      const element = audioRef.current;
+      if (!element) return;
+      const clamped = Math.min(Math.max(0, ms), durationMs || ms);
+      element.currentTime = clamped / 1000;
+      setPositionMs(clamped);
+    }, [durationMs]);
+
+    const togglePlay = useCallback(() => {
+      const element = audioRef.current;
+      if (!element) return;
+      if (element.paused) {
+        element.play().catch((error) => console.error("Error playing recording:", error));
+      } else {
+        element.pause();
+      }
+    }, []);
+
+    useImperativeHandle(ref, () => ({
+      seek: (ms) => {
+        seekTo(ms);
+        audioRef.current?.play().catch((error) => console.error("Error playing recording:", error));
+      }
+    }), [seekTo]);
+
+    // MediaRecorder WebM has no duration until the browser has seen the end of the
+    // file, which also leaves it unseekable; jumping far ahead makes it find out.
+    const handleLoadedMetadata = () => {
+      const element = audioRef.current;
+      if (!element) return;
+      if (element.duration === Infinity) {
+        probingDurationRef.current = true;
+        element.currentTime = Number.MAX_SAFE_INTEGER;
+      } else {
+        setMediaMs(element.duration * 1000);
+      }
+    };
+
+    const handleDurationChange = () => {
+      const element = audioRef.current;
+      if (!element || !Number.isFinite(element.duration)) return;
+      setMediaMs(element.duration * 1000);
+      if (probingDurationRef.current) {
+        probingDurationRef.current = false;
+        element.currentTime = 0;
+      }
+    };
+
+    const positionFromPointer = (event: PointerEvent<HTMLDivElement>) => {
+      const rect = waveformRef.current?.getBoundingClientRect();
+      if (!rect || rect.width === 0) return 0;
+      return (Math.min(Math.max(0, event.clientX - rect.left), rect.width) / rect.width) * durationMs;
+    };
+
+    const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+      draggingRef.current = true;
+      event.currentTarget.setPointerCapture?.(event.pointerId);
+      seekTo(positionFromPointer(event));
+    };
+
+    const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+      if (draggingRef.current) seekTo(positionFromPointer(event));
+    };
+
+    const handlePointerUp = () => {
+      draggingRef.current = false;
+    };
+
+    const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+      // Leave keys alone while the speed menu or a button has focus.
+      if (event.target !== event.currentTarget) return;
+      const skip = event.shiftKey ? LONG_SKIP_MS : SKIP_MS;
+      const current = (audioRef.current?.currentTime ?? 0) * 1000;
+      const actions: Record<string, () => void> = {
+        " ": togglePlay,
+        k: togglePlay,
+        ArrowLeft: () => seekTo(current - skip),
+        ArrowRight: () => seekTo(current + skip),
+        Home: () => seekTo(0),
+        End: () => seekTo(durationMs),
+        "[": () => setRate((prev) => stepPlaybackRate(prev, -1)),
+        "]": () => setRate((prev) => stepPlaybackRate(prev, 1))
+      };
+      const action = actions[event.key];
+      if (action) {
+        event.preventDefault();
+        action();
+      }
+    };
+
+    const progress = durationMs > 0 ? Math.min(1, positionMs / durationMs) : 0;
+    const bars = peaks ?? new Float32Array(WAVEFORM_BARS);
+
+    return (
+      <div
+        role="group"
+        aria-label="Recording player"
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        className={cn("space-y-2 rounded-lg border p-3 outline-none focus-visible:ring-2 focus-visible:ring-ring", className)}
+      >
+        {src && (
+          <audio
+            ref={audioRef}
+            src={src}
+            preload="metadata"
+            autoPlay={autoPlay}
+            onLoadedMetadata={handleLoadedMetadata}
+            onDurationChange={handleDurationChange}
+            onTimeUpdate={(event) => setPositionMs(event.currentTarget.currentTime * 1000)}
+            onPlay={() => setPlaying(true)}
+            onPause={() => setPlaying(false)}
+            onEnded={() => setPlaying(false)}
+          />
+        )}
+
+        <div
+          ref={waveformRef}
+          role="slider"
+          aria-label="Seek"
+          aria-valuemin={0}
+          aria-valuemax={Math.round(durationMs / 1000)}
+          aria-valuenow={Math.round(positionMs / 1000)}
+          aria-valuetext={formatTranscriptTime(positionMs)}
+          className="relative h-16 cursor-pointer touch-none select-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          <svg viewBox={`0 0 ${bars.length} 100`} preserveAspectRatio="none" className="h-full w-full" aria-hidden="true">
+            {Array.from(bars, (peak, bar) => {
+              const height = Math.max(2, peak * 100);
+              return (
+                <rect
+                  key={bar}
+                  x={bar + 0.15}
+                  y={(100 - height) / 2}
+                  width={0.7}
+                  height={height}
+                  className={bar / bars.length < progress ? "fill-primary" : "fill-muted-foreground/30"}
+                />
+              );
+            })}
+          </svg>
+          <div className="pointer-events-none absolute inset-y-0 w-px bg-primary" style={{ left: `${progress * 100}%` }} />
+          {durationMs > 0 && markers.map((marker) => (
+            <button
+              key={marker.id}
+              type="button"
+              title={`${marker.label} at ${formatTranscriptTime(marker.positionMs)}`}
+              aria-label={`${marker.label} at ${formatTranscriptTime(marker.positionMs)}`}
+              className={cn("absolute -top-1 h-[calc(100%+0.5rem)] w-1 -translate-x-1/2 rounded opacity-80 hover:opacity-100", MARKER_STYLES[marker.event])}
+              style={{ left: `${Math.min(100, (marker.positionMs / durationMs) * 100)}%` }}
+              onPointerDown={(event) => event.stopPropagation()}
+              onClick={() => seekTo(marker.positionMs)}
+            />
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <Button variant="outline" size="sm" onClick={togglePlay} aria-label={playing ? "Pause" : "Play"} disabled={!src}>
+            {playing ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+          </Button>
+          <span className="tabular-nums text-muted-foreground">
+            {formatTranscriptTime(positionMs)} / {formatTranscriptTime(durationMs)}
+          </span>
+          <Select value={String(rate)} onValueChange={(value) => setRate(Number(value))}>
+            <SelectTrigger className="h-8 w-20" aria-label="Playback speed">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PLAYBACK_RATES.map((option) => (
+                <SelectItem key={option} value={String(option)}>{option}×</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {waveformError && <span className="text-xs text-muted-foreground">{waveformError}</span>}
+          <span className="ml-auto hidden text-xs text-muted-foreground md:inline">{SHORTCUTS}</span>
+        </div>
+      </div>
+    );
+  }
+);
+
+WaveformPlayer.displayName = "WaveformPlayer";
+
+export default WaveformPlayer;
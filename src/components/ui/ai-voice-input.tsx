@@ -2,8 +2,29 @@
 "use client";
 
 import { Mic } from "lucide-react";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { cn } from "@/lib/utils";
+import { LevelMonitor, SILENCE, measureLevel, meterHeight, type LevelWarning } from "@/lib/voice/levels";
+
+type LevelSource = "mic" | "agent";
+
+interface LevelBar {
+  height: number;
+  source: LevelSource;
+}
+
+/** One bar per this many ms, so the meter scrolls at a readable speed. */
+const BAR_INTERVAL_MS = 50;
+
+const SOURCE_COLOURS: Record<LevelSource, string> = {
+  mic: "bg-emerald-500",
+  agent: "bg-sky-500",
+};
+
+const WARNING_MESSAGES: Record<LevelWarning, string> = {
+  clipping: "Mic is clipping - move it away or lower the input gain",
+  "too-quiet": "Mic level is very low - check it is unmuted and selected",
+};
 
 interface AIVoiceInputProps {
   onStart?: () => void;
@@ -14,6 +35,11 @@ interface AIVoiceInputProps {
   className?: string;
   actualDuration?: number; // Add this prop to display actual conversation duration
   isRecording?: boolean; // Add this prop to control the recording state
+  inputAnalyser?: AnalyserNode | null; // Microphone level source
+  outputAnalyser?: AnalyserNode | null; // Agent (TTS) level source
+  onLevelWarning?: (warning: LevelWarning | null) => void;
+  disabled?: boolean; // Blocks starting a call; stopping one is always allowed
+  disabledReason?: string;
 }
 
 export function AIVoiceInput({
@@ -24,16 +50,50 @@ export function AIVoiceInput({
   demoInterval = 3000,
   className,
   actualDuration = 0,
-  isRecording = false
+  isRecording = false,
+  inputAnalyser = null,
+  outputAnalyser = null,
+  onLevelWarning,
+  disabled = false,
+  disabledReason
 }: AIVoiceInputProps) {
   const [submitted, setSubmitted] = useState(false);
   const [time, setTime] = useState(0);
-  const [isClient, setIsClient] = useState(false);
   const [isDemo, setIsDemo] = useState(demoMode);
+  const [bars, setBars] = useState<LevelBar[]>([]);
+  const [levelWarning, setLevelWarning] = useState<LevelWarning | null>(null);
+  const onLevelWarningRef = useRef(onLevelWarning);
+  onLevelWarningRef.current = onLevelWarning;
 
+  // Sample both analysers every animation frame and scroll one bar per interval;
+  // each bar shows whichever side was louder, in that side's colour.
   useEffect(() => {
-    setIsClient(true);
-  }, []);
+    setBars([]);
+    setLevelWarning(null);
+    if (!submitted || (!inputAnalyser && !outputAnalyser)) return;
+
+    const monitor = new LevelMonitor();
+    let lastBarAt = -Infinity;
+    let frame = requestAnimationFrame(function tick(now) {
+      frame = requestAnimationFrame(tick);
+      if (now - lastBarAt < BAR_INTERVAL_MS) return;
+      lastBarAt = now;
+
+      const mic = inputAnalyser ? measureLevel(inputAnalyser) : SILENCE;
+      const agent = outputAnalyser ? measureLevel(outputAnalyser) : SILENCE;
+      const bar: LevelBar = agent.rmsDbfs > mic.rmsDbfs
+        ? { height: meterHeight(agent), source: "agent" }
+        : { height: meterHeight(mic), source: "mic" };
+      setBars(prev => [...prev, bar].slice(-visualizerBars));
+      setLevelWarning(inputAnalyser ? monitor.update(mic, now) : null);
+    });
+
+    return () => cancelAnimationFrame(frame);
+  }, [submitted, inputAnalyser, outputAnalyser, visualizerBars]);
+
+  useEffect(() => {
+    onLevelWarningRef.current?.(levelWarning);
+  }, [levelWarning]);
 
   // Update submitted state based on isRecording prop
   useEffect(() => {
@@ -96,10 +156,13 @@ export function AIVoiceInput({
             "group w-16 h-16 rounded-xl flex items-center justify-center transition-colors",
             submitted
               ? "bg-none"
-              : "bg-none hover:bg-black/10 dark:hover:bg-white/10"
+              : "bg-none hover:bg-black/10 dark:hover:bg-white/10",
+            disabled && !submitted && "opacity-50 cursor-not-allowed hover:bg-none"
           )}
           type="button"
+          aria-label={submitted ? "Stop call" : "Start call"}
           onClick={handleClick}
+          disabled={disabled && !submitted}
         >
           {submitted ? (
             <div
@@ -122,30 +185,43 @@ export function AIVoiceInput({
           {formatTime(displayTime)}
         </span>
 
-        <div className="h-4 w-64 flex items-center justify-center gap-0.5">
-          {[...Array(visualizerBars)].map((_, i) => (
-            <div
-              key={i}
-              className={cn(
-                "w-0.5 rounded-full transition-all duration-300",
-                submitted
-                  ? "bg-black/50 dark:bg-white/50 animate-pulse"
-                  : "bg-black/10 dark:bg-white/10 h-1"
-              )}
-              style={
-                submitted && isClient
-                  ? {
-                      height: `${20 + Math.random() * 80}%`,
-                      animationDelay: `${i * 0.05}s`,
-                    }
-                  : undefined
-              }
-            />
-          ))}
+        <div className="h-4 w-64 flex items-center justify-center gap-0.5" data-testid="level-meter">
+          {[...Array(visualizerBars)].map((_, i) => {
+            // Newest bar on the right; empty slots on the left until the meter fills up.
+            const bar = bars[i - (visualizerBars - bars.length)];
+            return (
+              <div
+                key={i}
+                data-source={bar?.source}
+                className={cn(
+                  "w-0.5 rounded-full",
+                  bar ? SOURCE_COLOURS[bar.source] : "bg-black/10 dark:bg-white/10 h-1",
+                  submitted && !bar && "animate-pulse"
+                )}
+                style={bar ? { height: `${Math.max(10, bar.height * 100)}%` } : undefined}
+              />
+            );
+          })}
         </div>
 
-        <p className="h-4 text-xs text-black/70 dark:text-white/70">
-          {submitted ? "Listening..." : "Click to speak"}
+        {submitted && (inputAnalyser || outputAnalyser) && (
+          <div className="flex items-center gap-3 text-xs text-black/50 dark:text-white/50">
+            <span className="flex items-center gap-1">
+              <span className={cn("w-2 h-2 rounded-full", SOURCE_COLOURS.mic)} /> You
+            </span>
+            <span className="flex items-center gap-1">
+              <span className={cn("w-2 h-2 rounded-full", SOURCE_COLOURS.agent)} /> Agent
+            </span>
+          </div>
+        )}
+
+        <p
+          className={cn("h-4 text-xs", levelWarning ? "text-amber-600" : "text-black/70 dark:text-white/70")}
+          role={levelWarning ? "alert" : undefined}
+        >
+          {submitted
+            ? (levelWarning ? WARNING_MESSAGES[levelWarning] : "Listening...")
+            : (disabled && disabledReason) || "Click to speak"}
         </p>
       </div>
     </div>
@@ -0,0 +1,36 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { Json } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { type AppSettingKey, fetchAppSetting, saveAppSetting } from '@/lib/settings/app-settings';
+import { parseSsoSettings } from '@/lib/auth/providers';
+import { parseVoiceServerSettings } from '@/lib/voice/endpoints';
+
+export const APP_SETTINGS_QUERY_KEY = ['app-settings'] as const;
+
+/** The shared voice servers; callers fall back to `DEFAULT_VOICE_SERVERS` while this loads or fails. */
+export const useVoiceServers = () => {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: [...APP_SETTINGS_QUERY_KEY, 'voice_servers'],
+    queryFn: async () => parseVoiceServerSettings(await fetchAppSetting('voice_servers')),
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+/** The login page's SSO buttons; readable before sign-in, unlike the other settings. */
+export const useSsoSettings = () =>
+  useQuery({
+    queryKey: [...APP_SETTINGS_QUERY_KEY, 'sign_in'],
+    queryFn: async () => parseSsoSettings(await fetchAppSetting('sign_in')),
+    staleTime: 5 * 60 * 1000,
+  });
+
+export const useSaveAppSetting = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ key, value }: { key: AppSettingKey; value: Json }) => saveAppSetting(key, value, user!.id),
+    onSuccess: (_data, { key }) => queryClient.invalidateQueries({ queryKey: [...APP_SETTINGS_QUERY_KEY, key] }),
+  });
+};
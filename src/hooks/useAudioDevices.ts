@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  AudioDeviceLists,
+  AudioDevicePreferences,
+  listAudioDevices,
+  loadDevicePreferences,
+  saveDevicePreferences,
+  supportsOutputSelection,
+} from '@/lib/voice/devices';
+
+/** Available microphones and speakers plus the operator's choice, persisted per signed-in user. */
+export const useAudioDevices = () => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [preferences, setPreferences] = useState<AudioDevicePreferences>(() => loadDevicePreferences(userId));
+  const [devices, setDevices] = useState<AudioDeviceLists>({ inputs: [], outputs: [] });
+
+  useEffect(() => {
+    setPreferences(loadDevicePreferences(userId));
+  }, [userId]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setDevices(await listAudioDevices());
+    } catch (error) {
+      console.error('Error listing audio devices:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const mediaDevices = navigator.mediaDevices;
+    mediaDevices?.addEventListener?.('devicechange', refresh);
+    return () => mediaDevices?.removeEventListener?.('devicechange', refresh);
+  }, [refresh]);
+
+  const updatePreferences = useCallback((changes: Partial<AudioDevicePreferences>) => {
+    setPreferences(prev => {
+      const next = { ...prev, ...changes };
+      saveDevicePreferences(userId, next);
+      return next;
+    });
+  }, [userId]);
+
+  return {
+    ...devices,
+    preferences,
+    updatePreferences,
+    refresh,
+    canSelectOutput: supportsOutputSelection(),
+  };
+};
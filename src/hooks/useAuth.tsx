@@ -1,14 +1,37 @@
 
 import { useState, useEffect, createContext, useContext } from 'react';
-import { User, Session } from '@supabase/supabase-js';
+import { AuthError, Provider, User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { AUTH_ROUTES, type AuthRedirect, authRedirectUrl, parseAuthRedirect } from '@/lib/auth/redirect';
+import { type AppRole, DEFAULT_USER_ACCESS, type UserAccess, fetchUserAccess, hasRole } from '@/lib/auth/roles';
+
+// Read at load: supabase-js strips the tokens and `type` from the URL once it has handled them.
+const initialRedirect = typeof window === 'undefined' ? null : parseAuthRedirect(window.location);
+
+type AuthResult = Promise<{ error: AuthError | null }>;
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
+  /** Emails a one-time sign-in link; only existing (invited) users get one. */
+  sendMagicLink: (email: string) => AuthResult;
+  sendPasswordReset: (email: string) => AuthResult;
+  /** Sets the password of the signed-in user, e.g. after a reset or invite link. */
+  updatePassword: (password: string) => AuthResult;
+  signInWithProvider: (provider: Provider) => AuthResult;
+  /** SAML single sign-on for the identity provider registered for `domain`. */
+  signInWithSso: (domain: string) => AuthResult;
+  /** The email link this page was opened from, until dismissed. */
+  authRedirect: AuthRedirect | null;
+  dismissAuthRedirect: () => void;
   loading: boolean;
+  /** The signed-in user's role; null while signed out. */
+  role: AppRole | null;
+  teamId: string | null;
+  /** Whether the user has `required` or a higher role. */
+  hasRole: (required: AppRole) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -17,11 +40,18 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const [access, setAccess] = useState<(UserAccess & { userId: string }) | null>(null);
+  const [authRedirect, setAuthRedirect] = useState<AuthRedirect | null>(initialRedirect);
+  const userId = user?.id;
 
   useEffect(() => {
     // Set up auth state listener
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
       (event, session) => {
+        // Also catches recovery links the URL check missed, e.g. with the PKCE flow.
+        if (event === 'PASSWORD_RECOVERY') {
+          setAuthRedirect(prev => ({ type: 'recovery', error: prev?.error ?? null }));
+        }
         setSession(session);
         setUser(session?.user ?? null);
         setLoading(false);
@@ -38,6 +68,30 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     return () => subscription.unsubscribe();
   }, []);
 
+  useEffect(() => {
+    if (!userId) {
+      setAccess(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetchUserAccess(userId)
+      .catch(error => {
+        console.error('Error loading user role:', error);
+        return DEFAULT_USER_ACCESS;
+      })
+      .then(loaded => {
+        if (!cancelled) setAccess({ ...loaded, userId });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Roles from a previous sign-in don't count; wait for this user's.
+  const currentAccess = access && access.userId === userId ? access : null;
+  const role = currentAccess?.role ?? null;
+
   const signIn = async (email: string, password: string) => {
     const { error } = await supabase.auth.signInWithPassword({
       email,
@@ -50,8 +104,66 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     await supabase.auth.signOut();
   };
 
+  const sendMagicLink = async (email: string) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { shouldCreateUser: false, emailRedirectTo: authRedirectUrl('/') },
+    });
+    return { error };
+  };
+
+  const sendPasswordReset = async (email: string) => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: authRedirectUrl(AUTH_ROUTES.resetPassword),
+    });
+    return { error };
+  };
+
+  const updatePassword = async (password: string) => {
+    const { error } = await supabase.auth.updateUser({ password });
+    return { error };
+  };
+
+  // Both leave the page for the identity provider; errors here are only about getting there.
+  const signInWithProvider = async (provider: Provider) => {
+    const { error } = await supabase.auth.signInWithOAuth({
+      provider,
+      options: { redirectTo: authRedirectUrl('/') },
+    });
+    return { error };
+  };
+
+  const signInWithSso = async (domain: string) => {
+    const { data, error } = await supabase.auth.signInWithSSO({
+      domain,
+      options: { redirectTo: authRedirectUrl('/') },
+    });
+    if (data?.url) {
+      window.location.assign(data.url);
+    }
+    return { error };
+  };
+
   return (
-    <AuthContext.Provider value={{ user, session, signIn, signOut, loading }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        session,
+        signIn,
+        signOut,
+        sendMagicLink,
+        sendPasswordReset,
+        updatePassword,
+        signInWithProvider,
+        signInWithSso,
+        authRedirect,
+        dismissAuthRedirect: () => setAuthRedirect(null),
+        loading: loading || (!!userId && !currentAccess),
+        role,
+        teamId: currentAccess?.teamId ?? null,
+        hasRole: (required) => hasRole(role, required),
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
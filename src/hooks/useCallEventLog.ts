@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { CallEventBatcher, toCallEventRow, writeCallEvents } from '@/lib/recordings/call-events';
+import type { LogEntry } from '@/lib/voice/types';
+
+/**
+ * Streams every log entry of a call to the `call_events` table in batches,
+ * so the full browser + server timeline of any past call can be inspected.
+ */
+export const useCallEventLog = () => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const batcherRef = useRef<CallEventBatcher | null>(null);
+  const seqs = useRef(new Map<string, number>());
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const batcher = new CallEventBatcher({}, {
+      write: writeCallEvents,
+      dropped: (count) => console.error(`Dropped ${count} call events while the database was unreachable`),
+    });
+    batcherRef.current = batcher;
+
+    // Best effort: the page may be gone before the request completes.
+    const flush = () => {
+      batcher.flush();
+    };
+    window.addEventListener('pagehide', flush);
+
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      batcher.flush().finally(() => batcher.dispose());
+      batcherRef.current = null;
+    };
+  }, [userId]);
+
+  const record = useCallback((callId: string, entry: LogEntry) => {
+    const batcher = batcherRef.current;
+    if (!batcher || !userId) return;
+    const seq = seqs.current.get(callId) ?? 0;
+    seqs.current.set(callId, seq + 1);
+    batcher.add(toCallEventRow(callId, userId, seq, entry));
+  }, [userId]);
+
+  /** Writes the rest of a finished call's events now rather than on the next tick. */
+  const endCall = useCallback((callId: string) => {
+    seqs.current.delete(callId);
+    batcherRef.current?.flush();
+  }, []);
+
+  return { record, endCall };
+};
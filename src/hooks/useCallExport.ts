@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { downloadBlob } from '@/lib/download';
+import { type ExportableCall, audioFileName, buildCallBundle } from '@/lib/recordings/export';
+import { type AudioExportFormat, AudioTranscoder } from '@/lib/recordings/transcode';
+
+type AudioSource = Pick<ExportableCall, 'id' | 'startedAt' | 'audio'>;
+
+/**
+ * Downloads calls as audio in a chosen format or as a ZIP bundle. The
+ * transcoder is only created (and ffmpeg only fetched) on first use.
+ */
+export const useCallExport = () => {
+  const transcoderRef = useRef<AudioTranscoder | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    return () => {
+      transcoderRef.current?.dispose();
+      transcoderRef.current = null;
+    };
+  }, []);
+
+  const transcode = useCallback((blob: Blob, format: AudioExportFormat, onProgress: (progress: number) => void) => {
+    transcoderRef.current ??= new AudioTranscoder();
+    return transcoderRef.current.transcode(blob, format, onProgress);
+  }, []);
+
+  const run = useCallback(async (task: () => Promise<void>) => {
+    setError(null);
+    setProgress(0);
+    try {
+      await task();
+    } catch (err) {
+      console.error('Error exporting calls:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setProgress(null);
+    }
+  }, []);
+
+  /** Like `exportBundle`, `call` may be a loader. */
+  const exportAudio = useCallback((
+    source: AudioSource | (() => Promise<AudioSource>),
+    format: AudioExportFormat
+  ) =>
+    run(async () => {
+      const call = typeof source === 'function' ? await source() : source;
+      if (!call.audio) {
+        throw new Error('This call has no recording');
+      }
+      downloadBlob(await transcode(call.audio, format, setProgress), audioFileName(call, format));
+    }), [run, transcode]);
+
+  /** `calls` may be a loader, so fetching saved calls counts as part of the export. */
+  const exportBundle = useCallback((calls: ExportableCall[] | (() => Promise<ExportableCall[]>), format: AudioExportFormat) =>
+    run(async () => {
+      const loaded = typeof calls === 'function' ? await calls() : calls;
+      const bundle = await buildCallBundle(loaded, format, transcode, setProgress);
+      const name = loaded.length === 1 ? `call_${loaded[0].id.slice(0, 8)}` : `calls_${loaded.length}`;
+      downloadBlob(bundle, `${name}.zip`);
+    }), [run, transcode]);
+
+  return { isExporting: progress !== null, progress, error, exportAudio, exportBundle };
+};
@@ -0,0 +1,36 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { fetchCallEvents } from '@/lib/recordings/call-events';
+import { CallFilters, CallRecord, fetchCall, fetchCalls, fetchRecordingAudioUrl } from '@/lib/recordings/calls';
+
+export const CALLS_QUERY_KEY = ['calls'] as const;
+
+/** Keeps the previous page on screen while the next one loads. */
+export const useCalls = (filters: CallFilters, page: number) =>
+  useQuery({
+    queryKey: [...CALLS_QUERY_KEY, 'list', filters, page],
+    queryFn: () => fetchCalls(filters, page),
+    placeholderData: keepPreviousData,
+  });
+
+export const useCall = (id: string | undefined) =>
+  useQuery({
+    queryKey: [...CALLS_QUERY_KEY, 'detail', id],
+    queryFn: () => fetchCall(id!),
+    enabled: !!id,
+  });
+
+export const useCallEvents = (call: Pick<CallRecord, 'id' | 'user_id'> | undefined | null) =>
+  useQuery({
+    queryKey: [...CALLS_QUERY_KEY, 'events', call?.id, call?.user_id],
+    queryFn: () => fetchCallEvents(call!.id, call!.user_id),
+    enabled: !!call,
+  });
+
+/** Signed URLs last an hour; refetch well before that. */
+export const useRecordingAudioUrl = (storagePath: string | null | undefined) =>
+  useQuery({
+    queryKey: ['recording-audio', storagePath],
+    queryFn: () => fetchRecordingAudioUrl(storagePath!),
+    enabled: !!storagePath,
+    staleTime: 45 * 60 * 1000,
+  });
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { OfflineTranscriptionPhase } from '@/lib/transcription/messages';
+import { OfflineTranscriber } from '@/lib/transcription/offline-transcriber';
+import type { RecordingChannels, TranscriptSegment } from '@/lib/voice/types';
+
+export type OfflineTranscriptionStatus =
+  | { state: 'running'; phase: OfflineTranscriptionPhase; progress: number }
+  | { state: 'done' }
+  | { state: 'failed'; error: string };
+
+/**
+ * Transcribes finished recordings in the browser. The transcriber (and the
+ * model it loads) is only created on first use.
+ */
+export const useOfflineTranscription = () => {
+  const transcriberRef = useRef<OfflineTranscriber | null>(null);
+  const [statuses, setStatuses] = useState<Record<string, OfflineTranscriptionStatus>>({});
+
+  useEffect(() => {
+    return () => {
+      transcriberRef.current?.dispose();
+      transcriberRef.current = null;
+    };
+  }, []);
+
+  /** Resolves with the transcript, or null if it failed; the failure is in `statuses`. */
+  const transcribe = useCallback(async (
+    id: string,
+    blob: Blob,
+    language: string,
+    channels: RecordingChannels
+  ): Promise<TranscriptSegment[] | null> => {
+    const setStatus = (status: OfflineTranscriptionStatus) => setStatuses(prev => ({ ...prev, [id]: status }));
+    transcriberRef.current ??= new OfflineTranscriber();
+
+    setStatus({ state: 'running', phase: 'loading', progress: 0 });
+    try {
+      const segments = await transcriberRef.current.transcribe(blob, language, channels, ({ phase, progress }) =>
+        setStatus({ state: 'running', phase, progress })
+      );
+      setStatus({ state: 'done' });
+      return segments;
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      console.error('Error transcribing recording:', err);
+      setStatus({ state: 'failed', error });
+      return null;
+    }
+  }, []);
+
+  return { statuses, transcribe };
+};
@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { buildAudioConstraints } from '@/lib/voice/mic';
+import {
+  MicSample,
+  PreflightCheck,
+  PreflightCheckId,
+  isAudible,
+  playTestTone,
+  recordMicSample,
+  testServerConnection,
+} from '@/lib/voice/preflight';
+import type { MicProcessingOptions } from '@/lib/voice/types';
+
+export interface UsePreflightChecksOptions {
+  url: string;
+  /** Problem with `url` from endpoint validation; fails the server check without dialling. */
+  urlError: string | null;
+  language: string;
+  inputDeviceId: string | null;
+  outputDeviceId: string | null;
+  mic: MicProcessingOptions;
+}
+
+type PreflightChecks = Record<PreflightCheckId, PreflightCheck>;
+
+/** Above this the agent's replies will noticeably lag behind the caller. */
+const HIGH_LATENCY_MS = 300;
+
+const IDLE: PreflightCheck = { status: 'idle' };
+
+const errorMessage = (err: unknown, fallback: string) => (err instanceof Error ? err.message : fallback);
+
+type SinkableAudio = HTMLAudioElement & { setSinkId?: (sinkId: string) => Promise<void> };
+
+/**
+ * Pre-call checks for the microphone, speaker and voice server. Each check is
+ * reset when the setting it tested changes, and results from a run that was
+ * overtaken by such a change are discarded.
+ */
+export const usePreflightChecks = ({ url, urlError, language, inputDeviceId, outputDeviceId, mic }: UsePreflightChecksOptions) => {
+  const [checks, setChecks] = useState<PreflightChecks>({ microphone: IDLE, speaker: IDLE, server: IDLE });
+  const [micSample, setMicSample] = useState<MicSample | null>(null);
+  const runs = useRef<Record<PreflightCheckId, number>>({ microphone: 0, speaker: 0, server: 0 });
+  const sampleAudioRef = useRef<HTMLAudioElement | null>(null);
+
+  // Compared by value: callers tend to pass a fresh options object each render.
+  const constraintsKey = JSON.stringify(buildAudioConstraints(mic));
+
+  const setCheck = useCallback((id: PreflightCheckId, check: PreflightCheck) => {
+    setChecks(prev => ({ ...prev, [id]: check }));
+  }, []);
+
+  /** Starts a new run of `id`; the returned function reports whether it is still the latest. */
+  const beginRun = useCallback((id: PreflightCheckId) => {
+    const run = ++runs.current[id];
+    return () => runs.current[id] === run;
+  }, []);
+
+  const reset = useCallback((id: PreflightCheckId) => {
+    runs.current[id]++;
+    setCheck(id, IDLE);
+  }, [setCheck]);
+
+  useEffect(() => {
+    reset('microphone');
+    setMicSample(null);
+  }, [inputDeviceId, constraintsKey, reset]);
+
+  useEffect(() => {
+    reset('speaker');
+  }, [outputDeviceId, reset]);
+
+  useEffect(() => {
+    reset('server');
+  }, [url, language, reset]);
+
+  useEffect(() => () => {
+    sampleAudioRef.current?.pause();
+  }, []);
+
+  const testMicrophone = useCallback(async () => {
+    const isCurrent = beginRun('microphone');
+    setCheck('microphone', { status: 'running', detail: 'Recording - say a few words...' });
+    setMicSample(null);
+    try {
+      const sample = await recordMicSample({ deviceId: inputDeviceId, constraints: JSON.parse(constraintsKey) });
+      if (!isCurrent()) return;
+      setMicSample(sample);
+      setCheck('microphone', isAudible(sample)
+        ? { status: 'passed', detail: `Peak level ${Math.round(sample.loudestDbfs)} dBFS - play it back to check it sounds right` }
+        : { status: 'failed', detail: 'No sound picked up - is the microphone muted or the wrong one selected?' });
+    } catch (err) {
+      if (!isCurrent()) return;
+      setCheck('microphone', { status: 'failed', detail: errorMessage(err, 'Could not open the microphone') });
+    }
+  }, [beginRun, setCheck, inputDeviceId, constraintsKey]);
+
+  const playMicSample = useCallback(() => {
+    if (!micSample) return;
+    sampleAudioRef.current?.pause();
+
+    const sampleUrl = URL.createObjectURL(micSample.blob);
+    const audio: SinkableAudio = new Audio(sampleUrl);
+    sampleAudioRef.current = audio;
+    audio.onended = () => URL.revokeObjectURL(sampleUrl);
+    (outputDeviceId && audio.setSinkId ? audio.setSinkId(outputDeviceId) : Promise.resolve())
+      .then(() => audio.play())
+      .catch(err => console.error('Error playing mic sample:', err));
+  }, [micSample, outputDeviceId]);
+
+  const testSpeaker = useCallback(async () => {
+    const isCurrent = beginRun('speaker');
+    setCheck('speaker', { status: 'running', detail: 'Playing test tone...' });
+    try {
+      await playTestTone({ outputDeviceId });
+      if (!isCurrent()) return;
+      setCheck('speaker', { status: 'confirming', detail: 'Did you hear the tone?' });
+    } catch (err) {
+      if (!isCurrent()) return;
+      setCheck('speaker', { status: 'failed', detail: errorMessage(err, 'Could not play the test tone') });
+    }
+  }, [beginRun, setCheck, outputDeviceId]);
+
+  const confirmSpeaker = useCallback((heard: boolean) => {
+    setCheck('speaker', heard
+      ? { status: 'passed', detail: 'Test tone heard' }
+      : { status: 'failed', detail: 'Tone not heard - check the speaker selection and volume' });
+  }, [setCheck]);
+
+  const testServer = useCallback(async () => {
+    const isCurrent = beginRun('server');
+    if (urlError) {
+      setCheck('server', { status: 'failed', detail: urlError });
+      return;
+    }
+
+    setCheck('server', { status: 'running', detail: 'Connecting...' });
+    try {
+      const { connectMs, roundTripMs, protocol } = await testServerConnection(url, { language });
+      if (!isCurrent()) return;
+      const latency = roundTripMs === null
+        ? 'server did not answer the handshake, round trip unknown'
+        : `round trip ${Math.round(roundTripMs)} ms${roundTripMs > HIGH_LATENCY_MS ? ' - high latency, expect delayed replies' : ''}`;
+      setCheck('server', {
+        status: 'passed',
+        detail: `Connected in ${Math.round(connectMs)} ms, ${latency}${protocol ? ` (protocol v${protocol})` : ''}`,
+      });
+    } catch (err) {
+      if (!isCurrent()) return;
+      setCheck('server', { status: 'failed', detail: errorMessage(err, 'Could not reach the voice server') });
+    }
+  }, [beginRun, setCheck, url, urlError, language]);
+
+  return {
+    checks,
+    hasMicSample: micSample !== null,
+    testMicrophone,
+    playMicSample,
+    testSpeaker,
+    confirmSpeaker,
+    testServer,
+    allPassed: Object.values(checks).every(check => check.status === 'passed'),
+  };
+};
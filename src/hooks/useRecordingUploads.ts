@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { CALLS_QUERY_KEY } from '@/hooks/useCalls';
+import { saveRecordingTranscript, uploadRecording } from '@/lib/recordings/recordings';
+import { PendingUpload, RecordingMetadata, UploadQueue } from '@/lib/recordings/upload-queue';
+import { createIndexedDbUploadStore } from '@/lib/recordings/upload-store';
+import type { TranscriptSegment } from '@/lib/voice/types';
+
+export type RecordingUploadStatus =
+  | { state: 'queued' | 'uploading' | 'failed'; progress: number; attempts: number; nextAttemptAt: number; error: string | null }
+  | { state: 'uploaded' };
+
+const toStatus = (upload: PendingUpload): RecordingUploadStatus => ({
+  state: upload.state,
+  progress: upload.progress,
+  attempts: upload.attempts,
+  nextAttemptAt: upload.nextAttemptAt,
+  error: upload.lastError,
+});
+
+/**
+ * Saves finished recordings to Supabase for the signed-in user, retrying in
+ * the background. Uploads still pending from an earlier visit resume on load.
+ */
+export const useRecordingUploads = () => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const queryClient = useQueryClient();
+  const queueRef = useRef<UploadQueue | null>(null);
+  const [statuses, setStatuses] = useState<Record<string, RecordingUploadStatus>>({});
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const uploaded = new Set<string>();
+    const queue = new UploadQueue(createIndexedDbUploadStore(`voice-uploads:${userId}`), {}, {
+      upload: uploadRecording,
+      change: (uploads) => {
+        const next: Record<string, RecordingUploadStatus> = {};
+        uploaded.forEach(id => {
+          next[id] = { state: 'uploaded' };
+        });
+        uploads.forEach(upload => {
+          next[upload.id] = toStatus(upload);
+        });
+        setStatuses(next);
+      },
+      uploaded: (id) => {
+        uploaded.add(id);
+        setStatuses(prev => ({ ...prev, [id]: { state: 'uploaded' } }));
+        queryClient.invalidateQueries({ queryKey: CALLS_QUERY_KEY });
+      },
+    });
+    queueRef.current = queue;
+    queue.restore().catch(error => console.error('Error restoring upload queue:', error));
+
+    const retryAll = () => queue.retryAll();
+    window.addEventListener('online', retryAll);
+
+    return () => {
+      window.removeEventListener('online', retryAll);
+      queue.dispose();
+      queueRef.current = null;
+      setStatuses({});
+    };
+  }, [userId, queryClient]);
+
+  /** `blob` is null for a call that failed before any audio was recorded. */
+  const saveRecording = useCallback((id: string, blob: Blob | null, metadata: RecordingMetadata) => {
+    const queue = queueRef.current;
+    if (!queue || !userId) return;
+    queue
+      .enqueue({ id, userId, blob, contentType: blob?.type || 'audio/webm', metadata })
+      .catch(error => console.error('Error queueing recording upload:', error));
+  }, [userId]);
+
+  const retryUpload = useCallback((id: string) => {
+    queueRef.current?.retry(id);
+  }, []);
+
+  /** Saves a transcript made after the call, whether or not the recording has been uploaded yet. */
+  const saveTranscript = useCallback(async (id: string, transcript: TranscriptSegment[], searchText: string) => {
+    const queued = await queueRef.current?.updateMetadata(id, { transcript, searchText });
+    if (queued) return;
+    await saveRecordingTranscript(id, transcript, searchText);
+    queryClient.invalidateQueries({ queryKey: CALLS_QUERY_KEY });
+  }, [queryClient]);
+
+  return { statuses, saveRecording, retryUpload, saveTranscript };
+};
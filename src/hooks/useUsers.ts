@@ -0,0 +1,55 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { AppRole } from '@/lib/auth/roles';
+import { createTeam, deleteTeam, fetchTeams, fetchUsers, inviteUser, updateUserAccess } from '@/lib/auth/users';
+
+export const USERS_QUERY_KEY = ['users'] as const;
+export const TEAMS_QUERY_KEY = ['teams'] as const;
+
+export const useUsers = () =>
+  useQuery({
+    queryKey: USERS_QUERY_KEY,
+    queryFn: fetchUsers,
+  });
+
+export const useTeams = () =>
+  useQuery({
+    queryKey: TEAMS_QUERY_KEY,
+    queryFn: fetchTeams,
+  });
+
+export const useUpdateUserAccess = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ userId, ...changes }: { userId: string; role?: AppRole; teamId?: string | null }) =>
+      updateUserAccess(userId, changes),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: USERS_QUERY_KEY }),
+  });
+};
+
+export const useInviteUser = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: inviteUser,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: USERS_QUERY_KEY }),
+  });
+};
+
+export const useCreateTeam = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: createTeam,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: TEAMS_QUERY_KEY }),
+  });
+};
+
+/** Members lose their team, so the user list is refreshed too. */
+export const useDeleteTeam = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deleteTeam,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TEAMS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: USERS_QUERY_KEY });
+    },
+  });
+};
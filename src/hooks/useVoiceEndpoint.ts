@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useVoiceServers } from '@/hooks/useAppSettings';
+import {
+  DEFAULT_VOICE_SERVERS,
+  EndpointSettings,
+  loadEndpointSettings,
+  resolveEndpointUrl,
+  saveEndpointSettings,
+  validateWebSocketUrl,
+  voiceEnvironments,
+} from '@/lib/voice/endpoints';
+
+/**
+ * The operator's chosen voice backend, persisted per signed-in user. The
+ * servers to choose from, and the default, are shared settings admins manage.
+ */
+export const useVoiceEndpoint = () => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const servers = useVoiceServers().data ?? DEFAULT_VOICE_SERVERS;
+  const [chosen, setChosen] = useState<EndpointSettings | null>(() => loadEndpointSettings(userId));
+
+  useEffect(() => {
+    setChosen(loadEndpointSettings(userId));
+  }, [userId]);
+
+  const settings = useMemo(
+    () => chosen ?? { environment: servers.defaultEnvironment, customUrl: '' },
+    [chosen, servers.defaultEnvironment]
+  );
+
+  const updateSettings = useCallback((changes: Partial<EndpointSettings>) => {
+    const next = { ...settings, ...changes };
+    saveEndpointSettings(userId, next);
+    setChosen(next);
+  }, [settings, userId]);
+
+  const environments = useMemo(() => voiceEnvironments(servers), [servers]);
+  const url = resolveEndpointUrl(settings, servers);
+
+  return {
+    settings,
+    environments,
+    updateSettings,
+    url,
+    error: validateWebSocketUrl(url),
+  };
+};
@@ -0,0 +1,174 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { VoiceStreamSession, isActiveState } from '@/lib/voice/session';
+import type {
+  AudioFormat,
+  BargeInOptions,
+  LogEntry,
+  MicProcessingOptions,
+  MicProcessingReport,
+  RecordingChannels,
+  TranscriptSegment,
+  VoiceStreamResult,
+  VoiceStreamState,
+} from '@/lib/voice/types';
+
+interface LevelAnalysers {
+  input: AnalyserNode | null;
+  output: AnalyserNode | null;
+}
+
+const NO_ANALYSERS: LevelAnalysers = { input: null, output: null };
+
+interface UseVoiceStreamOptions {
+  url: string;
+  language: string;
+  audioFormat?: AudioFormat;
+  bargeIn?: Partial<BargeInOptions>;
+  mic?: Partial<MicProcessingOptions>;
+  /** Changing these during a call hot-swaps the device without reconnecting. */
+  inputDeviceId?: string | null;
+  outputDeviceId?: string | null;
+  recordingChannels?: RecordingChannels;
+  /** Every log entry of every call, tagged with the call (session) id. */
+  onLog?: (callId: string, entry: LogEntry) => void;
+  onEnded?: (result: VoiceStreamResult) => void;
+}
+
+export const useVoiceStream = ({
+  url,
+  language,
+  audioFormat = 'webm',
+  bargeIn,
+  mic,
+  inputDeviceId = null,
+  outputDeviceId = null,
+  recordingChannels = 'mono',
+  onLog,
+  onEnded,
+}: UseVoiceStreamOptions) => {
+  const sessionRef = useRef<VoiceStreamSession | null>(null);
+  const onLogRef = useRef(onLog);
+  const onEndedRef = useRef(onEnded);
+  const [state, setState] = useState<VoiceStreamState>('idle');
+  const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [transcript, setTranscript] = useState<TranscriptSegment[]>([]);
+  const [duration, setDuration] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [micReport, setMicReport] = useState<MicProcessingReport | null>(null);
+  const [analysers, setAnalysers] = useState<LevelAnalysers>(NO_ANALYSERS);
+
+  onLogRef.current = onLog;
+  onEndedRef.current = onEnded;
+
+  /**
+   * Starts a new call and returns its session synchronously so callers can
+   * key UI state by `session.id`. Returns null while a call is still active.
+   */
+  const start = useCallback(() => {
+    const current = sessionRef.current;
+    if (current && isActiveState(current.state)) {
+      console.log('[INFO] Connection attempt blocked - already connecting or listening');
+      return null;
+    }
+
+    current?.removeAllListeners();
+    const session = new VoiceStreamSession({
+      url,
+      language,
+      audioFormat,
+      bargeIn,
+      mic,
+      inputDeviceId,
+      outputDeviceId,
+      recordingChannels,
+    });
+    sessionRef.current = session;
+
+    setLogs([]);
+    setTranscript([]);
+    setError(null);
+    setDuration(0);
+    setReconnectAttempt(0);
+    setIsSpeaking(false);
+    setMicReport(null);
+
+    session.on('state', ({ state }) => {
+      setState(state);
+      if (state !== 'reconnecting') {
+        setReconnectAttempt(0);
+      }
+      if (state === 'streaming') {
+        setAnalysers({ input: session.inputAnalyser, output: session.outputAnalyser });
+      } else if (!isActiveState(state)) {
+        setAnalysers(NO_ANALYSERS);
+      }
+    });
+    session.on('reconnecting', ({ attempt }) => setReconnectAttempt(attempt));
+    session.on('log', entry => {
+      setLogs(prev => [...prev, entry]);
+      onLogRef.current?.(session.id, entry);
+    });
+    session.on('transcript', setTranscript);
+    session.on('duration', setDuration);
+    session.on('speaking', setIsSpeaking);
+    session.on('mic', setMicReport);
+    session.on('ended', result => {
+      setIsSpeaking(false);
+      if (result.error) {
+        setError(result.error);
+      }
+      onEndedRef.current?.(result);
+    });
+
+    session.start();
+    return session;
+  }, [url, language, audioFormat, bargeIn, mic, inputDeviceId, outputDeviceId, recordingChannels]);
+
+  const stop = useCallback(() => sessionRef.current?.stop() ?? Promise.resolve(), []);
+
+  const clearLogs = useCallback(() => setLogs([]), []);
+
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (session && isActiveState(session.state)) {
+      session.setInputDevice(inputDeviceId);
+    }
+  }, [inputDeviceId]);
+
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (session && isActiveState(session.state)) {
+      session.setOutputDevice(outputDeviceId);
+    }
+  }, [outputDeviceId]);
+
+  useEffect(() => {
+    return () => {
+      sessionRef.current?.stop();
+    };
+  }, []);
+
+  return {
+    state,
+    logs,
+    transcript,
+    duration,
+    error,
+    setError,
+    isConnecting: state === 'connecting',
+    isConnected: state === 'connected' || state === 'streaming',
+    isReconnecting: state === 'reconnecting',
+    reconnectAttempt,
+    isSpeaking,
+    micReport,
+    inputAnalyser: analysers.input,
+    outputAnalyser: analysers.output,
+    isActive: isActiveState(state),
+    session: sessionRef.current,
+    start,
+    stop,
+    clearLogs,
+  };
+};
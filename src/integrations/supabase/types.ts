@@ -9,6 +9,82 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          key: string
+          updated_at: string
+          updated_by: string | null
+          value: Json
+        }
+        Insert: {
+          key: string
+          updated_at?: string
+          updated_by?: string | null
+          value: Json
+        }
+        Update: {
+          key?: string
+          updated_at?: string
+          updated_by?: string | null
+          value?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "app_settings_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      call_events: {
+        Row: {
+          call_id: string
+          created_at: string
+          id: number
+          level: string
+          message: string
+          occurred_at: string
+          payload: Json | null
+          seq: number
+          source: string
+          user_id: string
+        }
+        Insert: {
+          call_id: string
+          created_at?: string
+          id?: never
+          level: string
+          message: string
+          occurred_at: string
+          payload?: Json | null
+          seq: number
+          source: string
+          user_id: string
+        }
+        Update: {
+          call_id?: string
+          created_at?: string
+          id?: never
+          level?: string
+          message?: string
+          occurred_at?: string
+          payload?: Json | null
+          seq?: number
+          source?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "call_events_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
@@ -30,15 +106,161 @@ export type Database = {
         }
         Relationships: []
       }
+      recordings: {
+        Row: {
+          channels: number
+          created_at: string
+          duration_seconds: number
+          error: string | null
+          id: string
+          language: string | null
+          mime_type: string | null
+          search: unknown | null
+          search_text: string
+          size_bytes: number | null
+          started_at: string
+          status: string
+          storage_path: string | null
+          stream_sid: string
+          transcript: Json
+          user_id: string
+        }
+        Insert: {
+          channels?: number
+          created_at?: string
+          duration_seconds: number
+          error?: string | null
+          id: string
+          language?: string | null
+          mime_type?: string | null
+          search?: unknown | null
+          search_text?: string
+          size_bytes?: number | null
+          started_at: string
+          status: string
+          storage_path?: string | null
+          stream_sid: string
+          transcript?: Json
+          user_id: string
+        }
+        Update: {
+          channels?: number
+          created_at?: string
+          duration_seconds?: number
+          error?: string | null
+          id?: string
+          language?: string | null
+          mime_type?: string | null
+          search?: unknown | null
+          search_text?: string
+          size_bytes?: number | null
+          started_at?: string
+          status?: string
+          storage_path?: string | null
+          stream_sid?: string
+          transcript?: Json
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recordings_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          role: Database["public"]["Enums"]["app_role"]
+          team_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          role?: Database["public"]["Enums"]["app_role"]
+          team_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          role?: Database["public"]["Enums"]["app_role"]
+          team_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_roles_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_roles_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      call_event_counts: {
+        Row: {
+          call_id: string | null
+          errors: number | null
+          total: number | null
+          user_id: string | null
+          warnings: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "call_events_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
-      [_ in never]: never
+      can_view_calls_of: {
+        Args: { _owner: string }
+        Returns: boolean
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "agent" | "supervisor" | "admin"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -153,6 +375,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["agent", "supervisor", "admin"],
+    },
   },
 } as const
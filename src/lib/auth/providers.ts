@@ -0,0 +1,33 @@
+import type { Provider } from '@supabase/supabase-js';
+
+/** OAuth providers the login page knows how to label; others in the setting are ignored. */
+export const OAUTH_PROVIDER_LABELS: Partial<Record<Provider, string>> = {
+  google: 'Google',
+  azure: 'Microsoft',
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  keycloak: 'Keycloak',
+  workos: 'WorkOS',
+};
+
+export interface SsoSettings {
+  oauthProviders: Provider[];
+  /** SAML single sign-on, found from the domain of the user's email. */
+  saml: boolean;
+}
+
+/** Reads the admin-managed `sign_in` setting; everything is off until an admin saves it. */
+export const parseSsoSettings = (value: unknown): SsoSettings => {
+  const stored = (value ?? {}) as { oauthProviders?: unknown; saml?: unknown };
+  const oauthProviders = (Array.isArray(stored.oauthProviders) ? stored.oauthProviders : [])
+    .filter((provider): provider is string => typeof provider === 'string')
+    .map(provider => provider.trim().toLowerCase())
+    .filter((provider, index, all): provider is Provider => provider in OAUTH_PROVIDER_LABELS && all.indexOf(provider) === index);
+  return { oauthProviders, saml: stored.saml === true };
+};
+
+/** `jane@acme.com` → `acme.com`; null until the email has a domain. */
+export const emailDomain = (email: string) => {
+  const domain = email.trim().split('@')[1]?.toLowerCase();
+  return domain && domain.includes('.') ? domain : null;
+};
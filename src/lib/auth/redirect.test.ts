@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { parseAuthRedirect } from './redirect';
+import { emailDomain, parseSsoSettings } from './providers';
+
+const at = (url: string) => {
+  const { hash, search } = new URL(url, 'https://app.test');
+  return { hash, search };
+};
+
+describe('parseAuthRedirect', () => {
+  it('ignores ordinary page loads', () => {
+    expect(parseAuthRedirect(at('/calls?page=2'))).toBeNull();
+    expect(parseAuthRedirect(at('/#section'))).toBeNull();
+  });
+
+  it('reads the link type from implicit-flow tokens', () => {
+    expect(parseAuthRedirect(at('/reset-password#access_token=abc&type=recovery'))).toEqual({
+      type: 'recovery',
+      error: null,
+    });
+    expect(parseAuthRedirect(at('/#access_token=abc&type=something-new'))).toEqual({ type: null, error: null });
+  });
+
+  it('surfaces errors from the hash or the query string', () => {
+    expect(
+      parseAuthRedirect(at('/#error=access_denied&error_code=otp_expired&error_description=Email+link+is+invalid+or+has+expired'))
+    ).toEqual({ type: null, error: 'Email link is invalid or has expired' });
+    expect(parseAuthRedirect(at('/?error=server_error'))).toEqual({ type: null, error: 'server_error' });
+  });
+
+  it('treats a PKCE code as a redirect', () => {
+    expect(parseAuthRedirect(at('/?code=xyz'))).toEqual({ type: null, error: null });
+  });
+});
+
+describe('parseSsoSettings', () => {
+  it('keeps known providers once, in order', () => {
+    expect(parseSsoSettings({ oauthProviders: [' Google', 'azure', 'myspace', 'google', 42], saml: true })).toEqual({
+      oauthProviders: ['google', 'azure'],
+      saml: true,
+    });
+  });
+
+  it('turns everything off until an admin saves the setting', () => {
+    expect(parseSsoSettings(null)).toEqual({ oauthProviders: [], saml: false });
+    expect(parseSsoSettings({ oauthProviders: 'google', saml: 'true' })).toEqual({ oauthProviders: [], saml: false });
+  });
+});
+
+describe('emailDomain', () => {
+  it('returns the lowercased domain once the email has one', () => {
+    expect(emailDomain(' Jane@Acme.com ')).toBe('acme.com');
+    expect(emailDomain('jane@acme')).toBeNull();
+    expect(emailDomain('jane')).toBeNull();
+  });
+});
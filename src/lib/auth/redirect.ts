@@ -0,0 +1,39 @@
+/** Where Supabase's email links land; each must be in the project's allowed redirect URLs. */
+export const AUTH_ROUTES = {
+  forgotPassword: '/forgot-password',
+  resetPassword: '/reset-password',
+  acceptInvite: '/accept-invite',
+} as const;
+
+/** The `type` Supabase puts on the URL it redirects to from an email link. */
+export type AuthRedirectType = 'invite' | 'recovery' | 'magiclink' | 'signup' | 'email_change';
+
+export interface AuthRedirect {
+  type: AuthRedirectType | null;
+  /** Why the link didn't sign the user in, e.g. it expired. */
+  error: string | null;
+}
+
+const REDIRECT_TYPES: AuthRedirectType[] = ['invite', 'recovery', 'magiclink', 'signup', 'email_change'];
+
+/**
+ * Reads an auth redirect from the URL: implicit-flow tokens and errors come
+ * in the hash, PKCE errors in the query string. Null for ordinary page loads.
+ */
+export const parseAuthRedirect = (location: Pick<Location, 'hash' | 'search'>): AuthRedirect | null => {
+  const hash = new URLSearchParams(location.hash.replace(/^#/, ''));
+  const query = new URLSearchParams(location.search);
+  const read = (key: string) => hash.get(key) ?? query.get(key);
+
+  const type = read('type');
+  const error = read('error_description') ?? read('error');
+  const isRedirect = hash.has('access_token') || query.has('code') || error !== null;
+  if (!isRedirect) return null;
+
+  return {
+    type: REDIRECT_TYPES.includes(type as AuthRedirectType) ? (type as AuthRedirectType) : null,
+    error,
+  };
+};
+
+export const authRedirectUrl = (path: string) => `${window.location.origin}${path}`;
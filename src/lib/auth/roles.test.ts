@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { fetchUserAccess, hasRole } from './roles';
+
+const query = vi.hoisted(() => {
+  const result = { data: null as unknown, error: null as { message: string } | null };
+  const builder: Record<string, unknown> = {};
+  for (const method of ['select', 'eq']) {
+    builder[method] = () => builder;
+  }
+  builder.maybeSingle = async () => result;
+  return { result, builder };
+});
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: () => query.builder },
+}));
+
+describe('hasRole', () => {
+  it('lets higher roles through and no role through nothing', () => {
+    expect(hasRole('admin', 'supervisor')).toBe(true);
+    expect(hasRole('supervisor', 'supervisor')).toBe(true);
+    expect(hasRole('agent', 'supervisor')).toBe(false);
+    expect(hasRole(null, 'agent')).toBe(false);
+  });
+});
+
+describe('fetchUserAccess', () => {
+  beforeEach(() => {
+    query.result.data = null;
+    query.result.error = null;
+  });
+
+  it('reads the role and team', async () => {
+    query.result.data = { role: 'supervisor', team_id: 'team-1' };
+
+    await expect(fetchUserAccess('user-1')).resolves.toEqual({ role: 'supervisor', teamId: 'team-1' });
+  });
+
+  it('falls back to an agent without a team when there is no row yet', async () => {
+    await expect(fetchUserAccess('user-1')).resolves.toEqual({ role: 'agent', teamId: null });
+  });
+
+  it('surfaces query errors', async () => {
+    query.result.error = { message: 'permission denied' };
+
+    await expect(fetchUserAccess('user-1')).rejects.toThrow('Loading your role failed: permission denied');
+  });
+});
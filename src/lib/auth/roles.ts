@@ -0,0 +1,40 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Constants, type Enums } from '@/integrations/supabase/types';
+
+export type AppRole = Enums<'app_role'>;
+
+/** Lowest to highest; each role can do everything the ones before it can. */
+export const APP_ROLES: readonly AppRole[] = Constants.public.Enums.app_role;
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  agent: 'Agent',
+  supervisor: 'Supervisor',
+  admin: 'Admin',
+};
+
+export interface UserAccess {
+  role: AppRole;
+  teamId: string | null;
+}
+
+/** What a user gets until told otherwise: the least access there is. */
+export const DEFAULT_USER_ACCESS: UserAccess = { role: 'agent', teamId: null };
+
+export const hasRole = (role: AppRole | null | undefined, required: AppRole) =>
+  !!role && APP_ROLES.indexOf(role) >= APP_ROLES.indexOf(required);
+
+/**
+ * The user's role and team. A missing row (the profile trigger hasn't run
+ * yet) means the default agent access; the database enforces the rest.
+ */
+export const fetchUserAccess = async (userId: string): Promise<UserAccess> => {
+  const { data, error } = await supabase
+    .from('user_roles')
+    .select('role, team_id')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Loading your role failed: ${error.message}`);
+  }
+  return data ? { role: data.role, teamId: data.team_id } : DEFAULT_USER_ACCESS;
+};
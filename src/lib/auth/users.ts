@@ -0,0 +1,88 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { AUTH_ROUTES, authRedirectUrl } from './redirect';
+import type { AppRole } from './roles';
+
+export type Team = Tables<'teams'>;
+
+export interface ManagedUser {
+  id: string;
+  email: string | null;
+  role: AppRole;
+  teamId: string | null;
+}
+
+/** Everyone the signed-in user may see (all users, for an admin), by email. */
+export const fetchUsers = async (): Promise<ManagedUser[]> => {
+  const { data, error } = await supabase.from('user_roles').select('user_id, role, team_id, profiles(email)');
+  if (error) {
+    throw new Error(`Loading users failed: ${error.message}`);
+  }
+  return (data ?? [])
+    .map(row => ({ id: row.user_id, email: row.profiles?.email ?? null, role: row.role, teamId: row.team_id }))
+    .sort((a, b) => (a.email ?? '').localeCompare(b.email ?? ''));
+};
+
+/** Row-level security only lets admins do this, and not to themselves. */
+export const updateUserAccess = async (userId: string, changes: { role?: AppRole; teamId?: string | null }) => {
+  const { data, error } = await supabase
+    .from('user_roles')
+    .update({
+      ...(changes.role !== undefined && { role: changes.role }),
+      ...(changes.teamId !== undefined && { team_id: changes.teamId }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('user_id', userId)
+    .select('user_id');
+  if (error) {
+    throw new Error(`Updating user failed: ${error.message}`);
+  }
+  // Row-level security filters the update rather than failing it.
+  if (!data?.length) {
+    throw new Error('Updating user failed: you are not allowed to change this user');
+  }
+};
+
+export const fetchTeams = async () => {
+  const { data, error } = await supabase.from('teams').select('*').order('name', { ascending: true });
+  if (error) {
+    throw new Error(`Loading teams failed: ${error.message}`);
+  }
+  return data ?? [];
+};
+
+export const createTeam = async (name: string) => {
+  const { error } = await supabase.from('teams').insert({ name: name.trim() });
+  if (error) {
+    throw new Error(`Creating team failed: ${error.message}`);
+  }
+};
+
+/** Members stay, without a team. */
+export const deleteTeam = async (id: string) => {
+  const { error } = await supabase.from('teams').delete().eq('id', id);
+  if (error) {
+    throw new Error(`Deleting team failed: ${error.message}`);
+  }
+};
+
+export interface UserInvite {
+  email: string;
+  role: AppRole;
+  teamId: string | null;
+}
+
+/**
+ * Emails an invite link that lands on the set-password page. Accounts are
+ * invite-only; the `invite-user` Edge Function checks the caller is an admin.
+ */
+export const inviteUser = async ({ email, role, teamId }: UserInvite) => {
+  const { error } = await supabase.functions.invoke('invite-user', {
+    body: { email: email.trim(), role, teamId, redirectTo: authRedirectUrl(AUTH_ROUTES.acceptInvite) },
+  });
+  if (error) {
+    // The function's own message is in the response body.
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(`Inviting user failed: ${body?.error ?? error.message}`);
+  }
+};
@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { type CallEventRow, CallEventBatcher, fetchCallEvents, logTimestampToIso, toCallEventRow, writeCallEvents } from './call-events';
+
+const query = vi.hoisted(() => {
+  const calls: [string, ...unknown[]][] = [];
+  const builder: Record<string, unknown> = {};
+  for (const method of ['select', 'upsert', 'eq', 'order']) {
+    builder[method] = (...args: unknown[]) => {
+      calls.push([method, ...args]);
+      return builder;
+    };
+  }
+  builder.then = (resolve: (value: unknown) => void) => resolve({ data: [], error: null });
+  return { calls, builder };
+});
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: () => query.builder },
+}));
+
+const row = (seq: number): CallEventRow => ({
+  call_id: 'call-1',
+  user_id: 'user-1',
+  seq,
+  occurred_at: '2026-10-19T10:00:00.000Z',
+  level: 'info',
+  source: 'browser',
+  message: `event ${seq}`,
+  payload: null,
+});
+
+const createBatcher = (write: (rows: CallEventRow[]) => Promise<void>) => {
+  const writes: number[][] = [];
+  const dropped = vi.fn();
+  const batcher = new CallEventBatcher({ maxBatchSize: 3, flushIntervalMs: 1000, maxBuffered: 5, maxRetryDelayMs: 4000 }, {
+    write: vi.fn(async (rows: CallEventRow[]) => {
+      writes.push(rows.map(r => r.seq));
+      await write(rows);
+    }),
+    dropped,
+  });
+  return { batcher, writes, dropped };
+};
+
+describe('toCallEventRow', () => {
+  it('maps a log entry to a row with a UTC timestamp', () => {
+    expect(logTimestampToIso('2026-10-19 14:05:17.123')).toBe('2026-10-19T14:05:17.123Z');
+    expect(
+      toCallEventRow('call-1', 'user-1', 4, {
+        timestamp: '2026-10-19 14:05:17.123',
+        message: 'Barge-in',
+        type: 'warning',
+        source: 'server',
+        payload: { mode: 'duck' },
+      })
+    ).toEqual({
+      call_id: 'call-1',
+      user_id: 'user-1',
+      seq: 4,
+      occurred_at: '2026-10-19T14:05:17.123Z',
+      level: 'warning',
+      source: 'server',
+      message: 'Barge-in',
+      payload: { mode: 'duck' },
+    });
+  });
+});
+
+describe('call event queries', () => {
+  beforeEach(() => {
+    query.calls.length = 0;
+  });
+
+  it('skips already written rows by owner, call and seq', async () => {
+    await writeCallEvents([row(0)]);
+
+    expect(query.calls).toContainEqual(['upsert', [row(0)], { onConflict: 'user_id,call_id,seq', ignoreDuplicates: true }]);
+  });
+
+  it('only loads the events the call\'s owner wrote', async () => {
+    await fetchCallEvents('call-1', 'user-1');
+
+    expect(query.calls.filter(([method]) => method === 'eq')).toEqual([
+      ['eq', 'call_id', 'call-1'],
+      ['eq', 'user_id', 'user-1'],
+    ]);
+  });
+});
+
+describe('CallEventBatcher', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  it('writes a full batch straight away', async () => {
+    const { batcher, writes } = createBatcher(async () => {});
+    [0, 1, 2].forEach(seq => batcher.add(row(seq)));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(writes).toEqual([[0, 1, 2]]);
+    expect(batcher.pendingCount).toBe(0);
+  });
+
+  it('writes a partial batch after the flush interval', async () => {
+    const { batcher, writes } = createBatcher(async () => {});
+    batcher.add(row(0));
+    await vi.advanceTimersByTimeAsync(999);
+    expect(writes).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(writes).toEqual([[0]]);
+  });
+
+  it('retries failed writes with backoff', async () => {
+    let failures = 2;
+    const { batcher, writes } = createBatcher(async () => {
+      if (failures-- > 0) throw new Error('offline');
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    batcher.add(row(0));
+    await batcher.flush();
+    expect(writes).toEqual([[0]]);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(writes).toEqual([[0], [0]]);
+
+    await vi.advanceTimersByTimeAsync(3999);
+    expect(writes).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(writes).toEqual([[0], [0], [0]]);
+    expect(batcher.pendingCount).toBe(0);
+  });
+
+  it('drops the oldest events when writes keep failing', async () => {
+    const { batcher, dropped } = createBatcher(async () => {
+      throw new Error('offline');
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    batcher.add(row(0));
+    await batcher.flush();
+    [1, 2, 3, 4, 5, 6].forEach(seq => batcher.add(row(seq)));
+
+    expect(batcher.pendingCount).toBe(5);
+    expect(dropped).toHaveBeenCalledTimes(2);
+    expect(dropped).toHaveBeenCalledWith(1);
+  });
+
+  it('stops writing once disposed', async () => {
+    const { batcher, writes } = createBatcher(async () => {});
+    batcher.add(row(0));
+    batcher.dispose();
+    batcher.add(row(1));
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(writes).toEqual([]);
+  });
+});
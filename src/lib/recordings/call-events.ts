@@ -0,0 +1,160 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables, TablesInsert } from '@/integrations/supabase/types';
+import type { LogEntry, LogSource, LogType } from '@/lib/voice/types';
+
+export type CallEventRow = TablesInsert<'call_events'>;
+
+export type CallEvent = Omit<Tables<'call_events'>, 'level' | 'source'> & { level: LogType; source: LogSource };
+
+export interface CallEventBatcherOptions {
+  /** Rows per insert; a full batch is written straight away. */
+  maxBatchSize: number;
+  /** How long a partial batch waits for company before it is written. */
+  flushIntervalMs: number;
+  /** Rows kept while writes are failing; the oldest are dropped beyond this. */
+  maxBuffered: number;
+  /** Cap on the backoff between failed writes. */
+  maxRetryDelayMs: number;
+}
+
+export interface CallEventBatcherCallbacks {
+  write: (rows: CallEventRow[]) => Promise<void>;
+  /** Rows discarded because the buffer overflowed while writes were failing. */
+  dropped?: (count: number) => void;
+}
+
+export const DEFAULT_CALL_EVENT_BATCHER_OPTIONS: CallEventBatcherOptions = {
+  maxBatchSize: 50,
+  flushIntervalMs: 2000,
+  maxBuffered: 2000,
+  maxRetryDelayMs: 30000,
+};
+
+/** `LogEntry.timestamp` is UTC without the zone, e.g. `2026-10-19 14:05:17.123`. */
+export const logTimestampToIso = (timestamp: string) => `${timestamp.replace(' ', 'T')}Z`;
+
+export const toCallEventRow = (callId: string, userId: string, seq: number, entry: LogEntry): CallEventRow => ({
+  call_id: callId,
+  user_id: userId,
+  seq,
+  occurred_at: logTimestampToIso(entry.timestamp),
+  level: entry.type,
+  source: entry.source,
+  message: entry.message,
+  payload: (entry.payload as Json | undefined) ?? null,
+});
+
+/** Inserts a batch; rows that already made it on an earlier attempt are skipped. */
+export const writeCallEvents = async (rows: CallEventRow[]) => {
+  const { error } = await supabase
+    .from('call_events')
+    .upsert(rows, { onConflict: 'user_id,call_id,seq', ignoreDuplicates: true });
+  if (error) {
+    throw new Error(`Saving call events failed: ${error.message}`);
+  }
+};
+
+/** Only the events the call's owner wrote; call ids alone aren't trusted. */
+export const fetchCallEvents = async (callId: string, ownerId: string) => {
+  const { data, error } = await supabase
+    .from('call_events')
+    .select('*')
+    .eq('call_id', callId)
+    .eq('user_id', ownerId)
+    .order('seq', { ascending: true });
+  if (error) {
+    throw new Error(`Loading call events failed: ${error.message}`);
+  }
+  return (data ?? []) as CallEvent[];
+};
+
+/**
+ * Collects call events and writes them in batches, so a chatty call costs a
+ * handful of inserts rather than one per log line. Failed writes are retried
+ * with backoff and never block the call itself.
+ */
+export class CallEventBatcher {
+  private readonly options: CallEventBatcherOptions;
+  private buffer: CallEventRow[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private writing: Promise<void> | null = null;
+  private failures = 0;
+  private disposed = false;
+
+  constructor(options: Partial<CallEventBatcherOptions>, private readonly callbacks: CallEventBatcherCallbacks) {
+    this.options = { ...DEFAULT_CALL_EVENT_BATCHER_OPTIONS, ...options };
+  }
+
+  get pendingCount() {
+    return this.buffer.length;
+  }
+
+  add(row: CallEventRow) {
+    if (this.disposed) return;
+    this.buffer.push(row);
+    this.trim();
+    if (this.buffer.length >= this.options.maxBatchSize && this.failures === 0) {
+      this.flush();
+    } else {
+      this.schedule(this.options.flushIntervalMs);
+    }
+  }
+
+  /** Writes everything buffered so far, e.g. when a call ends. */
+  flush(): Promise<void> {
+    this.clearTimer();
+    if (!this.writing) {
+      this.writing = this.drain().finally(() => {
+        this.writing = null;
+      });
+    }
+    return this.writing;
+  }
+
+  dispose() {
+    this.disposed = true;
+    this.clearTimer();
+  }
+
+  private async drain() {
+    while (this.buffer.length > 0) {
+      const batch = this.buffer.slice(0, this.options.maxBatchSize);
+      try {
+        await this.callbacks.write(batch);
+      } catch (err) {
+        this.failures++;
+        console.error('Error writing call events:', err);
+        const delay = Math.min(this.options.flushIntervalMs * 2 ** this.failures, this.options.maxRetryDelayMs);
+        this.schedule(delay);
+        return;
+      }
+      this.failures = 0;
+      // Not a plain slice: the buffer may have been trimmed while the batch was in flight.
+      const written = new Set(batch);
+      this.buffer = this.buffer.filter(row => !written.has(row));
+    }
+  }
+
+  private trim() {
+    const excess = this.buffer.length - this.options.maxBuffered;
+    if (excess > 0) {
+      this.buffer = this.buffer.slice(excess);
+      this.callbacks.dropped?.(excess);
+    }
+  }
+
+  private schedule(delayMs: number) {
+    if (this.timer || this.disposed) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, delayMs);
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CALLS_PAGE_SIZE, EMPTY_CALL_FILTERS, fetchCalls, readCallQuery, writeCallQuery } from './calls';
+
+const query = vi.hoisted(() => {
+  const calls: [string, ...unknown[]][] = [];
+  const result = { data: [] as unknown[], error: null as { message: string } | null, count: 0 };
+  const builder: Record<string, unknown> = {};
+  for (const method of ['select', 'gte', 'lt', 'lte', 'eq', 'textSearch', 'order', 'range']) {
+    builder[method] = (...args: unknown[]) => {
+      calls.push([method, ...args]);
+      return builder;
+    };
+  }
+  builder.then = (resolve: (value: typeof result) => void) => resolve(result);
+  return { calls, result, builder };
+});
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: () => query.builder },
+}));
+
+describe('fetchCalls', () => {
+  beforeEach(() => {
+    query.calls.length = 0;
+    query.result.error = null;
+  });
+
+  it('fetches the newest page with only the filters that are set', async () => {
+    query.result.count = 45;
+
+    const { pageCount, total } = await fetchCalls({ ...EMPTY_CALL_FILTERS, language: 'Hindi', minDurationSeconds: 0 }, 2);
+
+    expect(query.calls.filter(([method]) => method !== 'select')).toEqual([
+      ['eq', 'language', 'Hindi'],
+      ['gte', 'duration_seconds', 0],
+      ['order', 'started_at', { ascending: false }],
+      ['range', CALLS_PAGE_SIZE, 2 * CALLS_PAGE_SIZE - 1],
+    ]);
+    expect(total).toBe(45);
+    expect(pageCount).toBe(3);
+  });
+
+  it('makes the end date inclusive and searches with web-search syntax', async () => {
+    await fetchCalls({ ...EMPTY_CALL_FILTERS, from: '2026-10-01', to: '2026-10-01', search: ' timeout -reconnect ' }, 1);
+
+    const [, , from] = query.calls.find(([method]) => method === 'gte')!;
+    const [, , to] = query.calls.find(([method]) => method === 'lt')!;
+    expect(new Date(to as string).getTime() - new Date(from as string).getTime()).toBe(24 * 60 * 60 * 1000);
+    expect(query.calls).toContainEqual(['textSearch', 'search', 'timeout -reconnect', { type: 'websearch', config: 'simple' }]);
+  });
+
+  it('surfaces query errors', async () => {
+    query.result.error = { message: 'permission denied' };
+
+    await expect(fetchCalls(EMPTY_CALL_FILTERS, 1)).rejects.toThrow('Loading calls failed: permission denied');
+  });
+});
+
+describe('call history query string', () => {
+  it('round-trips filters and page', () => {
+    const filters = {
+      from: '2026-10-01',
+      to: '2026-10-19',
+      language: 'Spanish',
+      status: 'error' as const,
+      minDurationSeconds: 30,
+      maxDurationSeconds: 600,
+      search: 'barge-in',
+    };
+
+    expect(readCallQuery(writeCallQuery(filters, 3))).toEqual({ filters, page: 3 });
+    expect(writeCallQuery(EMPTY_CALL_FILTERS, 1).toString()).toBe('');
+  });
+
+  it('ignores malformed values', () => {
+    const { filters, page } = readCallQuery(new URLSearchParams('from=yesterday&status=lost&minDuration=-5&page=0'));
+
+    expect(filters).toEqual(EMPTY_CALL_FILTERS);
+    expect(page).toBe(1);
+  });
+});
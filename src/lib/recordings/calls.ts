@@ -0,0 +1,162 @@
+import { addDays, format, isValid, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { TranscriptSegment } from '@/lib/voice/types';
+import { RECORDINGS_BUCKET } from './recordings';
+
+export type CallStatus = 'success' | 'error';
+
+export interface CallFilters {
+  /** Inclusive local dates, `yyyy-MM-dd`. */
+  from: string | null;
+  to: string | null;
+  language: string | null;
+  status: CallStatus | null;
+  minDurationSeconds: number | null;
+  maxDurationSeconds: number | null;
+  /** Web-search syntax over the call's logs, e.g. `timeout -reconnect`. */
+  search: string;
+}
+
+export const EMPTY_CALL_FILTERS: CallFilters = {
+  from: null,
+  to: null,
+  language: null,
+  status: null,
+  minDurationSeconds: null,
+  maxDurationSeconds: null,
+  search: '',
+};
+
+export const CALLS_PAGE_SIZE = 20;
+
+/**
+ * Everything but the search columns, which are only useful to Postgres, plus
+ * the owner's email for supervisors and admins looking at other agents' calls.
+ */
+const CALL_COLUMNS =
+  'id, user_id, stream_sid, storage_path, mime_type, size_bytes, duration_seconds, language, status, error, started_at, created_at, channels, profiles(email)';
+
+export type CallRecord = Omit<Tables<'recordings'>, 'search' | 'search_text' | 'transcript'> & {
+  profiles: Pick<Tables<'profiles'>, 'email'> | null;
+};
+
+export type CallDetail = CallRecord & { transcript: TranscriptSegment[] };
+
+const AUDIO_URL_TTL_SECONDS = 60 * 60;
+
+const startOfDay = (date: string) => parseISO(`${date}T00:00:00`);
+
+/**
+ * Calls matching `filters`, newest first. Row-level security decides whose:
+ * an agent's own, a supervisor's team's, or everyone's for an admin.
+ */
+export const queryCalls = (filters: CallFilters, count?: 'exact') => {
+  let query = supabase.from('recordings').select(CALL_COLUMNS, { count });
+
+  if (filters.from) {
+    query = query.gte('started_at', startOfDay(filters.from).toISOString());
+  }
+  if (filters.to) {
+    query = query.lt('started_at', addDays(startOfDay(filters.to), 1).toISOString());
+  }
+  if (filters.language) {
+    query = query.eq('language', filters.language);
+  }
+  if (filters.status) {
+    query = query.eq('status', filters.status);
+  }
+  if (filters.minDurationSeconds !== null) {
+    query = query.gte('duration_seconds', filters.minDurationSeconds);
+  }
+  if (filters.maxDurationSeconds !== null) {
+    query = query.lte('duration_seconds', filters.maxDurationSeconds);
+  }
+  if (filters.search.trim()) {
+    query = query.textSearch('search', filters.search.trim(), { type: 'websearch', config: 'simple' });
+  }
+
+  return query.order('started_at', { ascending: false });
+};
+
+/** One page of the calls matching `filters`. */
+export const fetchCalls = async (filters: CallFilters, page: number) => {
+  const from = (page - 1) * CALLS_PAGE_SIZE;
+  const { data, error, count } = await queryCalls(filters, 'exact').range(from, from + CALLS_PAGE_SIZE - 1);
+  if (error) {
+    throw new Error(`Loading calls failed: ${error.message}`);
+  }
+
+  const total = count ?? 0;
+  return {
+    calls: (data ?? []) as CallRecord[],
+    total,
+    pageCount: Math.max(1, Math.ceil(total / CALLS_PAGE_SIZE)),
+  };
+};
+
+/** A single call, with its transcript; the list leaves transcripts out to stay light. */
+export const fetchCall = async (id: string) => {
+  const { data, error } = await supabase
+    .from('recordings')
+    .select(`${CALL_COLUMNS}, transcript`)
+    .eq('id', id)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Loading call failed: ${error.message}`);
+  }
+  return data as unknown as CallDetail | null;
+};
+
+/** A short-lived URL for the private recording file. */
+export const fetchRecordingAudioUrl = async (storagePath: string) => {
+  const { data, error } = await supabase.storage.from(RECORDINGS_BUCKET).createSignedUrl(storagePath, AUDIO_URL_TTL_SECONDS);
+  if (error) {
+    throw new Error(`Loading recording audio failed: ${error.message}`);
+  }
+  return data.signedUrl;
+};
+
+const readDate = (value: string | null) => (value && isValid(parseISO(value)) ? value : null);
+
+const readSeconds = (value: string | null) => {
+  if (value === null || value === '') return null;
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? Math.floor(seconds) : null;
+};
+
+/** Filters and page live in the URL so searches can be bookmarked and shared. */
+export const readCallQuery = (params: URLSearchParams) => {
+  const status = params.get('status');
+  const page = Number(params.get('page'));
+  return {
+    filters: {
+      from: readDate(params.get('from')),
+      to: readDate(params.get('to')),
+      language: params.get('language') || null,
+      status: status === 'success' || status === 'error' ? status : null,
+      minDurationSeconds: readSeconds(params.get('minDuration')),
+      maxDurationSeconds: readSeconds(params.get('maxDuration')),
+      search: params.get('q') ?? '',
+    } satisfies CallFilters,
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  };
+};
+
+export const writeCallQuery = (filters: CallFilters, page: number) => {
+  const params = new URLSearchParams();
+  const set = (key: string, value: string | number | null) => {
+    if (value !== null && value !== '') params.set(key, String(value));
+  };
+  set('q', filters.search.trim());
+  set('from', filters.from);
+  set('to', filters.to);
+  set('language', filters.language);
+  set('status', filters.status);
+  set('minDuration', filters.minDurationSeconds);
+  set('maxDuration', filters.maxDurationSeconds);
+  if (page > 1) set('page', page);
+  return params;
+};
+
+export const toDateParam = (date: Date) => format(date, 'yyyy-MM-dd');
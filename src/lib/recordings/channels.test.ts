@@ -0,0 +1,44 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from 'vitest';
+import { exportRecordingSide } from './channels';
+
+const stubDecodedRecording = (channels: number[][]) => {
+  class FakeOfflineAudioContext {
+    decodeAudioData = vi.fn(async () => ({
+      numberOfChannels: channels.length,
+      sampleRate: 48000,
+      length: channels[0].length,
+      getChannelData: (channel: number) => Float32Array.from(channels[channel]),
+    }));
+  }
+  vi.stubGlobal('OfflineAudioContext', FakeOfflineAudioContext);
+};
+
+const readSamples = async (blob: Blob) => {
+  const view = new DataView(await blob.arrayBuffer());
+  return {
+    channels: view.getUint16(22, true),
+    samples: Array.from({ length: (view.byteLength - 44) / 2 }, (_, i) => view.getInt16(44 + i * 2, true)),
+  };
+};
+
+describe('exportRecordingSide', () => {
+  it('exports the left channel as the caller and the right as the agent', async () => {
+    stubDecodedRecording([
+      [0.5, 0.5],
+      [-1, -1],
+    ]);
+
+    const caller = await readSamples(await exportRecordingSide(new Blob(['webm']), 'caller'));
+    const agent = await readSamples(await exportRecordingSide(new Blob(['webm']), 'agent'));
+
+    expect(caller).toEqual({ channels: 1, samples: [16384, 16384] });
+    expect(agent).toEqual({ channels: 1, samples: [-32768, -32768] });
+  });
+
+  it('refuses to split a mono recording', async () => {
+    stubDecodedRecording([[0.5]]);
+
+    await expect(exportRecordingSide(new Blob(['webm']), 'agent')).rejects.toThrow(/mono/);
+  });
+});
@@ -0,0 +1,46 @@
+import { floatToPcm16 } from '@/lib/voice/pcm';
+import type { RecordingChannels } from '@/lib/voice/types';
+import { encodeWav } from '@/lib/voice/wav';
+
+/** The two sides of a stereo recording. */
+export type RecordingSide = 'caller' | 'agent';
+
+export const RECORDING_SIDE_CHANNELS: Record<RecordingSide, number> = {
+  caller: 0,
+  agent: 1,
+};
+
+export const RECORDING_SIDE_LABELS: Record<RecordingSide, string> = {
+  caller: 'Caller (left)',
+  agent: 'Agent (right)',
+};
+
+/** Opus, which WebM recordings use, always decodes at 48 kHz. */
+const EXPORT_SAMPLE_RATE = 48000;
+
+export const channelCount = (channels: RecordingChannels) => (channels === 'stereo' ? 2 : 1);
+
+/**
+ * Decodes a recording at `sampleRate`, resampling if needed. The channel
+ * layout of the file is kept whatever the context's channel count.
+ */
+export const decodeRecording = async (blob: Blob, sampleRate = EXPORT_SAMPLE_RATE) => {
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  return context.decodeAudioData(await blob.arrayBuffer());
+};
+
+/** One channel of a decoded buffer; a mono file gives its only channel for either side. */
+export const extractChannel = (buffer: AudioBuffer, channel: number) =>
+  buffer.getChannelData(Math.min(channel, buffer.numberOfChannels - 1));
+
+export const toPcm16 = (samples: Float32Array) => Int16Array.from(samples, floatToPcm16);
+
+/** One side of a stereo recording as a mono WAV file. */
+export const exportRecordingSide = async (blob: Blob, side: RecordingSide) => {
+  const buffer = await decodeRecording(blob);
+  if (buffer.numberOfChannels < 2) {
+    throw new Error('This recording is mono; its sides cannot be separated');
+  }
+  const samples = toPcm16(extractChannel(buffer, RECORDING_SIDE_CHANNELS[side]));
+  return new Blob([encodeWav(samples, buffer.sampleRate)], { type: 'audio/wav' });
+};
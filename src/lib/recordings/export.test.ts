@@ -0,0 +1,68 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from 'vitest';
+import { strFromU8, unzipSync } from 'fflate';
+import { type ExportableCall, buildCallBundle, callFileStem } from './export';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {},
+}));
+
+const makeCall = (overrides: Partial<ExportableCall> = {}): ExportableCall => ({
+  id: '3f2a9c1d-0000-4000-8000-000000000000',
+  streamSid: 'stream-1',
+  startedAt: '2026-10-19T14:05:17.000Z',
+  durationSeconds: 42,
+  language: 'English',
+  status: 'success',
+  error: null,
+  channels: 'stereo',
+  audio: new Blob([new Uint8Array([1, 2, 3])], { type: 'audio/webm' }),
+  transcript: [{ id: 't1', speaker: 'prospect', text: 'Who is this?', final: true, startMs: 1000, endMs: 2000 }],
+  logs: [{ occurredAt: '2026-10-19T14:05:18.000Z', level: 'info', source: 'browser', message: 'Connected', payload: null }],
+  ...overrides,
+});
+
+const unzip = async (blob: Blob) => unzipSync(new Uint8Array(await blob.arrayBuffer()));
+
+describe('buildCallBundle', () => {
+  it('zips each call into its own folder and lists the files in the manifest', async () => {
+    const transcode = vi.fn(async () => new Blob([new Uint8Array([9, 9])], { type: 'audio/mpeg' }));
+    const call = makeCall();
+    const folder = callFileStem(call);
+
+    const files = await unzip(await buildCallBundle([call], 'mp3', transcode));
+
+    expect(transcode).toHaveBeenCalledWith(call.audio, 'mp3', expect.any(Function));
+    expect(Array.from(files[`${folder}/audio.mp3`])).toEqual([9, 9]);
+    expect(strFromU8(files[`${folder}/transcript.txt`])).toContain('Who is this?');
+    expect(JSON.parse(strFromU8(files[`${folder}/logs.json`]))).toEqual(call.logs);
+
+    const manifest = JSON.parse(strFromU8(files['manifest.json']));
+    expect(manifest).toMatchObject({ version: 1, audioFormat: 'mp3' });
+    expect(manifest.calls[0]).toMatchObject({
+      id: call.id,
+      channels: 'stereo',
+      transcriptSegments: 1,
+      logEntries: 1,
+      files: { audio: `${folder}/audio.mp3`, logs: `${folder}/logs.json` },
+    });
+  });
+
+  it('leaves out audio for calls without a recording and reports progress across calls', async () => {
+    const transcode = vi.fn(async (blob: Blob, _format: unknown, onProgress: (progress: number) => void) => {
+      onProgress(0.5);
+      return blob;
+    });
+    const progress: number[] = [];
+    const first = makeCall({ audio: null });
+    const second = makeCall({ id: 'a1b2c3d4-0000-4000-8000-000000000000' });
+
+    const files = await unzip(await buildCallBundle([first, second], 'webm', transcode, p => progress.push(p)));
+
+    expect(transcode).toHaveBeenCalledTimes(1);
+    expect(files[`${callFileStem(first)}/audio.webm`]).toBeUndefined();
+    expect(files[`${callFileStem(second)}/audio.webm`]).toBeDefined();
+    expect(JSON.parse(strFromU8(files['manifest.json'])).calls[0].files.audio).toBeUndefined();
+    expect(progress).toEqual([0.5, 0.75, 1]);
+  });
+});
@@ -0,0 +1,154 @@
+import { format as formatDate } from 'date-fns';
+import { strToU8, zipSync, type Zippable } from 'fflate';
+import { formatTranscript } from '@/lib/voice/transcript';
+import type { LogEntry, LogSource, LogType, RecordingChannels, TranscriptSegment } from '@/lib/voice/types';
+import { type CallEvent, fetchCallEvents, logTimestampToIso } from './call-events';
+import { fetchCall, fetchRecordingAudioUrl } from './calls';
+import { AUDIO_EXPORT_FORMATS, type AudioExportFormat } from './transcode';
+
+export interface ExportLogEntry {
+  /** ISO timestamp. */
+  occurredAt: string;
+  level: LogType;
+  source: LogSource;
+  message: string;
+  payload: unknown;
+}
+
+/** Everything that goes into an export, whether the call is still in memory or loaded from Supabase. */
+export interface ExportableCall {
+  id: string;
+  streamSid: string;
+  /** ISO timestamp. */
+  startedAt: string;
+  durationSeconds: number;
+  language: string | null;
+  status: 'success' | 'error';
+  error: string | null;
+  channels: RecordingChannels;
+  /** The recording as captured (WebM); null when there is none. */
+  audio: Blob | null;
+  transcript: TranscriptSegment[];
+  logs: ExportLogEntry[];
+}
+
+export type Transcode = (blob: Blob, format: AudioExportFormat, onProgress: (progress: number) => void) => Promise<Blob>;
+
+/** Bumped when the bundle layout changes, so QA tooling can tell versions apart. */
+export const BUNDLE_MANIFEST_VERSION = 1;
+
+export const fromLogEntries = (entries: LogEntry[]): ExportLogEntry[] =>
+  entries.map(entry => ({
+    occurredAt: logTimestampToIso(entry.timestamp),
+    level: entry.type,
+    source: entry.source,
+    message: entry.message,
+    payload: entry.payload ?? null,
+  }));
+
+export const fromCallEvents = (events: CallEvent[]): ExportLogEntry[] =>
+  events.map(event => ({
+    occurredAt: event.occurred_at,
+    level: event.level,
+    source: event.source,
+    message: event.message,
+    payload: event.payload,
+  }));
+
+/** e.g. `2026-10-19_140517_3f2a9c1d`, sortable and unique per call. */
+export const callFileStem = (call: Pick<ExportableCall, 'id' | 'startedAt'>) =>
+  `${formatDate(new Date(call.startedAt), 'yyyy-MM-dd_HHmmss')}_${call.id.slice(0, 8)}`;
+
+export const audioFileName = (call: Pick<ExportableCall, 'id' | 'startedAt'>, format: AudioExportFormat) =>
+  `${callFileStem(call)}.${AUDIO_EXPORT_FORMATS[format].extension}`;
+
+const json = (value: unknown) => strToU8(JSON.stringify(value, null, 2));
+
+/**
+ * Zips one folder per call (audio, transcript as text and JSON, structured
+ * logs) plus a `manifest.json` describing every call and its files.
+ * `onProgress` gets 0–1 across all calls.
+ */
+export const buildCallBundle = async (
+  calls: ExportableCall[],
+  format: AudioExportFormat,
+  transcode: Transcode,
+  onProgress: (progress: number) => void = () => {}
+) => {
+  const files: Zippable = {};
+  const manifest = [];
+
+  for (const [index, call] of calls.entries()) {
+    const folder = callFileStem(call);
+    const entry: Record<string, string> = {
+      transcript: `${folder}/transcript.txt`,
+      transcriptJson: `${folder}/transcript.json`,
+      logs: `${folder}/logs.json`,
+    };
+
+    if (call.audio) {
+      const audio = await transcode(call.audio, format, progress => onProgress((index + progress) / calls.length));
+      entry.audio = `${folder}/audio.${AUDIO_EXPORT_FORMATS[format].extension}`;
+      // Audio is already compressed (or, for WAV, barely compressible); don't spend time deflating it.
+      files[entry.audio] = [new Uint8Array(await audio.arrayBuffer()), { level: 0 }];
+    }
+    files[entry.transcript] = strToU8(formatTranscript(call.transcript));
+    files[entry.transcriptJson] = json(call.transcript);
+    files[entry.logs] = json(call.logs);
+
+    manifest.push({
+      id: call.id,
+      streamSid: call.streamSid,
+      startedAt: call.startedAt,
+      durationSeconds: call.durationSeconds,
+      language: call.language,
+      status: call.status,
+      error: call.error,
+      channels: call.channels,
+      transcriptSegments: call.transcript.length,
+      logEntries: call.logs.length,
+      files: entry,
+    });
+    onProgress((index + 1) / calls.length);
+  }
+
+  files['manifest.json'] = json({
+    version: BUNDLE_MANIFEST_VERSION,
+    exportedAt: new Date().toISOString(),
+    audioFormat: format,
+    calls: manifest,
+  });
+  return new Blob([zipSync(files, { level: 6 })], { type: 'application/zip' });
+};
+
+/** Loads a saved call with its recording, transcript and event timeline. */
+export const loadExportableCall = async (id: string): Promise<ExportableCall> => {
+  const call = await fetchCall(id);
+  if (!call) {
+    throw new Error(`Call ${id.slice(0, 8)} doesn't exist or isn't yours`);
+  }
+  const events = await fetchCallEvents(call.id, call.user_id);
+
+  const loadAudio = async (storagePath: string) => {
+    const response = await fetch(await fetchRecordingAudioUrl(storagePath));
+    if (!response.ok) {
+      throw new Error(`Downloading the recording of call ${id.slice(0, 8)} failed (${response.status})`);
+    }
+    return response.blob();
+  };
+
+  return {
+    id: call.id,
+    streamSid: call.stream_sid,
+    startedAt: call.started_at,
+    durationSeconds: call.duration_seconds,
+    language: call.language,
+    status: call.status === 'error' ? 'error' : 'success',
+    error: call.error,
+    channels: call.channels === 2 ? 'stereo' : 'mono',
+    // Calls that failed before any audio was recorded have no file.
+    audio: call.storage_path ? await loadAudio(call.storage_path) : null,
+    transcript: call.transcript,
+    logs: fromCallEvents(events),
+  };
+};
@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { EMPTY_CALL_FILTERS } from './calls';
+import { type CallHistoryRow, fetchCallHistory, toCsv, toCsvField, toHistoryJson } from './history-export';
+
+const db = vi.hoisted(() => {
+  const calls: [string, string, ...unknown[]][] = [];
+  const results: Record<string, { data: unknown[]; error: { message: string } | null }[]> = {};
+  const from = (table: string) => {
+    const builder: Record<string, unknown> = {};
+    for (const method of ['select', 'eq', 'in', 'order', 'range']) {
+      builder[method] = (...args: unknown[]) => {
+        calls.push([table, method, ...args]);
+        return builder;
+      };
+    }
+    builder.then = (resolve: (value: unknown) => void) => resolve(results[table].shift());
+    return builder;
+  };
+  return { calls, results, from };
+});
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: db.from },
+}));
+
+const makeRow = (overrides: Partial<CallHistoryRow> = {}): CallHistoryRow => ({
+  id: 'call-1',
+  user_id: 'user-1',
+  stream_sid: 'stream-1',
+  storage_path: 'user-1/call-1.webm',
+  mime_type: 'audio/webm',
+  size_bytes: 1024,
+  duration_seconds: 42,
+  language: 'English',
+  status: 'error',
+  error: null,
+  started_at: '2026-10-19T14:05:17.000Z',
+  created_at: '2026-10-19T14:06:00.000Z',
+  channels: 1,
+  profiles: { email: 'agent@example.com' },
+  logCounts: { total: 12, warnings: 2, errors: 1 },
+  ...overrides,
+});
+
+describe('toCsvField', () => {
+  it('quotes only fields with commas, quotes or line breaks', () => {
+    expect(toCsvField('plain')).toBe('plain');
+    expect(toCsvField(42)).toBe('42');
+    expect(toCsvField(null)).toBe('');
+    expect(toCsvField('a, b')).toBe('"a, b"');
+    expect(toCsvField('say "hi"')).toBe('"say ""hi"""');
+    expect(toCsvField('line\nbreak')).toBe('"line\nbreak"');
+    expect(toCsvField('#hash')).toBe('#hash');
+  });
+});
+
+describe('toCsv', () => {
+  it('writes a header and one CRLF-terminated line per call in the chosen columns', () => {
+    const csv = toCsv([makeRow({ error: 'Timeout, "retrying"\nfailed' })], ['id', 'error', 'errorCount']);
+
+    expect(csv).toBe('Call ID,Error,Errors\r\ncall-1,"Timeout, ""retrying""\nfailed",1\r\n');
+  });
+});
+
+describe('toHistoryJson', () => {
+  it('keeps only the chosen columns, keyed by column', () => {
+    expect(JSON.parse(toHistoryJson([makeRow()], ['id', 'agent', 'durationSeconds', 'logCount']))).toEqual([
+      { id: 'call-1', agent: 'agent@example.com', durationSeconds: 42, logCount: 12 },
+    ]);
+  });
+});
+
+describe('fetchCallHistory', () => {
+  beforeEach(() => {
+    db.calls.length = 0;
+  });
+
+  it('pages through every matching call and attaches its owner\'s log counts', async () => {
+    const firstBatch = Array.from({ length: 200 }, (_, i) => makeRow({ id: `call-${i}` }));
+    db.results.recordings = [
+      { data: firstBatch, error: null },
+      { data: [makeRow({ id: 'call-200' })], error: null },
+    ];
+    db.results.call_event_counts = [
+      {
+        data: [
+          { call_id: 'call-0', user_id: 'user-1', total: 3, warnings: 1, errors: 0 },
+          { call_id: 'call-1', user_id: 'user-2', total: 9, warnings: 9, errors: 9 },
+        ],
+        error: null,
+      },
+      { data: [], error: null },
+    ];
+    const progress: number[] = [];
+
+    const rows = await fetchCallHistory({ ...EMPTY_CALL_FILTERS, status: 'error' }, loaded => progress.push(loaded));
+
+    expect(rows).toHaveLength(201);
+    expect(rows[0].logCounts).toEqual({ total: 3, warnings: 1, errors: 0 });
+    expect(rows[1].logCounts).toEqual({ total: 0, warnings: 0, errors: 0 });
+    expect(rows[200].logCounts).toEqual({ total: 0, warnings: 0, errors: 0 });
+    expect(progress).toEqual([200, 201]);
+    expect(db.calls.filter(([table, method]) => table === 'recordings' && method === 'range')).toEqual([
+      ['recordings', 'range', 0, 199],
+      ['recordings', 'range', 200, 399],
+    ]);
+    expect(db.calls).toContainEqual(['recordings', 'eq', 'status', 'error']);
+  });
+
+  it('surfaces query errors', async () => {
+    db.results.recordings = [{ data: [], error: { message: 'permission denied' } }];
+
+    await expect(fetchCallHistory(EMPTY_CALL_FILTERS)).rejects.toThrow('Loading calls failed: permission denied');
+  });
+});
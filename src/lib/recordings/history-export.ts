@@ -0,0 +1,137 @@
+import { format as formatDate } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { type CallFilters, type CallRecord, queryCalls } from './calls';
+
+export type HistoryExportFormat = 'csv' | 'json';
+
+export type HistoryColumn =
+  | 'id'
+  | 'agent'
+  | 'streamSid'
+  | 'language'
+  | 'durationSeconds'
+  | 'status'
+  | 'error'
+  | 'startedAt'
+  | 'savedAt'
+  | 'logCount'
+  | 'warningCount'
+  | 'errorCount';
+
+export interface CallLogCounts {
+  total: number;
+  warnings: number;
+  errors: number;
+}
+
+export type CallHistoryRow = CallRecord & { logCounts: CallLogCounts };
+
+type CellValue = string | number | null;
+
+export interface HistoryColumnSpec {
+  label: string;
+  value: (row: CallHistoryRow) => CellValue;
+}
+
+/** In export order; the keys double as JSON property names. */
+export const HISTORY_COLUMNS: Record<HistoryColumn, HistoryColumnSpec> = {
+  id: { label: 'Call ID', value: row => row.id },
+  agent: { label: 'Agent', value: row => row.profiles?.email ?? row.user_id },
+  streamSid: { label: 'Stream', value: row => row.stream_sid },
+  language: { label: 'Language', value: row => row.language },
+  durationSeconds: { label: 'Duration (s)', value: row => row.duration_seconds },
+  status: { label: 'Status', value: row => row.status },
+  error: { label: 'Error', value: row => row.error },
+  startedAt: { label: 'Started at', value: row => row.started_at },
+  savedAt: { label: 'Saved at', value: row => row.created_at },
+  logCount: { label: 'Log lines', value: row => row.logCounts.total },
+  warningCount: { label: 'Warnings', value: row => row.logCounts.warnings },
+  errorCount: { label: 'Errors', value: row => row.logCounts.errors },
+};
+
+export const DEFAULT_HISTORY_COLUMNS: HistoryColumn[] = [
+  'id',
+  'language',
+  'durationSeconds',
+  'status',
+  'error',
+  'startedAt',
+  'logCount',
+];
+
+/** Calls per request; also bounds the `in (...)` list sent for their log counts. */
+const HISTORY_BATCH_SIZE = 200;
+
+const NO_LOGS: CallLogCounts = { total: 0, warnings: 0, errors: 0 };
+
+/** Quotes a field only when it has to (RFC 4180): commas, quotes or line breaks. */
+export const toCsvField = (value: CellValue) => {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** RFC 4180: CRLF line endings, header row first. */
+export const toCsv = (rows: CallHistoryRow[], columns: HistoryColumn[]) =>
+  [
+    columns.map(column => toCsvField(HISTORY_COLUMNS[column].label)),
+    ...rows.map(row => columns.map(column => toCsvField(HISTORY_COLUMNS[column].value(row)))),
+  ]
+    .map(fields => fields.join(','))
+    .join('\r\n') + '\r\n';
+
+export const toHistoryJson = (rows: CallHistoryRow[], columns: HistoryColumn[]) =>
+  JSON.stringify(
+    rows.map(row => Object.fromEntries(columns.map(column => [column, HISTORY_COLUMNS[column].value(row)]))),
+    null,
+    2
+  );
+
+const countsKey = (callId: string, userId: string) => `${userId}/${callId}`;
+
+/** Keyed by owner and call: events another user wrote under the same call id don't count. */
+const fetchLogCounts = async (callIds: string[]) => {
+  const { data, error } = await supabase
+    .from('call_event_counts')
+    .select('call_id, user_id, total, warnings, errors')
+    .in('call_id', callIds);
+  if (error) {
+    throw new Error(`Loading log counts failed: ${error.message}`);
+  }
+  return new Map(
+    (data ?? []).map(row => [countsKey(row.call_id, row.user_id), { total: row.total ?? 0, warnings: row.warnings ?? 0, errors: row.errors ?? 0 }])
+  );
+};
+
+/**
+ * Every saved call matching `filters` (not just one page), with its log
+ * counts. `onProgress` gets the number of calls loaded so far.
+ */
+export const fetchCallHistory = async (filters: CallFilters, onProgress: (loaded: number) => void = () => {}) => {
+  const rows: CallHistoryRow[] = [];
+  for (let from = 0; ; from += HISTORY_BATCH_SIZE) {
+    // Ties on `started_at` are broken by id so batches don't overlap or skip calls.
+    const { data, error } = await queryCalls(filters)
+      .order('id', { ascending: true })
+      .range(from, from + HISTORY_BATCH_SIZE - 1);
+    if (error) {
+      throw new Error(`Loading calls failed: ${error.message}`);
+    }
+
+    const calls = (data ?? []) as CallRecord[];
+    if (calls.length > 0) {
+      const counts = await fetchLogCounts(calls.map(call => call.id));
+      calls.forEach(call => rows.push({ ...call, logCounts: counts.get(countsKey(call.id, call.user_id)) ?? NO_LOGS }));
+      onProgress(rows.length);
+    }
+    if (calls.length < HISTORY_BATCH_SIZE) {
+      return rows;
+    }
+  }
+};
+
+export const buildHistoryExport = (rows: CallHistoryRow[], format: HistoryExportFormat, columns: HistoryColumn[]) => {
+  const fileName = `call_history_${formatDate(new Date(), 'yyyy-MM-dd_HHmmss')}.${format}`;
+  return format === 'csv'
+    ? { fileName, blob: new Blob([toCsv(rows, columns)], { type: 'text/csv;charset=utf-8' }) }
+    : { fileName, blob: new Blob([toHistoryJson(rows, columns)], { type: 'application/json' }) };
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { findRecordingStart, recordingOffsetMs, toCallMarkers } from './markers';
+
+const log = (occurredAt: string, payload: unknown = null) => ({ occurredAt, payload });
+
+describe('toCallMarkers', () => {
+  it('places tagged log lines relative to when the recorder started', () => {
+    const logs = [
+      log('2026-10-19T14:00:00.000Z'),
+      log('2026-10-19T14:00:00.500Z', { event: 'recording_started' }),
+      log('2026-10-19T14:00:03.500Z', { event: 'barge_in', mode: 'stop' }),
+      log('2026-10-19T14:00:04.000Z', { raw: {} }),
+      log('2026-10-19T14:00:05.500Z', { event: 'playback_stop' }),
+      log('2026-10-19T14:00:09.500Z', { event: 'end_call' }),
+    ];
+
+    expect(findRecordingStart(logs)).toBe(Date.parse('2026-10-19T14:00:00.500Z'));
+    expect(toCallMarkers(logs).map(({ event, positionMs, label }) => [event, positionMs, label])).toEqual([
+      ['barge_in', 3000, 'Barge-in'],
+      ['playback_stop', 5000, 'Playback stopped'],
+      ['end_call', 9000, 'End call'],
+    ]);
+  });
+
+  it('has nothing to place without the recording start', () => {
+    expect(toCallMarkers([log('2026-10-19T14:00:03.500Z', { event: 'barge_in' })])).toEqual([]);
+  });
+});
+
+describe('recordingOffsetMs', () => {
+  it('is how long after the stream started the recorder did', () => {
+    const logs = [
+      log('2026-10-19T14:00:00.000Z', { event: 'stream_started' }),
+      log('2026-10-19T14:00:01.250Z', { event: 'recording_started' }),
+    ];
+
+    expect(recordingOffsetMs(logs)).toBe(1250);
+    expect(toCallMarkers(logs)).toEqual([]);
+  });
+
+  it('is 0 for calls logged before the stream start was tagged', () => {
+    expect(recordingOffsetMs([log('2026-10-19T14:00:01.250Z', { event: 'recording_started' })])).toBe(0);
+  });
+});
@@ -0,0 +1,65 @@
+import type { CallLogEvent } from '@/lib/voice/types';
+import type { ExportLogEntry } from './export';
+
+export type CallMarkerEvent = Exclude<CallLogEvent, 'stream_started' | 'recording_started'>;
+
+export interface CallMarker {
+  id: string;
+  event: CallMarkerEvent;
+  /** Position in the recording. */
+  positionMs: number;
+  label: string;
+}
+
+export const CALL_MARKER_LABELS: Record<CallMarkerEvent, string> = {
+  barge_in: 'Barge-in',
+  playback_stop: 'Playback stopped',
+  end_call: 'End call',
+};
+
+type MarkerLogEntry = Pick<ExportLogEntry, 'occurredAt' | 'payload'>;
+
+const logEvent = (entry: MarkerLogEntry) => {
+  const payload = entry.payload as { event?: unknown } | null;
+  return typeof payload?.event === 'string' ? (payload.event as CallLogEvent) : null;
+};
+
+const findEvent = (logs: MarkerLogEntry[], event: CallLogEvent) => {
+  const entry = logs.find(log => logEvent(log) === event);
+  return entry ? Date.parse(entry.occurredAt) : null;
+};
+
+/** When the recorder started, in epoch ms; null if that log line is missing. */
+export const findRecordingStart = (logs: MarkerLogEntry[]) => findEvent(logs, 'recording_started');
+
+/**
+ * How far into the stream the recording started. Transcript times count from
+ * the stream start, so subtract this to find a segment in the recording. 0
+ * when either log line is missing, e.g. for calls saved before they were tagged.
+ */
+export const recordingOffsetMs = (logs: MarkerLogEntry[]) => {
+  const streamStartedAt = findEvent(logs, 'stream_started');
+  const recordingStartedAt = findRecordingStart(logs);
+  return streamStartedAt === null || recordingStartedAt === null ? 0 : Math.max(0, recordingStartedAt - streamStartedAt);
+};
+
+/** Where a log line falls in the recording; lines from before it started clamp to the beginning. */
+export const logPositionMs = (occurredAt: string, recordingStartedAt: number) =>
+  Math.max(0, Date.parse(occurredAt) - recordingStartedAt);
+
+/** Barge-ins, playback stops and end_call commands, placed on the recording. */
+export const toCallMarkers = (logs: MarkerLogEntry[]): CallMarker[] => {
+  const startedAt = findRecordingStart(logs);
+  if (startedAt === null) return [];
+
+  return logs.flatMap((log, index) => {
+    const event = logEvent(log);
+    if (event === null || event === 'stream_started' || event === 'recording_started' || !(event in CALL_MARKER_LABELS)) return [];
+    return [{
+      id: `${event}-${index}`,
+      event,
+      positionMs: logPositionMs(log.occurredAt, startedAt),
+      label: CALL_MARKER_LABELS[event],
+    }];
+  });
+};
@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { EMPTY_CALL_FILTERS, fetchCalls } from './calls';
+import { uploadRecording } from './recordings';
+import { uploadResumable } from './resumable-upload';
+import type { PendingUpload } from './upload-queue';
+
+/** Just enough of a `recordings` table: upserts are kept and `eq` filters what a select returns. */
+const db = vi.hoisted(() => {
+  const rows = new Map<string, Record<string, unknown>>();
+  const from = () => {
+    const filters: [string, unknown][] = [];
+    const builder: Record<string, unknown> = {
+      upsert: async (row: Record<string, unknown>) => {
+        rows.set(row.id as string, row);
+        return { error: null };
+      },
+      eq: (column: string, value: unknown) => {
+        filters.push([column, value]);
+        return builder;
+      },
+      then: (resolve: (value: unknown) => void) => {
+        const data = [...rows.values()].filter(row => filters.every(([column, value]) => row[column] === value));
+        resolve({ data, error: null, count: data.length });
+      },
+    };
+    for (const method of ['select', 'order', 'range']) {
+      builder[method] = () => builder;
+    }
+    return builder;
+  };
+  return { rows, from };
+});
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: db.from,
+    auth: {
+      getSession: async () => ({ data: { session: { access_token: 'token', user: { id: 'user-1' } } } }),
+    },
+  },
+}));
+
+vi.mock('./resumable-upload', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./resumable-upload')>()),
+  uploadResumable: vi.fn(async () => 'https://supabase.test/upload/1'),
+}));
+
+const makeUpload = (overrides: Partial<PendingUpload>): PendingUpload => ({
+  id: 'call-1',
+  userId: 'user-1',
+  blob: new Blob(['audio'], { type: 'audio/webm' }),
+  contentType: 'audio/webm',
+  metadata: {
+    streamSid: 'stream-1',
+    durationSeconds: 12,
+    language: 'English',
+    status: 'success',
+    error: null,
+    startedAt: '2026-10-19T14:05:17.000Z',
+    searchText: '',
+  },
+  uploadUrl: null,
+  attempts: 0,
+  nextAttemptAt: 0,
+  lastError: null,
+  state: 'queued',
+  progress: 0,
+  ...overrides,
+});
+
+const hooks = { onUploadUrl: () => {}, onProgress: () => {} };
+
+describe('uploadRecording', () => {
+  beforeEach(() => {
+    db.rows.clear();
+    vi.mocked(uploadResumable).mockClear();
+  });
+
+  it('saves a call that failed before any audio as an error row that the error filter finds', async () => {
+    const failed = makeUpload({
+      id: 'call-failed',
+      blob: null,
+      metadata: { ...makeUpload({}).metadata, durationSeconds: 0, status: 'error', error: 'WebSocket connection failed' },
+    });
+
+    await uploadRecording(makeUpload({}), hooks);
+    await uploadRecording(failed, hooks);
+
+    expect(uploadResumable).toHaveBeenCalledTimes(1);
+    const { calls, total } = await fetchCalls({ ...EMPTY_CALL_FILTERS, status: 'error' }, 1);
+    expect(total).toBe(1);
+    expect(calls[0]).toMatchObject({
+      id: 'call-failed',
+      status: 'error',
+      error: 'WebSocket connection failed',
+      storage_path: null,
+      mime_type: null,
+      size_bytes: null,
+    });
+  });
+
+  it('stores the audio of a failed call that has some', async () => {
+    await uploadRecording(
+      makeUpload({ metadata: { ...makeUpload({}).metadata, status: 'error', error: 'Connection lost' } }),
+      hooks
+    );
+
+    expect(uploadResumable).toHaveBeenCalledWith(expect.objectContaining({ path: 'user-1/call-1.webm' }));
+    expect(db.rows.get('call-1')).toMatchObject({ status: 'error', storage_path: 'user-1/call-1.webm', size_bytes: 5 });
+  });
+});
@@ -0,0 +1,86 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, TablesInsert } from '@/integrations/supabase/types';
+import { channelCount } from './channels';
+import { UploadError, uploadResumable } from './resumable-upload';
+import { SUPABASE_PUBLISHABLE_KEY, SUPABASE_URL } from '@/lib/supabase-config';
+import type { TranscriptSegment } from '@/lib/voice/types';
+import type { PendingUpload, UploadHooks } from './upload-queue';
+
+export const RECORDINGS_BUCKET = 'recordings';
+
+const RESUMABLE_ENDPOINT = `${SUPABASE_URL}/storage/v1/upload/resumable`;
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/wav': 'wav',
+};
+
+/** Storage policies key on the first folder, so every file lives under its owner's id. */
+export const recordingPath = (userId: string, recordingId: string, contentType: string) =>
+  `${userId}/${recordingId}.${EXTENSIONS[contentType.split(';')[0]] ?? 'bin'}`;
+
+export const toRecordingRow = (upload: PendingUpload, storagePath: string | null): TablesInsert<'recordings'> => ({
+  id: upload.id,
+  user_id: upload.userId,
+  stream_sid: upload.metadata.streamSid,
+  storage_path: storagePath,
+  mime_type: upload.blob ? upload.contentType : null,
+  size_bytes: upload.blob?.size ?? null,
+  duration_seconds: upload.metadata.durationSeconds,
+  language: upload.metadata.language,
+  status: upload.metadata.status,
+  error: upload.metadata.error,
+  started_at: upload.metadata.startedAt,
+  search_text: upload.metadata.searchText,
+  transcript: (upload.metadata.transcript ?? []) as unknown as Json,
+  channels: channelCount(upload.metadata.channels ?? 'mono'),
+});
+
+/**
+ * Uploads a recording's audio to Storage and then records it in the
+ * `recordings` table. Both steps are idempotent, so a retry after a partial
+ * failure just finishes the job. Calls without audio only get the row.
+ */
+export const uploadRecording = async (upload: PendingUpload, { onUploadUrl, onProgress }: UploadHooks) => {
+  const { data } = await supabase.auth.getSession();
+  const session = data.session;
+  if (!session || session.user.id !== upload.userId) {
+    // Signed out (or someone else signed in): keep it queued for its owner.
+    throw new UploadError('Not signed in as the recording owner', { retryable: true });
+  }
+
+  const storagePath = upload.blob ? recordingPath(upload.userId, upload.id, upload.contentType) : null;
+  if (upload.blob) {
+    await uploadResumable({
+      endpoint: RESUMABLE_ENDPOINT,
+      headers: { authorization: `Bearer ${session.access_token}`, apikey: SUPABASE_PUBLISHABLE_KEY },
+      bucket: RECORDINGS_BUCKET,
+      path: storagePath,
+      blob: upload.blob,
+      contentType: upload.contentType,
+      uploadUrl: upload.uploadUrl,
+      onUploadUrl,
+      onProgress: (uploaded, total) => onProgress(total > 0 ? uploaded / total : 1),
+    });
+  }
+
+  const { error } = await supabase.from('recordings').upsert(toRecordingRow(upload, storagePath));
+  if (error) {
+    // RLS or constraint violations won't fix themselves; anything else might.
+    const permanent = error.code === '42501' || error.code?.startsWith('23');
+    throw new UploadError(`Saving recording failed: ${error.message}`, { retryable: !permanent });
+  }
+};
+
+/** Replaces the transcript of a recording that has already been saved, e.g. after offline transcription. */
+export const saveRecordingTranscript = async (id: string, transcript: TranscriptSegment[], searchText: string) => {
+  const { error } = await supabase
+    .from('recordings')
+    .update({ transcript: transcript as unknown as Json, search_text: searchText })
+    .eq('id', id);
+  if (error) {
+    throw new Error(`Saving transcript failed: ${error.message}`);
+  }
+};
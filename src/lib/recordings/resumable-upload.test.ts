@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { UploadError, uploadResumable } from './resumable-upload';
+
+const ENDPOINT = 'https://storage.test/storage/v1/upload/resumable';
+const UPLOAD_URL = `${ENDPOINT}/abc`;
+
+const respond = (status: number, headers: Record<string, string> = {}) => new Response(null, { status, headers });
+
+const options = (overrides = {}) => ({
+  endpoint: ENDPOINT,
+  headers: { authorization: 'Bearer token' },
+  bucket: 'recordings',
+  path: 'user-1/rec-1.webm',
+  blob: new Blob(['0123456789']),
+  contentType: 'audio/webm',
+  chunkSize: 4,
+  ...overrides,
+});
+
+describe('uploadResumable', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  it('creates the upload and sends it in chunks', async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond(201, { Location: UPLOAD_URL }))
+      .mockResolvedValueOnce(respond(204, { 'Upload-Offset': '4' }))
+      .mockResolvedValueOnce(respond(204, { 'Upload-Offset': '8' }))
+      .mockResolvedValueOnce(respond(204, { 'Upload-Offset': '10' }));
+    const onUploadUrl = vi.fn();
+    const onProgress = vi.fn();
+
+    await uploadResumable(options({ onUploadUrl, onProgress }));
+
+    const [createUrl, create] = fetchMock.mock.calls[0];
+    expect(createUrl).toBe(ENDPOINT);
+    expect(create.headers).toMatchObject({
+      authorization: 'Bearer token',
+      'Upload-Length': '10',
+      'Upload-Metadata': expect.stringContaining(`objectName ${btoa('user-1/rec-1.webm')}`),
+    });
+    expect(fetchMock.mock.calls.slice(1).map(([, init]) => init.headers['Upload-Offset'])).toEqual(['0', '4', '8']);
+    expect(onUploadUrl).toHaveBeenCalledWith(UPLOAD_URL);
+    expect(onProgress).toHaveBeenLastCalledWith(10, 10);
+  });
+
+  it('resumes from the offset the server already has', async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond(200, { 'Upload-Offset': '8' }))
+      .mockResolvedValueOnce(respond(204, { 'Upload-Offset': '10' }));
+
+    await uploadResumable(options({ uploadUrl: UPLOAD_URL }));
+
+    expect(fetchMock.mock.calls[0][1].method).toBe('HEAD');
+    expect(fetchMock.mock.calls[1][1].headers['Upload-Offset']).toBe('8');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('starts over when the server has forgotten the upload', async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond(404))
+      .mockResolvedValueOnce(respond(201, { Location: UPLOAD_URL }))
+      .mockResolvedValue(respond(204, { 'Upload-Offset': '10' }));
+
+    await uploadResumable(options({ uploadUrl: UPLOAD_URL, chunkSize: 10 }));
+
+    expect(fetchMock.mock.calls[1][1].method).toBe('POST');
+  });
+
+  it('gives up with a retryable error when the server does not move the offset forward', async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond(201, { Location: UPLOAD_URL }))
+      .mockResolvedValueOnce(respond(204, { 'Upload-Offset': '4' }))
+      .mockResolvedValueOnce(respond(204, { 'Upload-Offset': '4' }));
+
+    const error = await uploadResumable(options()).catch(err => err);
+
+    expect(error).toBeInstanceOf(UploadError);
+    expect(error).toMatchObject({ retryable: true, message: expect.stringContaining('offset 4') });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('marks network and server errors retryable but not permission errors', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    await expect(uploadResumable(options())).rejects.toMatchObject({ retryable: true });
+
+    fetchMock.mockResolvedValueOnce(respond(503));
+    await expect(uploadResumable(options())).rejects.toMatchObject({ retryable: true, status: 503 });
+
+    fetchMock.mockResolvedValueOnce(respond(403));
+    const error = await uploadResumable(options()).catch(err => err);
+    expect(error).toBeInstanceOf(UploadError);
+    expect(error).toMatchObject({ retryable: false, status: 403 });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Minimal tus 1.0 client for Supabase Storage's resumable upload endpoint.
+ * Uploads go out in fixed-size chunks, and an upload interrupted part-way
+ * resumes from the offset the server reports instead of starting over.
+ */
+
+const TUS_VERSION = '1.0.0';
+
+/** Supabase Storage only accepts 6 MB chunks (the last one may be shorter). */
+export const RESUMABLE_CHUNK_SIZE = 6 * 1024 * 1024;
+
+export interface ResumableUploadOptions {
+  /** The storage `upload/resumable` endpoint. */
+  endpoint: string;
+  /** Authorization and apikey headers for the signed-in user. */
+  headers: Record<string, string>;
+  bucket: string;
+  path: string;
+  blob: Blob;
+  contentType: string;
+  /** Upload URL from an earlier attempt; the upload resumes from where it stopped. */
+  uploadUrl?: string | null;
+  chunkSize?: number;
+  /** Called once the server has created the upload, so callers can persist the URL. */
+  onUploadUrl?: (uploadUrl: string) => void;
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+}
+
+export class UploadError extends Error {
+  /** Whether trying again later may succeed (network failure, 5xx, rate limit). */
+  readonly retryable: boolean;
+  readonly status?: number;
+
+  constructor(message: string, { retryable, status }: { retryable: boolean; status?: number }) {
+    super(message);
+    this.name = 'UploadError';
+    this.retryable = retryable;
+    this.status = status;
+  }
+}
+
+const isRetryableStatus = (status: number) => status >= 500 || status === 408 || status === 429 || status === 409;
+
+/** tus metadata values are base64 of the UTF-8 bytes. */
+const encodeMetadata = (metadata: Record<string, string>) =>
+  Object.entries(metadata)
+    .map(([key, value]) => `${key} ${btoa(String.fromCharCode(...new TextEncoder().encode(value)))}`)
+    .join(',');
+
+const request = async (url: string, init: RequestInit, action: string) => {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (err) {
+    throw new UploadError(`${action} failed: ${err instanceof Error ? err.message : 'network error'}`, { retryable: true });
+  }
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new UploadError(`${action} failed (HTTP ${response.status})${body ? `: ${body}` : ''}`, {
+      retryable: isRetryableStatus(response.status),
+      status: response.status,
+    });
+  }
+  return response;
+};
+
+const readOffset = (response: Response) => {
+  const offset = Number(response.headers.get('Upload-Offset'));
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new UploadError('Server did not report an upload offset', { retryable: true });
+  }
+  return offset;
+};
+
+/** Asks the server how much of an earlier upload it has; null if it has forgotten it. */
+const fetchOffset = async (uploadUrl: string, headers: Record<string, string>) => {
+  try {
+    const response = await request(uploadUrl, { method: 'HEAD', headers: { ...headers, 'Tus-Resumable': TUS_VERSION } }, 'Resuming upload');
+    return readOffset(response);
+  } catch (err) {
+    if (err instanceof UploadError && (err.status === 404 || err.status === 410)) {
+      return null;
+    }
+    throw err;
+  }
+};
+
+const createUpload = async ({ endpoint, headers, bucket, path, blob, contentType }: ResumableUploadOptions) => {
+  const response = await request(
+    endpoint,
+    {
+      method: 'POST',
+      headers: {
+        ...headers,
+        'Tus-Resumable': TUS_VERSION,
+        'Upload-Length': String(blob.size),
+        'Upload-Metadata': encodeMetadata({ bucketName: bucket, objectName: path, contentType, cacheControl: '3600' }),
+        'x-upsert': 'true',
+      },
+    },
+    'Creating upload'
+  );
+  const location = response.headers.get('Location');
+  if (!location) {
+    throw new UploadError('Server did not return an upload URL', { retryable: true });
+  }
+  return new URL(location, endpoint).toString();
+};
+
+/** Uploads `blob`, resuming `uploadUrl` if given; resolves with the upload URL once every byte is stored. */
+export const uploadResumable = async (options: ResumableUploadOptions) => {
+  const { headers, blob, chunkSize = RESUMABLE_CHUNK_SIZE, onUploadUrl, onProgress } = options;
+
+  let uploadUrl = options.uploadUrl ?? null;
+  let offset = uploadUrl ? await fetchOffset(uploadUrl, headers) : null;
+  if (uploadUrl === null || offset === null) {
+    uploadUrl = await createUpload(options);
+    offset = 0;
+    onUploadUrl?.(uploadUrl);
+  }
+  onProgress?.(offset, blob.size);
+
+  while (offset < blob.size) {
+    const response = await request(
+      uploadUrl,
+      {
+        method: 'PATCH',
+        headers: {
+          ...headers,
+          'Tus-Resumable': TUS_VERSION,
+          'Upload-Offset': String(offset),
+          'Content-Type': 'application/offset+octet-stream',
+        },
+        body: blob.slice(offset, offset + chunkSize),
+      },
+      'Uploading chunk'
+    );
+    const nextOffset = readOffset(response);
+    // Sending the same chunk again would loop forever; a later attempt starts from a fresh HEAD.
+    if (nextOffset <= offset) {
+      throw new UploadError(`Server did not accept the chunk at offset ${offset} (reported ${nextOffset})`, { retryable: true });
+    }
+    offset = nextOffset;
+    onProgress?.(offset, blob.size);
+  }
+
+  return uploadUrl;
+};
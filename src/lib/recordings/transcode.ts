@@ -0,0 +1,97 @@
+import { FFmpeg } from '@ffmpeg/ffmpeg';
+import coreURL from '@ffmpeg/core?url';
+import wasmURL from '@ffmpeg/core/wasm?url';
+
+/** `webm` is the recording as captured; the others are transcoded in the browser. */
+export type AudioExportFormat = 'webm' | 'wav' | 'mp3' | 'opus';
+
+export interface AudioExportFormatSpec {
+  label: string;
+  extension: string;
+  mimeType: string;
+  /** ffmpeg output options; null for the original file. */
+  codecArgs: string[] | null;
+}
+
+export const AUDIO_EXPORT_FORMATS: Record<AudioExportFormat, AudioExportFormatSpec> = {
+  webm: { label: 'WebM (original)', extension: 'webm', mimeType: 'audio/webm', codecArgs: null },
+  wav: { label: 'WAV (16-bit PCM)', extension: 'wav', mimeType: 'audio/wav', codecArgs: ['-c:a', 'pcm_s16le'] },
+  mp3: { label: 'MP3', extension: 'mp3', mimeType: 'audio/mpeg', codecArgs: ['-c:a', 'libmp3lame', '-q:a', '4'] },
+  opus: {
+    label: 'Opus (Ogg)',
+    extension: 'ogg',
+    mimeType: 'audio/ogg; codecs=opus',
+    codecArgs: ['-c:a', 'libopus', '-b:a', '32k', '-f', 'ogg'],
+  },
+};
+
+/**
+ * Converts recordings with ffmpeg compiled to WASM, which runs in its own
+ * Web Worker. The ~30 MB core is only fetched on the first transcode and
+ * stays loaded; jobs share the one instance, so they run one at a time.
+ */
+export class AudioTranscoder {
+  private ffmpeg: FFmpeg | null = null;
+  private loading: Promise<FFmpeg> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private nextJobId = 0;
+
+  /** Returns the blob itself for `webm`; `onProgress` gets 0–1. */
+  transcode(blob: Blob, format: AudioExportFormat, onProgress: (progress: number) => void = () => {}) {
+    const { codecArgs, mimeType, extension } = AUDIO_EXPORT_FORMATS[format];
+    if (!codecArgs) {
+      return Promise.resolve(blob);
+    }
+
+    const job = this.queue.then(async () => {
+      const ffmpeg = await this.load();
+      const jobId = this.nextJobId++;
+      const input = `input-${jobId}.webm`;
+      const output = `output-${jobId}.${extension}`;
+      const progress = ({ progress }: { progress: number }) => onProgress(Math.max(0, Math.min(1, progress)));
+
+      ffmpeg.on('progress', progress);
+      try {
+        await ffmpeg.writeFile(input, new Uint8Array(await blob.arrayBuffer()));
+        const exitCode = await ffmpeg.exec(['-i', input, '-vn', ...codecArgs, output]);
+        if (exitCode !== 0) {
+          throw new Error(`Converting to ${format.toUpperCase()} failed (ffmpeg exit code ${exitCode})`);
+        }
+        const data = await ffmpeg.readFile(output);
+        onProgress(1);
+        return new Blob([data], { type: mimeType });
+      } finally {
+        ffmpeg.off('progress', progress);
+        await ffmpeg.deleteFile(input).catch(() => {});
+        await ffmpeg.deleteFile(output).catch(() => {});
+      }
+    });
+    // A failed job must not block the ones queued behind it.
+    this.queue = job.catch(() => {});
+    return job;
+  }
+
+  dispose() {
+    this.ffmpeg?.terminate();
+    this.ffmpeg = null;
+    this.loading = null;
+  }
+
+  private load() {
+    if (!this.loading) {
+      const ffmpeg = new FFmpeg();
+      this.loading = ffmpeg.load({ coreURL, wasmURL }).then(
+        () => {
+          this.ffmpeg = ffmpeg;
+          return ffmpeg;
+        },
+        (err) => {
+          this.loading = null;
+          ffmpeg.terminate();
+          throw err;
+        }
+      );
+    }
+    return this.loading;
+  }
+}
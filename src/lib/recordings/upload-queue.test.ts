@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { UploadError } from './resumable-upload';
+import { type NewUpload, type PendingUpload, UploadQueue } from './upload-queue';
+import { createMemoryUploadStore } from './upload-store';
+
+const newUpload = (id = 'rec-1'): NewUpload => ({
+  id,
+  userId: 'user-1',
+  blob: new Blob(['audio']),
+  contentType: 'audio/webm',
+  metadata: {
+    streamSid: 'stream-1',
+    durationSeconds: 12,
+    language: 'English',
+    status: 'success',
+    error: null,
+    startedAt: '2026-10-19T10:00:00.000Z',
+    searchText: '',
+  },
+});
+
+const createQueue = (upload: (upload: PendingUpload) => Promise<void>) => {
+  const store = createMemoryUploadStore();
+  const changes: PendingUpload[][] = [];
+  const uploaded = vi.fn();
+  const queue = new UploadQueue(store, { baseDelayMs: 1000, maxDelayMs: 4000, maxAttempts: 3 }, {
+    upload: vi.fn(upload),
+    change: (uploads) => changes.push(uploads),
+    uploaded,
+  });
+  return { queue, store, changes, uploaded };
+};
+
+describe('UploadQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  it('uploads a recording and removes it from the store', async () => {
+    const { queue, store, uploaded } = createQueue(async () => {});
+
+    await queue.enqueue(newUpload());
+    await vi.runAllTimersAsync();
+
+    expect(uploaded).toHaveBeenCalledWith('rec-1');
+    expect(queue.pending).toEqual([]);
+    expect(await store.load()).toEqual([]);
+  });
+
+  it('updates the metadata of a recording that is still waiting to upload', async () => {
+    let fail = true;
+    const { queue, store } = createQueue(async () => {
+      if (fail) throw new Error('offline');
+    });
+    await queue.enqueue(newUpload());
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(await queue.updateMetadata('rec-1', { searchText: 'hello' })).toBe(true);
+    expect((await store.load())[0].metadata).toMatchObject({ streamSid: 'stream-1', searchText: 'hello' });
+
+    fail = false;
+    await vi.runAllTimersAsync();
+    expect(await queue.updateMetadata('rec-1', { searchText: 'too late' })).toBe(false);
+  });
+
+  it('retries with exponential backoff, resuming the same upload URL', async () => {
+    const seenUrls: (string | null)[] = [];
+    let calls = 0;
+    const { queue, uploaded } = createQueue(async (upload) => {
+      seenUrls.push(upload.uploadUrl);
+      if (++calls < 3) {
+        upload.uploadUrl = 'https://storage.test/upload/abc';
+        throw new UploadError('Uploading chunk failed (HTTP 503)', { retryable: true });
+      }
+    });
+
+    await queue.enqueue(newUpload());
+    await vi.advanceTimersByTimeAsync(0);
+    expect(queue.pending[0]).toMatchObject({ state: 'queued', attempts: 1, lastError: 'Uploading chunk failed (HTTP 503)' });
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(calls).toBe(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(calls).toBe(2);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(uploaded).toHaveBeenCalledWith('rec-1');
+    expect(seenUrls).toEqual([null, 'https://storage.test/upload/abc', 'https://storage.test/upload/abc']);
+  });
+
+  it('gives up on permanent errors until retried by hand', async () => {
+    let fail = true;
+    const { queue, store, uploaded } = createQueue(async () => {
+      if (fail) throw new UploadError('Creating upload failed (HTTP 403)', { retryable: false });
+    });
+
+    await queue.enqueue(newUpload());
+    await vi.runAllTimersAsync();
+    expect(queue.pending[0]).toMatchObject({ state: 'failed', attempts: 1 });
+    expect(await store.load()).toHaveLength(1);
+
+    fail = false;
+    queue.retry('rec-1');
+    await vi.runAllTimersAsync();
+    expect(uploaded).toHaveBeenCalledWith('rec-1');
+  });
+
+  it('restores uploads left in the store by an earlier visit', async () => {
+    const { queue: first, store } = createQueue(async () => {
+      throw new UploadError('offline', { retryable: true });
+    });
+    await first.enqueue(newUpload());
+    await vi.advanceTimersByTimeAsync(0);
+    first.dispose();
+
+    const uploaded = vi.fn();
+    const second = new UploadQueue(store, {}, { upload: async () => {}, change: () => {}, uploaded });
+    await second.restore();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(uploaded).toHaveBeenCalledWith('rec-1');
+  });
+});
@@ -0,0 +1,252 @@
+import type { RecordingChannels, TranscriptSegment } from '@/lib/voice/types';
+import { UploadError } from './resumable-upload';
+import type { UploadStore } from './upload-store';
+
+export interface RecordingMetadata {
+  streamSid: string;
+  durationSeconds: number;
+  language: string | null;
+  status: 'success' | 'error';
+  error: string | null;
+  /** ISO timestamp of when the call started. */
+  startedAt: string;
+  /** Plain text indexed for call history search, e.g. the call's log messages and transcript. */
+  searchText: string;
+  /** Missing on uploads queued before transcripts were saved. */
+  transcript?: TranscriptSegment[];
+  /** Missing on uploads queued before stereo recording, which were all mono. */
+  channels?: RecordingChannels;
+}
+
+/**
+ * `queued` waits for its next attempt, `uploading` is in flight and `failed`
+ * has given up (a permanent error or too many attempts) until retried by hand.
+ */
+export type PendingUploadState = 'queued' | 'uploading' | 'failed';
+
+export interface PendingUpload {
+  /** The recording id, also the `recordings` row id. */
+  id: string;
+  userId: string;
+  /** Null for a call that failed before any audio was recorded; only its row is saved. */
+  blob: Blob | null;
+  contentType: string;
+  metadata: RecordingMetadata;
+  /** tus upload URL once the server has created the upload, so retries resume. */
+  uploadUrl: string | null;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  state: PendingUploadState;
+  /** 0–1; not persisted. */
+  progress: number;
+}
+
+export type NewUpload = Pick<PendingUpload, 'id' | 'userId' | 'blob' | 'contentType' | 'metadata'>;
+
+export interface UploadQueueOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface UploadHooks {
+  onUploadUrl: (uploadUrl: string) => void;
+  onProgress: (fraction: number) => void;
+}
+
+export interface UploadQueueCallbacks {
+  /** Stores the file and its row; throw an `UploadError` with `retryable: false` to stop retrying. */
+  upload: (upload: PendingUpload, hooks: UploadHooks) => Promise<void>;
+  /** Fires whenever an upload is added, progresses, fails or completes. */
+  change: (uploads: PendingUpload[]) => void;
+  uploaded?: (id: string) => void;
+}
+
+export const DEFAULT_UPLOAD_QUEUE_OPTIONS: UploadQueueOptions = {
+  maxAttempts: 8,
+  baseDelayMs: 5000,
+  maxDelayMs: 5 * 60 * 1000,
+};
+
+export const retryDelayMs = (attempts: number, options: UploadQueueOptions) =>
+  Math.min(options.baseDelayMs * 2 ** Math.max(0, attempts - 1), options.maxDelayMs);
+
+/**
+ * Uploads recordings one at a time and retries failures with exponential
+ * backoff. Every queued recording is written to the store first, so nothing
+ * is lost if the tab closes before the upload succeeds.
+ */
+export class UploadQueue {
+  private readonly options: UploadQueueOptions;
+  private readonly uploads = new Map<string, PendingUpload>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private disposed = false;
+
+  constructor(
+    private readonly store: UploadStore,
+    options: Partial<UploadQueueOptions>,
+    private readonly callbacks: UploadQueueCallbacks
+  ) {
+    this.options = { ...DEFAULT_UPLOAD_QUEUE_OPTIONS, ...options };
+  }
+
+  get pending() {
+    return [...this.uploads.values()];
+  }
+
+  /** Picks up uploads left over from an earlier visit. */
+  async restore() {
+    const stored = await this.store.load();
+    if (this.disposed) return;
+    for (const upload of stored) {
+      if (this.uploads.has(upload.id)) continue;
+      this.uploads.set(upload.id, {
+        ...upload,
+        state: upload.state === 'failed' ? 'failed' : 'queued',
+        nextAttemptAt: Date.now(),
+        progress: 0,
+      });
+    }
+    this.notify();
+    this.process();
+  }
+
+  async enqueue(upload: NewUpload) {
+    const pending: PendingUpload = {
+      ...upload,
+      uploadUrl: null,
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      lastError: null,
+      state: 'queued',
+      progress: 0,
+    };
+    this.uploads.set(pending.id, pending);
+    this.notify();
+    await this.store.put(pending);
+    this.process();
+  }
+
+  /** Retries one upload now, including one that had given up. */
+  retry(id: string) {
+    const upload = this.uploads.get(id);
+    if (!upload || upload.state === 'uploading') return;
+    upload.state = 'queued';
+    upload.attempts = 0;
+    upload.nextAttemptAt = Date.now();
+    this.notify();
+    this.process();
+  }
+
+  /**
+   * Changes what will be saved with a recording that hasn't been uploaded yet.
+   * Returns false when there is no such upload, e.g. because it already finished.
+   */
+  async updateMetadata(id: string, metadata: Partial<RecordingMetadata>) {
+    const upload = this.uploads.get(id);
+    if (!upload) return false;
+    upload.metadata = { ...upload.metadata, ...metadata };
+    await this.store.put(upload);
+    return true;
+  }
+
+  /** Cuts every backoff short, e.g. when the browser comes back online. */
+  retryAll() {
+    for (const upload of this.uploads.values()) {
+      if (upload.state === 'queued') {
+        upload.nextAttemptAt = Date.now();
+      }
+    }
+    this.process();
+  }
+
+  dispose() {
+    this.disposed = true;
+    this.clearTimer();
+  }
+
+  private async process() {
+    if (this.running || this.disposed) return;
+    this.running = true;
+    this.clearTimer();
+
+    try {
+      let next = this.nextDue();
+      while (next && !this.disposed) {
+        await this.attempt(next);
+        next = this.nextDue();
+      }
+    } finally {
+      this.running = false;
+    }
+    this.scheduleNext();
+  }
+
+  private nextDue() {
+    const now = Date.now();
+    return this.pending.find(upload => upload.state === 'queued' && upload.nextAttemptAt <= now);
+  }
+
+  private async attempt(upload: PendingUpload) {
+    upload.state = 'uploading';
+    upload.attempts++;
+    upload.progress = 0;
+    this.notify();
+
+    try {
+      await this.callbacks.upload(upload, {
+        onUploadUrl: (uploadUrl) => {
+          upload.uploadUrl = uploadUrl;
+          this.store.put(upload).catch(() => {});
+        },
+        onProgress: (fraction) => {
+          upload.progress = fraction;
+          this.notify();
+        },
+      });
+    } catch (err) {
+      const retryable = !(err instanceof UploadError) || err.retryable;
+      upload.lastError = err instanceof Error ? err.message : String(err);
+      if (retryable && upload.attempts < this.options.maxAttempts) {
+        upload.state = 'queued';
+        upload.nextAttemptAt = Date.now() + retryDelayMs(upload.attempts, this.options);
+      } else {
+        upload.state = 'failed';
+      }
+      this.notify();
+      await this.store.put(upload).catch(() => {});
+      return;
+    }
+
+    this.uploads.delete(upload.id);
+    this.notify();
+    await this.store.remove(upload.id).catch(() => {});
+    this.callbacks.uploaded?.(upload.id);
+  }
+
+  private scheduleNext() {
+    if (this.disposed) return;
+    const waiting = this.pending.filter(upload => upload.state === 'queued');
+    if (waiting.length === 0) return;
+
+    const delay = Math.max(0, Math.min(...waiting.map(upload => upload.nextAttemptAt)) - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.process();
+    }, delay);
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private notify() {
+    if (this.disposed) return;
+    this.callbacks.change(this.pending.map(upload => ({ ...upload })));
+  }
+}
@@ -0,0 +1,67 @@
+import type { PendingUpload } from './upload-queue';
+
+/** Where the upload queue keeps recordings that are not in Storage yet. */
+export interface UploadStore {
+  load(): Promise<PendingUpload[]>;
+  put(upload: PendingUpload): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+const DB_VERSION = 1;
+const OBJECT_STORE = 'uploads';
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/** Keeps the queue for this tab only; used where IndexedDB is unavailable (e.g. some private windows). */
+export const createMemoryUploadStore = (): UploadStore => {
+  const uploads = new Map<string, PendingUpload>();
+  return {
+    load: async () => [...uploads.values()],
+    put: async (upload) => {
+      uploads.set(upload.id, upload);
+    },
+    remove: async (id) => {
+      uploads.delete(id);
+    },
+  };
+};
+
+/**
+ * Persists queued uploads, audio included, in IndexedDB so a recording that
+ * failed to upload survives a reload. One database per user keeps a shared
+ * browser from uploading someone else's calls under the wrong account.
+ */
+export const createIndexedDbUploadStore = (name: string): UploadStore => {
+  if (typeof indexedDB === 'undefined') {
+    return createMemoryUploadStore();
+  }
+
+  let database: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    if (!database) {
+      const request = indexedDB.open(name, DB_VERSION);
+      request.onupgradeneeded = () => request.result.createObjectStore(OBJECT_STORE, { keyPath: 'id' });
+      database = promisify(request);
+    }
+    return database;
+  };
+
+  const transact = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await open();
+    return promisify(run(db.transaction(OBJECT_STORE, mode).objectStore(OBJECT_STORE)));
+  };
+
+  return {
+    load: () => transact('readonly', store => store.getAll() as IDBRequest<PendingUpload[]>),
+    put: async (upload) => {
+      await transact('readwrite', store => store.put(upload));
+    },
+    remove: async (id) => {
+      await transact('readwrite', store => store.delete(id));
+    },
+  };
+};
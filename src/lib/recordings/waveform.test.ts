@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { computePeaks, stepPlaybackRate } from './waveform';
+
+describe('computePeaks', () => {
+  it('takes the loudest sample per bar across channels, scaled to the loudest bar', () => {
+    const left = Float32Array.from([0.1, -0.2, 0, 0, 0.05, 0.1]);
+    const right = Float32Array.from([0, 0, 0, -0.4, 0, 0]);
+
+    expect(Array.from(computePeaks([left, right], 3))).toEqual([0.5, 1, 0.25]);
+  });
+
+  it('keeps silence flat and copes with fewer samples than bars', () => {
+    expect(Array.from(computePeaks([new Float32Array(4)], 2))).toEqual([0, 0]);
+    expect(Array.from(computePeaks([Float32Array.from([0.5])], 3))).toEqual([1, 1, 1]);
+    expect(Array.from(computePeaks([], 2))).toEqual([0, 0]);
+  });
+});
+
+describe('stepPlaybackRate', () => {
+  it('moves one step and stops at 0.5× and 2×', () => {
+    expect(stepPlaybackRate(1, 1)).toBe(1.25);
+    expect(stepPlaybackRate(1, -1)).toBe(0.75);
+    expect(stepPlaybackRate(2, 1)).toBe(2);
+    expect(stepPlaybackRate(0.5, -1)).toBe(0.5);
+  });
+});
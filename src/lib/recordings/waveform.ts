@@ -0,0 +1,50 @@
+import { decodeRecording } from './channels';
+
+/** Plenty for a waveform, and keeps a long stereo call's decoded samples small. */
+const WAVEFORM_SAMPLE_RATE = 8000;
+
+export const WAVEFORM_BARS = 240;
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+/**
+ * The loudest absolute sample in each of `bars` equal slices, across all
+ * channels, scaled so the loudest bar is 1. Silence stays at 0.
+ */
+export const computePeaks = (channels: Float32Array[], bars = WAVEFORM_BARS) => {
+  const peaks = new Float32Array(bars);
+  const length = channels[0]?.length ?? 0;
+  if (length === 0) return peaks;
+
+  for (let bar = 0; bar < bars; bar++) {
+    const start = Math.floor((bar * length) / bars);
+    const end = Math.max(start + 1, Math.floor(((bar + 1) * length) / bars));
+    let peak = 0;
+    for (const samples of channels) {
+      for (let i = start; i < end && i < length; i++) {
+        peak = Math.max(peak, Math.abs(samples[i]));
+      }
+    }
+    peaks[bar] = peak;
+  }
+
+  const loudest = Math.max(...peaks);
+  return loudest > 0 ? peaks.map(peak => peak / loudest) : peaks;
+};
+
+/**
+ * Peaks and length of a recording. The length comes from decoding because
+ * MediaRecorder's WebM files carry no duration for `<audio>` to read.
+ */
+export const loadWaveform = async (blob: Blob, bars = WAVEFORM_BARS) => {
+  const buffer = await decodeRecording(blob, WAVEFORM_SAMPLE_RATE);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+  return { peaks: computePeaks(channels, bars), durationMs: buffer.duration * 1000 };
+};
+
+/** The next slower or faster rate, staying within `PLAYBACK_RATES`. */
+export const stepPlaybackRate = (rate: number, direction: 1 | -1) => {
+  const index = PLAYBACK_RATES.indexOf(rate);
+  const current = index === -1 ? PLAYBACK_RATES.indexOf(1) : index;
+  return PLAYBACK_RATES[Math.min(PLAYBACK_RATES.length - 1, Math.max(0, current + direction))];
+};
@@ -0,0 +1,24 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+/** The `app_settings` rows the app reads; each module parses its own value. */
+export type AppSettingKey = 'voice_servers' | 'sign_in';
+
+/** The stored value, or null if no admin has saved this setting yet. */
+export const fetchAppSetting = async (key: AppSettingKey): Promise<Json | null> => {
+  const { data, error } = await supabase.from('app_settings').select('value').eq('key', key).maybeSingle();
+  if (error) {
+    throw new Error(`Loading settings failed: ${error.message}`);
+  }
+  return data?.value ?? null;
+};
+
+/** Row-level security only lets admins do this. */
+export const saveAppSetting = async (key: AppSettingKey, value: Json, userId: string) => {
+  const { error } = await supabase
+    .from('app_settings')
+    .upsert({ key, value, updated_by: userId, updated_at: new Date().toISOString() });
+  if (error) {
+    throw new Error(`Saving settings failed: ${error.message}`);
+  }
+};
@@ -0,0 +1,30 @@
+import type { TranscriptSegment, TranscriptSpeaker } from '@/lib/voice/types';
+import type { OfflineTranscriptionOptions } from './whisper';
+
+/**
+ * `loading` covers downloading the model (cached by the browser after the
+ * first run), `transcribing` the windows of audio processed so far.
+ */
+export type OfflineTranscriptionPhase = 'loading' | 'transcribing';
+
+export interface OfflineTranscriptionProgress {
+  phase: OfflineTranscriptionPhase;
+  /** 0–1 within the phase. */
+  progress: number;
+}
+
+export interface TranscribeRequest {
+  type: 'transcribe';
+  jobId: number;
+  /** 16 kHz mono; transferred, not copied. */
+  samples: Float32Array;
+  /** Who is speaking in `samples`; `unknown` for a mixed-down recording. */
+  speaker: TranscriptSpeaker;
+  language: string;
+  options: OfflineTranscriptionOptions;
+}
+
+export type TranscriptionWorkerResponse =
+  | { type: 'progress'; jobId: number; progress: OfflineTranscriptionProgress }
+  | { type: 'result'; jobId: number; segments: TranscriptSegment[] }
+  | { type: 'error'; jobId: number; message: string };
@@ -0,0 +1,138 @@
+import { RECORDING_SIDE_CHANNELS, decodeRecording, extractChannel } from '@/lib/recordings/channels';
+import type { RecordingChannels, TranscriptSegment, TranscriptSpeaker } from '@/lib/voice/types';
+import type { OfflineTranscriptionProgress, TranscriptionWorkerResponse } from './messages';
+import TranscriptionWorker from './transcription.worker.ts?worker';
+import { DEFAULT_OFFLINE_TRANSCRIPTION_OPTIONS, type OfflineTranscriptionOptions, WHISPER_SAMPLE_RATE } from './whisper';
+
+interface AudioTrack {
+  speaker: TranscriptSpeaker;
+  samples: Float32Array;
+}
+
+/**
+ * Decodes a recording to 16 kHz, one track per speaker for a stereo
+ * recording (caller left, agent right) and a single mixed-down track
+ * otherwise. Workers have no `decodeAudioData`, so this runs on the main
+ * thread; the resampling itself is done by the browser.
+ */
+export const decodeForTranscription = async (blob: Blob, channels: RecordingChannels): Promise<AudioTrack[]> => {
+  const buffer = await decodeRecording(blob, WHISPER_SAMPLE_RATE);
+  if (channels === 'stereo' && buffer.numberOfChannels >= 2) {
+    return [
+      { speaker: 'prospect', samples: extractChannel(buffer, RECORDING_SIDE_CHANNELS.caller).slice() },
+      { speaker: 'agent', samples: extractChannel(buffer, RECORDING_SIDE_CHANNELS.agent).slice() },
+    ];
+  }
+
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return [{ speaker: 'unknown', samples: mono }];
+};
+
+interface Job {
+  resolve: (segments: TranscriptSegment[]) => void;
+  reject: (error: Error) => void;
+  onProgress: (progress: OfflineTranscriptionProgress) => void;
+}
+
+/**
+ * Transcribes saved recordings in the browser with a Whisper model running
+ * on CPU (WASM) in a Web Worker. The worker and the loaded model are kept
+ * between jobs; jobs run one after another.
+ */
+export class OfflineTranscriber {
+  private readonly options: OfflineTranscriptionOptions;
+  private worker: Worker | null = null;
+  private readonly jobs = new Map<number, Job>();
+  private nextJobId = 0;
+
+  constructor(options: Partial<OfflineTranscriptionOptions> = {}) {
+    this.options = { ...DEFAULT_OFFLINE_TRANSCRIPTION_OPTIONS, ...options };
+  }
+
+  /** Both sides of a stereo recording are transcribed separately and merged by start time. */
+  async transcribe(
+    blob: Blob,
+    language: string,
+    channels: RecordingChannels,
+    onProgress: (progress: OfflineTranscriptionProgress) => void = () => {}
+  ): Promise<TranscriptSegment[]> {
+    const tracks = await decodeForTranscription(blob, channels);
+    const segments: TranscriptSegment[] = [];
+    for (const [index, track] of tracks.entries()) {
+      segments.push(
+        ...(await this.transcribeTrack(track, language, ({ phase, progress }) =>
+          onProgress({ phase, progress: phase === 'loading' ? progress : (index + progress) / tracks.length })
+        ))
+      );
+    }
+    return segments.sort((a, b) => a.startMs - b.startMs);
+  }
+
+  private transcribeTrack(
+    { speaker, samples }: AudioTrack,
+    language: string,
+    onProgress: (progress: OfflineTranscriptionProgress) => void
+  ) {
+    const jobId = this.nextJobId++;
+    const worker = this.ensureWorker();
+
+    return new Promise<TranscriptSegment[]>((resolve, reject) => {
+      this.jobs.set(jobId, { resolve, reject, onProgress });
+      worker.postMessage({ type: 'transcribe', jobId, samples, speaker, language, options: this.options }, [samples.buffer]);
+    });
+  }
+
+  /** Stops the worker and frees the model; pending jobs fail. */
+  dispose() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.failAll(new Error('Transcription cancelled'));
+  }
+
+  private ensureWorker() {
+    if (!this.worker) {
+      const worker = new TranscriptionWorker();
+      worker.onmessage = (event: MessageEvent<TranscriptionWorkerResponse>) => this.handleResponse(event.data);
+      worker.onerror = (event) => {
+        event.preventDefault();
+        // The worker itself broke (e.g. the model failed to initialise); start fresh next time.
+        worker.terminate();
+        this.worker = null;
+        this.failAll(new Error(event.message || 'Transcription worker crashed'));
+      };
+      this.worker = worker;
+    }
+    return this.worker;
+  }
+
+  private handleResponse(response: TranscriptionWorkerResponse) {
+    const job = this.jobs.get(response.jobId);
+    if (!job) return;
+
+    switch (response.type) {
+      case 'progress':
+        job.onProgress(response.progress);
+        break;
+      case 'result':
+        this.jobs.delete(response.jobId);
+        job.resolve(response.segments);
+        break;
+      case 'error':
+        this.jobs.delete(response.jobId);
+        job.reject(new Error(`Transcription failed: ${response.message}`));
+        break;
+    }
+  }
+
+  private failAll(error: Error) {
+    const jobs = [...this.jobs.values()];
+    this.jobs.clear();
+    jobs.forEach(job => job.reject(error));
+  }
+}
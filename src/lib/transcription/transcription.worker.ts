@@ -0,0 +1,58 @@
+import { type AutomaticSpeechRecognitionPipeline, pipeline } from '@huggingface/transformers';
+import type { TranscribeRequest, TranscriptionWorkerResponse } from './messages';
+import { WHISPER_SAMPLE_RATE, type WhisperChunk, splitIntoWindows, toTranscriptSegments, toWhisperLanguage } from './whisper';
+
+/** Loaded once per model and kept for later jobs; the worker outlives a single transcription. */
+const transcribers = new Map<string, Promise<AutomaticSpeechRecognitionPipeline>>();
+
+const post = (response: TranscriptionWorkerResponse) => self.postMessage(response);
+
+const loadTranscriber = (model: string, jobId: number) => {
+  let transcriber = transcribers.get(model);
+  if (!transcriber) {
+    transcriber = pipeline('automatic-speech-recognition', model, {
+      device: 'wasm',
+      dtype: 'q8',
+      progress_callback: (info) => {
+        if (info.status === 'progress_total') {
+          post({ type: 'progress', jobId, progress: { phase: 'loading', progress: info.progress / 100 } });
+        }
+      },
+    }) as Promise<AutomaticSpeechRecognitionPipeline>;
+    // A failed download shouldn't stick; the next job tries again.
+    transcriber.catch(() => transcribers.delete(model));
+    transcribers.set(model, transcriber);
+  }
+  return transcriber;
+};
+
+const transcribe = async ({ jobId, samples, speaker, language, options }: TranscribeRequest) => {
+  post({ type: 'progress', jobId, progress: { phase: 'loading', progress: 0 } });
+  const transcriber = await loadTranscriber(options.model, jobId);
+
+  const windows = splitIntoWindows(samples, options.windowSeconds);
+  const segments = [];
+  post({ type: 'progress', jobId, progress: { phase: 'transcribing', progress: 0 } });
+  for (const [index, window] of windows.entries()) {
+    const output = await transcriber(window, {
+      language: toWhisperLanguage(language),
+      task: 'transcribe',
+      return_timestamps: true,
+    });
+    const chunks = (output.chunks ?? [{ text: output.text, timestamp: [0, null] }]) as WhisperChunk[];
+    segments.push(
+      ...toTranscriptSegments(chunks, speaker, index, options.windowSeconds, window.length / WHISPER_SAMPLE_RATE)
+    );
+    post({ type: 'progress', jobId, progress: { phase: 'transcribing', progress: (index + 1) / windows.length } });
+  }
+  return segments;
+};
+
+self.onmessage = async (event: MessageEvent<TranscribeRequest>) => {
+  const request = event.data;
+  try {
+    post({ type: 'result', jobId: request.jobId, segments: await transcribe(request) });
+  } catch (err) {
+    post({ type: 'error', jobId: request.jobId, message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { WHISPER_SAMPLE_RATE, splitIntoWindows, toTranscriptSegments, toWhisperLanguage } from './whisper';
+
+describe('splitIntoWindows', () => {
+  it('cuts audio into fixed-length windows with a shorter last one', () => {
+    const samples = new Float32Array(WHISPER_SAMPLE_RATE * 65);
+
+    expect(splitIntoWindows(samples, 30).map(window => window.length / WHISPER_SAMPLE_RATE)).toEqual([30, 30, 5]);
+  });
+});
+
+describe('toTranscriptSegments', () => {
+  it('offsets chunk times by the window and closes an open-ended last chunk', () => {
+    const segments = toTranscriptSegments(
+      [
+        { text: ' Hello there. ', timestamp: [0.5, 2] },
+        { text: ' ', timestamp: [2, 3] },
+        { text: ' Who is this?', timestamp: [3.25, null] },
+      ],
+      'unknown',
+      1,
+      30,
+      5
+    );
+
+    expect(segments).toEqual([
+      { id: 'offline-unknown-1-0', speaker: 'unknown', text: 'Hello there.', final: true, startMs: 30500, endMs: 32000 },
+      { id: 'offline-unknown-1-1', speaker: 'unknown', text: 'Who is this?', final: true, startMs: 33250, endMs: 35000 },
+    ]);
+  });
+});
+
+describe('toWhisperLanguage', () => {
+  it('uses the lowercase language name', () => {
+    expect(toWhisperLanguage('Hindi')).toBe('hindi');
+  });
+});
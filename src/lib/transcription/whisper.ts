@@ -0,0 +1,62 @@
+import type { TranscriptSegment, TranscriptSpeaker } from '@/lib/voice/types';
+
+/** Whisper models only take 16 kHz mono audio. */
+export const WHISPER_SAMPLE_RATE = 16000;
+
+export interface OfflineTranscriptionOptions {
+  /** Any Whisper ONNX export on the Hugging Face hub; multilingual, so not an `.en` model. */
+  model: string;
+  /** Whisper's context is 30 s; longer audio is transcribed one window at a time. */
+  windowSeconds: number;
+}
+
+export const DEFAULT_OFFLINE_TRANSCRIPTION_OPTIONS: OfflineTranscriptionOptions = {
+  model: 'onnx-community/whisper-base',
+  windowSeconds: 30,
+};
+
+/** A chunk as returned by the speech recognition pipeline with `return_timestamps`. */
+export interface WhisperChunk {
+  text: string;
+  /** Seconds from the start of the window; the end can be missing for the last chunk. */
+  timestamp: [number, number | null];
+}
+
+/** Whisper takes lowercase language names, e.g. `English` → `english`. */
+export const toWhisperLanguage = (language: string) => language.trim().toLowerCase();
+
+export const splitIntoWindows = (samples: Float32Array, windowSeconds: number) => {
+  const windowLength = windowSeconds * WHISPER_SAMPLE_RATE;
+  const windows: Float32Array[] = [];
+  for (let offset = 0; offset < samples.length; offset += windowLength) {
+    windows.push(samples.subarray(offset, offset + windowLength));
+  }
+  return windows;
+};
+
+/**
+ * Turns one window's chunks into transcript segments. A mixed-down recording
+ * can't tell the caller from the agent, so its speaker is `unknown`.
+ */
+export const toTranscriptSegments = (
+  chunks: WhisperChunk[],
+  speaker: TranscriptSpeaker,
+  windowIndex: number,
+  windowSeconds: number,
+  windowDurationSeconds: number
+): TranscriptSegment[] => {
+  const offsetMs = windowIndex * windowSeconds * 1000;
+  return chunks
+    .filter(chunk => chunk.text.trim())
+    .map((chunk, index) => {
+      const [start, end] = chunk.timestamp;
+      return {
+        id: `offline-${speaker}-${windowIndex}-${index}`,
+        speaker,
+        text: chunk.text.trim(),
+        final: true,
+        startMs: Math.round(offsetMs + start * 1000),
+        endMs: Math.round(offsetMs + (end ?? windowDurationSeconds) * 1000),
+      };
+    });
+};
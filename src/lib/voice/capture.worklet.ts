@@ -0,0 +1,32 @@
+import { CAPTURE_PROCESSOR_NAME, FrameEncoder } from './pcm';
+import type { FrameAudioFormat } from './types';
+
+// AudioWorkletGlobalScope is not part of the DOM lib.
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor): void;
+
+/** Posts one encoded 20 ms frame (ArrayBuffer) per message to the main thread. */
+class CaptureProcessor extends AudioWorkletProcessor {
+  private readonly encoder: FrameEncoder;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super();
+    const format = (options.processorOptions?.format ?? 'pcm16') as FrameAudioFormat;
+    this.encoder = new FrameEncoder(sampleRate, format);
+  }
+
+  process(inputs: Float32Array[][]) {
+    const channel = inputs[0]?.[0];
+    if (channel) {
+      for (const frame of this.encoder.push(channel)) {
+        this.port.postMessage(frame, [frame]);
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor(CAPTURE_PROCESSOR_NAME, CaptureProcessor);
@@ -0,0 +1,21 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_DEVICE_PREFERENCES, loadDevicePreferences, saveDevicePreferences } from './devices';
+
+describe('device preferences', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('round-trips per user', () => {
+    saveDevicePreferences('user-1', { inputDeviceId: 'headset-mic', outputDeviceId: null });
+
+    expect(loadDevicePreferences('user-1')).toEqual({ inputDeviceId: 'headset-mic', outputDeviceId: null });
+    expect(loadDevicePreferences('user-2')).toEqual(DEFAULT_DEVICE_PREFERENCES);
+  });
+
+  it('falls back to the defaults for signed-out users and corrupt entries', () => {
+    saveDevicePreferences(undefined, { inputDeviceId: 'x', outputDeviceId: 'y' });
+    localStorage.setItem('voice-devices:user-1', '{not json');
+
+    expect(loadDevicePreferences(undefined)).toEqual(DEFAULT_DEVICE_PREFERENCES);
+    expect(loadDevicePreferences('user-1')).toEqual(DEFAULT_DEVICE_PREFERENCES);
+  });
+});
@@ -0,0 +1,67 @@
+export interface AudioDevicePreferences {
+  /** `null` means the system default device. */
+  inputDeviceId: string | null;
+  outputDeviceId: string | null;
+}
+
+export interface AudioDeviceLists {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+}
+
+const STORAGE_KEY_PREFIX = 'voice-devices';
+
+export const DEFAULT_DEVICE_PREFERENCES: AudioDevicePreferences = {
+  inputDeviceId: null,
+  outputDeviceId: null,
+};
+
+/** Chrome and Edge can route an AudioContext to a chosen output; Firefox and Safari can't yet. */
+export const supportsOutputSelection = () =>
+  typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+
+/**
+ * Lists microphones and speakers. Labels are empty until the page has been
+ * granted microphone access, so callers should refresh once a call starts.
+ */
+export const listAudioDevices = async (): Promise<AudioDeviceLists> => {
+  if (!navigator.mediaDevices?.enumerateDevices) {
+    return { inputs: [], outputs: [] };
+  }
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    inputs: devices.filter(device => device.kind === 'audioinput'),
+    outputs: devices.filter(device => device.kind === 'audiooutput'),
+  };
+};
+
+export const deviceLabel = (device: MediaDeviceInfo, index: number) =>
+  device.label || `${device.kind === 'audioinput' ? 'Microphone' : 'Speaker'} ${index + 1}`;
+
+const storageKey = (userId: string) => `${STORAGE_KEY_PREFIX}:${userId}`;
+
+const asDeviceId = (value: unknown) => (typeof value === 'string' && value ? value : null);
+
+export const loadDevicePreferences = (userId: string | undefined): AudioDevicePreferences => {
+  if (!userId) {
+    return DEFAULT_DEVICE_PREFERENCES;
+  }
+
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(userId)) ?? 'null');
+    if (stored && typeof stored === 'object') {
+      return {
+        inputDeviceId: asDeviceId(stored.inputDeviceId),
+        outputDeviceId: asDeviceId(stored.outputDeviceId),
+      };
+    }
+  } catch {
+    // Corrupt entry: fall back to defaults and let the next save overwrite it.
+  }
+  return DEFAULT_DEVICE_PREFERENCES;
+};
+
+export const saveDevicePreferences = (userId: string | undefined, preferences: AudioDevicePreferences) => {
+  if (!userId) return;
+  localStorage.setItem(storageKey(userId), JSON.stringify(preferences));
+};
@@ -0,0 +1,25 @@
+type Listener<T> = (payload: T) => void;
+
+export class TypedEmitter<Events extends object> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    if (!this.listeners[event]) {
+      this.listeners[event] = new Set();
+    }
+    this.listeners[event].add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>) {
+    this.listeners[event]?.delete(listener);
+  }
+
+  removeAllListeners() {
+    this.listeners = {};
+  }
+
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]) {
+    this.listeners[event]?.forEach(listener => listener(payload));
+  }
+}
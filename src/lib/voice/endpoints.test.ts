@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_VOICE_SERVERS, parseVoiceServerSettings, resolveEndpointUrl, voiceEnvironments } from './endpoints';
+
+describe('parseVoiceServerSettings', () => {
+  it('uses the build-time defaults until an admin saves the setting', () => {
+    expect(parseVoiceServerSettings(null)).toEqual(DEFAULT_VOICE_SERVERS);
+  });
+
+  it('reads the saved URLs and default server', () => {
+    const servers = parseVoiceServerSettings({
+      urls: { local: '', staging: ' wss://staging.example.com/stream ', prod: 'wss://voice.example.com/stream' },
+      defaultEnvironment: 'prod',
+    });
+
+    expect(servers).toEqual({
+      urls: { local: '', staging: 'wss://staging.example.com/stream', prod: 'wss://voice.example.com/stream' },
+      defaultEnvironment: 'prod',
+    });
+  });
+
+  it('keeps the default for anything missing or malformed', () => {
+    const servers = parseVoiceServerSettings({ urls: { prod: 42 }, defaultEnvironment: 'custom' });
+
+    expect(servers).toEqual(DEFAULT_VOICE_SERVERS);
+  });
+});
+
+describe('resolveEndpointUrl', () => {
+  const servers = parseVoiceServerSettings({ urls: { staging: 'wss://staging.example.com/stream' } });
+
+  it('connects to the shared server the operator picked', () => {
+    expect(resolveEndpointUrl({ environment: 'staging', customUrl: '' }, servers)).toBe('wss://staging.example.com/stream');
+  });
+
+  it("connects to the operator's own URL", () => {
+    expect(resolveEndpointUrl({ environment: 'custom', customUrl: ' ws://10.0.0.5:6543/stream ' }, servers)).toBe(
+      'ws://10.0.0.5:6543/stream'
+    );
+  });
+
+  it('lists the shared servers and the custom option', () => {
+    expect(voiceEnvironments(servers).map(environment => environment.id)).toEqual(['local', 'staging', 'prod', 'custom']);
+  });
+});
@@ -0,0 +1,123 @@
+export type VoiceEnvironmentId = 'local' | 'staging' | 'prod' | 'custom';
+
+/** The environments every operator shares; `custom` is each operator's own. */
+export type SharedVoiceEnvironmentId = Exclude<VoiceEnvironmentId, 'custom'>;
+
+export interface VoiceEnvironment {
+  id: VoiceEnvironmentId;
+  label: string;
+  url: string;
+}
+
+export interface EndpointSettings {
+  environment: VoiceEnvironmentId;
+  customUrl: string;
+}
+
+/** The admin-managed `voice_servers` setting. */
+export interface VoiceServerSettings {
+  urls: Record<SharedVoiceEnvironmentId, string>;
+  /** Where operators who haven't picked a server connect. */
+  defaultEnvironment: SharedVoiceEnvironmentId;
+}
+
+const DEFAULT_LOCAL_URL = 'ws://localhost:6543/voice/ws/browser/stream';
+const STORAGE_KEY_PREFIX = 'voice-endpoint';
+
+export const VOICE_ENVIRONMENT_LABELS: Record<VoiceEnvironmentId, string> = {
+  local: 'Local',
+  staging: 'Staging',
+  prod: 'Production',
+  custom: 'Custom URL',
+};
+
+export const SHARED_VOICE_ENVIRONMENTS: SharedVoiceEnvironmentId[] = ['local', 'staging', 'prod'];
+
+const isEnvironmentId = (value: unknown): value is VoiceEnvironmentId =>
+  typeof value === 'string' && value in VOICE_ENVIRONMENT_LABELS;
+
+const isSharedEnvironmentId = (value: unknown): value is SharedVoiceEnvironmentId =>
+  isEnvironmentId(value) && value !== 'custom';
+
+/** Build-time defaults, used until an admin saves the setting. */
+export const DEFAULT_VOICE_SERVERS: VoiceServerSettings = {
+  urls: {
+    local: import.meta.env.VITE_VOICE_WS_URL_LOCAL || DEFAULT_LOCAL_URL,
+    staging: import.meta.env.VITE_VOICE_WS_URL_STAGING || '',
+    prod: import.meta.env.VITE_VOICE_WS_URL_PROD || '',
+  },
+  defaultEnvironment: isSharedEnvironmentId(import.meta.env.VITE_VOICE_ENVIRONMENT) ? import.meta.env.VITE_VOICE_ENVIRONMENT : 'local',
+};
+
+/** Reads a stored `voice_servers` value; anything missing or malformed keeps its default. */
+export const parseVoiceServerSettings = (value: unknown): VoiceServerSettings => {
+  const stored = (value ?? {}) as { urls?: Record<string, unknown>; defaultEnvironment?: unknown };
+  const urls = { ...DEFAULT_VOICE_SERVERS.urls };
+  for (const id of SHARED_VOICE_ENVIRONMENTS) {
+    const url = stored.urls?.[id];
+    if (typeof url === 'string') {
+      urls[id] = url.trim();
+    }
+  }
+  return {
+    urls,
+    defaultEnvironment: isSharedEnvironmentId(stored.defaultEnvironment)
+      ? stored.defaultEnvironment
+      : DEFAULT_VOICE_SERVERS.defaultEnvironment,
+  };
+};
+
+export const voiceEnvironments = (servers: VoiceServerSettings): VoiceEnvironment[] => [
+  ...SHARED_VOICE_ENVIRONMENTS.map(id => ({ id, label: VOICE_ENVIRONMENT_LABELS[id], url: servers.urls[id] })),
+  { id: 'custom', label: VOICE_ENVIRONMENT_LABELS.custom, url: '' },
+];
+
+/** Returns a human-readable problem with `value`, or null when it is a usable ws:// or wss:// URL. */
+export const validateWebSocketUrl = (value: string): string | null => {
+  if (!value.trim()) {
+    return 'No server URL configured';
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return `Invalid server URL: ${value}`;
+  }
+
+  if (url.protocol !== 'ws:' && url.protocol !== 'wss:') {
+    return `Server URL must start with ws:// or wss:// (got ${url.protocol}//)`;
+  }
+
+  return null;
+};
+
+export const resolveEndpointUrl = (settings: EndpointSettings, servers: VoiceServerSettings) =>
+  settings.environment === 'custom' ? settings.customUrl.trim() : servers.urls[settings.environment];
+
+const storageKey = (userId: string) => `${STORAGE_KEY_PREFIX}:${userId}`;
+
+/** The operator's own choice of server; null until they make one, so the shared default applies. */
+export const loadEndpointSettings = (userId: string | undefined): EndpointSettings | null => {
+  if (!userId) {
+    return null;
+  }
+
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(userId)) ?? 'null');
+    if (stored && isEnvironmentId(stored.environment)) {
+      return {
+        environment: stored.environment,
+        customUrl: typeof stored.customUrl === 'string' ? stored.customUrl : '',
+      };
+    }
+  } catch {
+    // Corrupt entry: fall back to defaults and let the next save overwrite it.
+  }
+  return null;
+};
+
+export const saveEndpointSettings = (userId: string | undefined, settings: EndpointSettings) => {
+  if (!userId) return;
+  localStorage.setItem(storageKey(userId), JSON.stringify(settings));
+};
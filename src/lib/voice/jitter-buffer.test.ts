@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { JitterBuffer } from './jitter-buffer';
+
+describe('JitterBuffer', () => {
+  let released: number[];
+  let gap: ReturnType<typeof vi.fn>;
+  let reset: ReturnType<typeof vi.fn>;
+  let buffer: JitterBuffer<number>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    released = [];
+    gap = vi.fn();
+    reset = vi.fn();
+    buffer = new JitterBuffer<number>(
+      { targetDelayMs: 100, gapTimeoutMs: 300 },
+      { release: item => released.push(item), gap, reset }
+    );
+  });
+
+  it('holds the first chunk for the target delay, then plays in order', () => {
+    buffer.push(0, 0);
+    vi.advanceTimersByTime(99);
+    expect(released).toEqual([]);
+
+    vi.advanceTimersByTime(1);
+    expect(released).toEqual([0]);
+
+    buffer.push(1, 1);
+    expect(released).toEqual([0, 1]);
+  });
+
+  it('reorders chunks that arrive within the target delay', () => {
+    buffer.push(1, 1);
+    buffer.push(0, 0);
+    buffer.push(2, 2);
+    vi.advanceTimersByTime(100);
+
+    expect(released).toEqual([0, 1, 2]);
+    expect(buffer.stats).toMatchObject({ received: 3, released: 3, reordered: 1, lost: 0 });
+  });
+
+  it('skips a missing seq after the gap timeout and drops it if it turns up late', () => {
+    buffer.push(0, 0);
+    buffer.push(2, 2);
+    buffer.push(3, 3);
+    vi.advanceTimersByTime(100);
+    expect(released).toEqual([0]);
+
+    vi.advanceTimersByTime(300);
+    expect(released).toEqual([0, 2, 3]);
+    expect(gap).toHaveBeenCalledWith(1, 1);
+
+    buffer.push(1, 1);
+    expect(released).toEqual([0, 2, 3]);
+    expect(buffer.stats).toMatchObject({ lost: 1, late: 1 });
+  });
+
+  it('treats seq 0 as a new utterance once the previous one has played out', () => {
+    buffer.push(0, 0);
+    buffer.push(1, 1);
+    vi.advanceTimersByTime(100);
+    expect(released).toEqual([0, 1]);
+
+    vi.advanceTimersByTime(301);
+    buffer.push(0, 10);
+    expect(reset).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(100);
+    expect(released).toEqual([0, 1, 10]);
+    expect(buffer.stats).toMatchObject({ late: 0, resets: 1 });
+  });
+
+  it('starts a new utterance when the utterance id changes, playing out what is left first', () => {
+    buffer.push(0, 0, 'a');
+    buffer.push(1, 1, 'a');
+    buffer.push(3, 3, 'a');
+    vi.advanceTimersByTime(100);
+    expect(released).toEqual([0, 1]);
+
+    buffer.push(0, 10, 'b');
+    expect(released).toEqual([0, 1, 3]);
+    expect(reset).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(100);
+    buffer.push(2, 2, 'a');
+    expect(released).toEqual([0, 1, 3, 10]);
+    expect(buffer.stats).toMatchObject({ lost: 1, late: 1, resets: 1 });
+  });
+
+  it('drops a seq 0 that turns up after it was skipped, without restarting the numbering', () => {
+    buffer.push(1, 1);
+    buffer.push(2, 2);
+    vi.advanceTimersByTime(400);
+    expect(released).toEqual([1, 2]);
+    expect(gap).toHaveBeenCalledWith(0, 0);
+
+    vi.advanceTimersByTime(50);
+    buffer.push(0, 0);
+    buffer.push(3, 3);
+
+    expect(released).toEqual([1, 2, 3]);
+    expect(reset).not.toHaveBeenCalled();
+    expect(buffer.stats).toMatchObject({ late: 1, resets: 0 });
+  });
+
+  it('drops a duplicate seq 0 mid-utterance and keeps the chunks waiting behind a gap', () => {
+    buffer.push(0, 0);
+    vi.advanceTimersByTime(100);
+    buffer.push(2, 2);
+
+    vi.advanceTimersByTime(250);
+    buffer.push(0, 0);
+    buffer.push(1, 1);
+
+    expect(released).toEqual([0, 1, 2]);
+    expect(reset).not.toHaveBeenCalled();
+    expect(buffer.stats).toMatchObject({ late: 1, lost: 0, resets: 0 });
+  });
+
+  it('counts duplicates without releasing them twice', () => {
+    buffer.push(1, 1);
+    buffer.push(1, 1);
+    vi.advanceTimersByTime(100);
+    buffer.push(0, 0);
+
+    expect(released).toEqual([0, 1]);
+    expect(buffer.stats.duplicates).toBe(1);
+  });
+
+  it('clear() drops pending chunks but keeps the sequence position', () => {
+    buffer.push(0, 0);
+    vi.advanceTimersByTime(100);
+    buffer.push(2, 2);
+
+    buffer.clear();
+    buffer.push(3, 3);
+    vi.advanceTimersByTime(100);
+
+    expect(released).toEqual([0, 3]);
+    expect(gap).not.toHaveBeenCalled();
+  });
+});
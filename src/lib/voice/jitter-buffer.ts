@@ -0,0 +1,192 @@
+import type { JitterBufferOptions, JitterBufferStats } from './types';
+
+export interface JitterBufferCallbacks<T> {
+  release: (item: T, seq: number) => void;
+  gap?: (fromSeq: number, toSeq: number) => void;
+  reset?: () => void;
+}
+
+export const DEFAULT_JITTER_BUFFER_OPTIONS: JitterBufferOptions = {
+  targetDelayMs: 100,
+  gapTimeoutMs: 500,
+};
+
+const emptyStats = (): JitterBufferStats => ({
+  received: 0,
+  released: 0,
+  reordered: 0,
+  late: 0,
+  lost: 0,
+  duplicates: 0,
+  resets: 0,
+});
+
+/**
+ * Reorders `seq`-numbered TTS chunks and releases them strictly in order.
+ * Playout of an utterance starts `targetDelayMs` after its first chunk
+ * arrives; a missing seq then holds up later chunks for at most
+ * `gapTimeoutMs` before it is skipped and reported as a gap. The server
+ * numbers each utterance from 0. When it tags chunks with an utterance id, a
+ * new id starts a new utterance. Without ids, a seq 0 only starts one once
+ * nothing is pending and the current seq 0 was released or skipped more than
+ * `gapTimeoutMs` ago; otherwise it is a late or duplicate chunk.
+ */
+export class JitterBuffer<T> {
+  private readonly options: JitterBufferOptions;
+  private pending = new Map<number, T>();
+  private nextSeq = 0;
+  private highestSeq = -1;
+  private utterance: string | null = null;
+  private finishedUtterances = new Set<string>();
+  /** When the current utterance's seq 0 was released or skipped. */
+  private firstSeqDoneAt: number | null = null;
+  private playing = false;
+  private startTimer: ReturnType<typeof setTimeout> | null = null;
+  private gapTimer: ReturnType<typeof setTimeout> | null = null;
+  private _stats = emptyStats();
+
+  constructor(options: Partial<JitterBufferOptions>, private readonly callbacks: JitterBufferCallbacks<T>) {
+    this.options = { ...DEFAULT_JITTER_BUFFER_OPTIONS, ...options };
+  }
+
+  get stats(): JitterBufferStats {
+    return { ...this._stats };
+  }
+
+  push(seq: number, item: T, utterance?: string) {
+    this._stats.received++;
+
+    if (utterance !== undefined) {
+      if (this.finishedUtterances.has(utterance)) {
+        this._stats.late++;
+        return;
+      }
+      if (this.utterance !== null && utterance !== this.utterance) {
+        this.finishedUtterances.add(this.utterance);
+        this.startNewUtterance();
+      }
+      this.utterance = utterance;
+    } else if (seq === 0 && this.isUntaggedNewUtterance()) {
+      this.startNewUtterance();
+    }
+
+    if (seq < this.nextSeq) {
+      this._stats.late++;
+      return;
+    }
+    if (this.pending.has(seq)) {
+      this._stats.duplicates++;
+      return;
+    }
+    if (seq < this.highestSeq) {
+      this._stats.reordered++;
+    }
+
+    this.highestSeq = Math.max(this.highestSeq, seq);
+    this.pending.set(seq, item);
+
+    if (this.playing) {
+      this.drain();
+    } else if (!this.startTimer) {
+      this.startTimer = setTimeout(() => {
+        this.startTimer = null;
+        this.playing = true;
+        this.drain();
+      }, this.options.targetDelayMs);
+    }
+  }
+
+  /**
+   * Drops everything not yet released (e.g. after barge-in) while keeping the
+   * sequence position, so a continuing stream is not mistaken for loss.
+   */
+  clear() {
+    this.clearTimers();
+    this.pending.clear();
+    this.playing = false;
+    this.nextSeq = this.highestSeq + 1;
+  }
+
+  dispose() {
+    this.clearTimers();
+    this.pending.clear();
+  }
+
+  private isUntaggedNewUtterance() {
+    return (
+      this.nextSeq > 0 &&
+      this.pending.size === 0 &&
+      this.firstSeqDoneAt !== null &&
+      Date.now() - this.firstSeqDoneAt > this.options.gapTimeoutMs
+    );
+  }
+
+  private startNewUtterance() {
+    // Whatever is left of the previous utterance plays out before the new one.
+    const leftovers = [...this.pending.keys()].sort((a, b) => a - b);
+    for (const seq of leftovers) {
+      this.skipTo(seq);
+      this.releaseNext();
+    }
+
+    this.clearTimers();
+    this.pending.clear();
+    this.nextSeq = 0;
+    this.highestSeq = -1;
+    this.firstSeqDoneAt = null;
+    this.playing = false;
+    this._stats.resets++;
+    this.callbacks.reset?.();
+  }
+
+  private drain() {
+    while (this.pending.has(this.nextSeq)) {
+      this.releaseNext();
+    }
+
+    if (this.pending.size === 0) {
+      this.clearGapTimer();
+      return;
+    }
+
+    if (!this.gapTimer) {
+      this.gapTimer = setTimeout(() => {
+        this.gapTimer = null;
+        this.skipTo(Math.min(...this.pending.keys()));
+        this.drain();
+      }, this.options.gapTimeoutMs);
+    }
+  }
+
+  private releaseNext() {
+    const item = this.pending.get(this.nextSeq) as T;
+    this.pending.delete(this.nextSeq);
+    this._stats.released++;
+    this.callbacks.release(item, this.nextSeq);
+    if (this.nextSeq === 0) this.firstSeqDoneAt = Date.now();
+    this.nextSeq++;
+  }
+
+  private skipTo(seq: number) {
+    if (seq <= this.nextSeq) return;
+    this._stats.lost += seq - this.nextSeq;
+    this.callbacks.gap?.(this.nextSeq, seq - 1);
+    if (this.nextSeq === 0) this.firstSeqDoneAt = Date.now();
+    this.nextSeq = seq;
+  }
+
+  private clearGapTimer() {
+    if (this.gapTimer) {
+      clearTimeout(this.gapTimer);
+      this.gapTimer = null;
+    }
+  }
+
+  private clearTimers() {
+    this.clearGapTimer();
+    if (this.startTimer) {
+      clearTimeout(this.startTimer);
+      this.startTimer = null;
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { LevelMonitor, SILENCE, measureLevel, meterHeight } from './levels';
+import { FakeAnalyserNode } from '@/test/fakes';
+
+const level = (rmsDbfs: number, peak = 0.1) => ({ rmsDbfs, peak });
+
+describe('measureLevel', () => {
+  it('reports RMS in dBFS and the peak sample', () => {
+    const analyser = new FakeAnalyserNode();
+    analyser.level = 0.5;
+
+    const measured = measureLevel(analyser as unknown as AnalyserNode);
+
+    expect(measured.rmsDbfs).toBeCloseTo(-6.02, 1);
+    expect(measured.peak).toBe(0.5);
+  });
+});
+
+describe('meterHeight', () => {
+  it('maps -60…0 dBFS onto 0…1 and clamps outside it', () => {
+    expect(meterHeight(SILENCE)).toBe(0);
+    expect(meterHeight(level(-30))).toBe(0.5);
+    expect(meterHeight(level(6))).toBe(1);
+  });
+});
+
+describe('LevelMonitor', () => {
+  it('warns about clipping and holds the warning for two seconds', () => {
+    const monitor = new LevelMonitor();
+
+    expect(monitor.update(level(-3, 1), 0)).toBe('clipping');
+    expect(monitor.update(level(-20), 1900)).toBe('clipping');
+    expect(monitor.update(level(-20), 2000)).toBeNull();
+  });
+
+  it('warns only after the mic has been near-silent for five seconds', () => {
+    const monitor = new LevelMonitor();
+
+    expect(monitor.update(SILENCE, 0)).toBeNull();
+    expect(monitor.update(SILENCE, 4900)).toBeNull();
+    expect(monitor.update(SILENCE, 5000)).toBe('too-quiet');
+  });
+
+  it('restarts the quiet timer when the caller speaks', () => {
+    const monitor = new LevelMonitor();
+
+    monitor.update(SILENCE, 0);
+    monitor.update(level(-25), 4000);
+
+    expect(monitor.update(SILENCE, 6000)).toBeNull();
+    expect(monitor.update(SILENCE, 11000)).toBe('too-quiet');
+  });
+});
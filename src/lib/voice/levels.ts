@@ -0,0 +1,75 @@
+export interface AudioLevel {
+  /** RMS level in dBFS; -Infinity for digital silence. */
+  rmsDbfs: number;
+  /** Largest absolute sample, 0–1. */
+  peak: number;
+}
+
+export type LevelWarning = 'clipping' | 'too-quiet';
+
+export const SILENCE: AudioLevel = { rmsDbfs: -Infinity, peak: 0 };
+
+/** Bottom of the meter; anything quieter draws as an empty bar. */
+const METER_FLOOR_DBFS = -60;
+
+const CLIPPING_PEAK = 0.98;
+/** How long a clipping warning stays up after the last clipped block. */
+const CLIPPING_HOLD_MS = 2000;
+export const TOO_QUIET_DBFS = -55;
+/** Silence shorter than this is just the caller listening. */
+const TOO_QUIET_AFTER_MS = 5000;
+
+const buffers = new WeakMap<AnalyserNode, Float32Array>();
+
+export const measureLevel = (analyser: AnalyserNode): AudioLevel => {
+  let samples = buffers.get(analyser);
+  if (!samples || samples.length !== analyser.fftSize) {
+    samples = new Float32Array(analyser.fftSize);
+    buffers.set(analyser, samples);
+  }
+  analyser.getFloatTimeDomainData(samples);
+
+  let sum = 0;
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const sample = samples[i];
+    sum += sample * sample;
+    peak = Math.max(peak, Math.abs(sample));
+  }
+  return { rmsDbfs: 20 * Math.log10(Math.sqrt(sum / samples.length)), peak };
+};
+
+/** Maps a level to 0–1 for drawing, on a dB scale so quiet speech is still visible. */
+export const meterHeight = (level: AudioLevel) =>
+  Math.min(1, Math.max(0, (level.rmsDbfs - METER_FLOOR_DBFS) / -METER_FLOOR_DBFS));
+
+/**
+ * Watches the microphone level for problems worth telling the operator
+ * about: clipping (input gain too high) and a mic that has been near-silent
+ * for several seconds (muted, wrong device, or unplugged).
+ */
+export class LevelMonitor {
+  private lastClipAt = -Infinity;
+  private quietSince: number | null = null;
+
+  update(mic: AudioLevel, timeMs: number): LevelWarning | null {
+    if (mic.peak >= CLIPPING_PEAK) {
+      this.lastClipAt = timeMs;
+    }
+    if (mic.rmsDbfs < TOO_QUIET_DBFS) {
+      if (this.quietSince === null) {
+        this.quietSince = timeMs;
+      }
+    } else {
+      this.quietSince = null;
+    }
+
+    if (timeMs - this.lastClipAt < CLIPPING_HOLD_MS) {
+      return 'clipping';
+    }
+    if (this.quietSince !== null && timeMs - this.quietSince >= TOO_QUIET_AFTER_MS) {
+      return 'too-quiet';
+    }
+    return null;
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MIC_PROCESSING, NoiseGate, describeAppliedConstraints, formatMicReport } from './mic';
+
+const track = (settings: MediaTrackSettings) => ({ getSettings: () => settings }) as unknown as MediaStreamTrack;
+
+describe('describeAppliedConstraints', () => {
+  it('reports constraints the browser did not honour or does not expose', () => {
+    const options = { ...DEFAULT_MIC_PROCESSING, noiseSuppression: false };
+
+    const report = describeAppliedConstraints(track({ echoCancellation: true, noiseSuppression: true }), options);
+
+    expect(report.requested).toEqual({ echoCancellation: true, noiseSuppression: false, autoGainControl: true });
+    expect(report.applied).toEqual({ echoCancellation: true, noiseSuppression: true });
+    expect(report.mismatched).toEqual(['noiseSuppression', 'autoGainControl']);
+  });
+
+  it('formats a one-line summary', () => {
+    const report = {
+      ...describeAppliedConstraints(track({ echoCancellation: true, noiseSuppression: true, autoGainControl: false }), DEFAULT_MIC_PROCESSING),
+      highPass: true,
+      noiseGate: false,
+    };
+
+    expect(formatMicReport(report)).toBe(
+      'Mic processing: echoCancellation on, noiseSuppression on, autoGainControl off (requested on); in-browser stages: high-pass'
+    );
+  });
+});
+
+describe('NoiseGate', () => {
+  const block = (amplitude: number) => new Float32Array(128).fill(amplitude);
+
+  it('mutes blocks below the threshold and passes speech', () => {
+    const gate = new NoiseGate(16000, -40);
+    const output = new Float32Array(128);
+
+    gate.process(block(0.001), output);
+    expect(Math.max(...output)).toBe(0);
+
+    for (let i = 0; i < 10; i++) gate.process(block(0.5), output);
+    expect(gate.isOpen).toBe(true);
+    expect(output[127]).toBeCloseTo(0.5, 2);
+  });
+
+  it('holds open briefly after speech before closing', () => {
+    const gate = new NoiseGate(16000, -40, { holdMs: 16 });
+    const output = new Float32Array(128);
+
+    gate.process(block(0.5), output);
+    gate.process(block(0.001), output);
+    expect(gate.isOpen).toBe(true);
+
+    gate.process(block(0.001), output);
+    expect(gate.isOpen).toBe(false);
+  });
+});
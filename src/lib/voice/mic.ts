@@ -0,0 +1,106 @@
+import { rmsLevel } from './vad';
+import type { MicConstraintName, MicProcessingOptions, MicProcessingReport } from './types';
+
+export const NOISE_GATE_PROCESSOR_NAME = 'voice-noise-gate';
+
+export const MIC_CONSTRAINTS: MicConstraintName[] = ['echoCancellation', 'noiseSuppression', 'autoGainControl'];
+
+export const DEFAULT_MIC_PROCESSING: MicProcessingOptions = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  highPass: false,
+  highPassHz: 100,
+  noiseGate: false,
+  noiseGateThresholdDbfs: -50,
+};
+
+/** `getUserMedia` audio constraints for the requested browser-side processing. */
+export const buildAudioConstraints = (options: MicProcessingOptions): MediaTrackConstraints => ({
+  echoCancellation: options.echoCancellation,
+  noiseSuppression: options.noiseSuppression,
+  autoGainControl: options.autoGainControl,
+});
+
+/**
+ * Compares the requested constraints with what the track reports. Browsers
+ * treat these as hints, so e.g. Safari may keep echo cancellation on when
+ * asked to turn it off, and some don't report the settings at all.
+ */
+export const describeAppliedConstraints = (
+  track: MediaStreamTrack,
+  options: MicProcessingOptions
+): Omit<MicProcessingReport, 'highPass' | 'noiseGate'> => {
+  const settings = track.getSettings?.() ?? {};
+  const requested = {} as Record<MicConstraintName, boolean>;
+  const applied: Partial<Record<MicConstraintName, boolean>> = {};
+  const mismatched: MicConstraintName[] = [];
+
+  for (const name of MIC_CONSTRAINTS) {
+    requested[name] = options[name];
+    const value = settings[name];
+    if (typeof value === 'boolean') {
+      applied[name] = value;
+    }
+    if (applied[name] !== options[name]) {
+      mismatched.push(name);
+    }
+  }
+
+  return { requested, applied, mismatched };
+};
+
+const describeValue = (value: boolean | undefined) => (value === undefined ? 'unknown' : value ? 'on' : 'off');
+
+export const formatMicReport = (report: MicProcessingReport) => {
+  const constraints = MIC_CONSTRAINTS.map(name => {
+    const applied = describeValue(report.applied[name]);
+    return report.mismatched.includes(name)
+      ? `${name} ${applied} (requested ${describeValue(report.requested[name])})`
+      : `${name} ${applied}`;
+  });
+  const stages = [report.highPass && 'high-pass', report.noiseGate && 'noise gate'].filter(Boolean);
+  return `Mic processing: ${constraints.join(', ')}; in-browser stages: ${stages.length > 0 ? stages.join(', ') : 'none'}`;
+};
+
+/**
+ * Block-based noise gate: opens as soon as a block is louder than the
+ * threshold, stays open for `holdMs` so word endings aren't clipped, and
+ * ramps the gain to avoid clicks.
+ */
+export class NoiseGate {
+  private readonly attackCoeff: number;
+  private readonly releaseCoeff: number;
+  private readonly holdSamples: number;
+  private holdRemaining = 0;
+  private gain = 0;
+
+  constructor(
+    sampleRate: number,
+    private readonly thresholdDbfs: number,
+    { attackMs = 5, releaseMs = 80, holdMs = 150 } = {}
+  ) {
+    this.attackCoeff = 1 - Math.exp(-1 / ((sampleRate * attackMs) / 1000));
+    this.releaseCoeff = 1 - Math.exp(-1 / ((sampleRate * releaseMs) / 1000));
+    this.holdSamples = Math.round((sampleRate * holdMs) / 1000);
+  }
+
+  get isOpen() {
+    return this.holdRemaining > 0;
+  }
+
+  process(input: Float32Array, output: Float32Array) {
+    if (rmsLevel(input) >= this.thresholdDbfs) {
+      this.holdRemaining = this.holdSamples;
+    } else {
+      this.holdRemaining = Math.max(0, this.holdRemaining - input.length);
+    }
+
+    const target = this.holdRemaining > 0 ? 1 : 0;
+    const coeff = target > this.gain ? this.attackCoeff : this.releaseCoeff;
+    for (let i = 0; i < input.length; i++) {
+      this.gain += (target - this.gain) * coeff;
+      output[i] = input[i] * this.gain;
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { NOISE_GATE_PROCESSOR_NAME, NoiseGate } from './mic';
+
+// AudioWorkletGlobalScope is not part of the DOM lib.
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor): void;
+
+/** Passes the mic through a NoiseGate, one gate per channel. */
+class NoiseGateProcessor extends AudioWorkletProcessor {
+  private readonly thresholdDbfs: number;
+  private gates: NoiseGate[] = [];
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super();
+    this.thresholdDbfs = options.processorOptions?.thresholdDbfs ?? -50;
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][]) {
+    const input = inputs[0] ?? [];
+    const output = outputs[0] ?? [];
+    for (let channel = 0; channel < Math.min(input.length, output.length); channel++) {
+      if (!this.gates[channel]) {
+        this.gates[channel] = new NoiseGate(sampleRate, this.thresholdDbfs);
+      }
+      this.gates[channel].process(input[channel], output[channel]);
+    }
+    return true;
+  }
+}
+
+registerProcessor(NOISE_GATE_PROCESSOR_NAME, NoiseGateProcessor);
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { FrameEncoder, floatToPcm16, linearToMulaw, mulawToLinear, samplesPerFrame } from './pcm';
+
+describe('μ-law codec', () => {
+  it('round-trips within G.711 quantisation error', () => {
+    for (const sample of [0, 100, -100, 1000, -1000, 8000, -8000, 32000, -32000]) {
+      const decoded = mulawToLinear(linearToMulaw(sample));
+      expect(Math.abs(decoded - sample)).toBeLessThanOrEqual(Math.max(8, Math.abs(sample) * 0.07));
+    }
+  });
+
+  it('encodes silence as 0xFF', () => {
+    expect(linearToMulaw(0)).toBe(0xff);
+  });
+});
+
+describe('floatToPcm16', () => {
+  it('clamps and scales to the int16 range', () => {
+    expect(floatToPcm16(1)).toBe(32767);
+    expect(floatToPcm16(-1)).toBe(-32768);
+    expect(floatToPcm16(2)).toBe(32767);
+    expect(floatToPcm16(0)).toBe(0);
+  });
+});
+
+describe('FrameEncoder', () => {
+  const quanta = (count: number, value = 0.5) => Array.from({ length: count }, () => new Float32Array(128).fill(value));
+
+  it('emits 20 ms PCM16 frames at 16 kHz from 48 kHz input', () => {
+    const encoder = new FrameEncoder(48000, 'pcm16');
+    // 48 kHz * 20 ms = 960 input samples = 7.5 render quanta per frame.
+    const frames = quanta(15).flatMap(quantum => encoder.push(quantum));
+
+    expect(samplesPerFrame('pcm16')).toBe(320);
+    expect(frames).toHaveLength(2);
+    expect(frames[0].byteLength).toBe(640);
+    expect(new DataView(frames[0]).getInt16(2, true)).toBe(floatToPcm16(0.5));
+  });
+
+  it('emits 160-byte μ-law frames at 8 kHz', () => {
+    const encoder = new FrameEncoder(48000, 'mulaw');
+    const frames = quanta(15).flatMap(quantum => encoder.push(quantum));
+
+    expect(frames).toHaveLength(2);
+    expect(frames[0].byteLength).toBe(160);
+  });
+});
@@ -0,0 +1,116 @@
+import type { FrameAudioFormat } from './types';
+
+/** Name the capture AudioWorklet registers its processor under. */
+export const CAPTURE_PROCESSOR_NAME = 'voice-capture';
+
+/** Duration of one binary audio frame sent to the server. */
+export const FRAME_DURATION_MS = 20;
+
+export interface FrameFormatSpec {
+  encoding: 'audio/l16' | 'audio/x-mulaw';
+  sampleRate: number;
+  bytesPerSample: number;
+}
+
+export const FRAME_FORMATS: Record<FrameAudioFormat, FrameFormatSpec> = {
+  pcm16: { encoding: 'audio/l16', sampleRate: 16000, bytesPerSample: 2 },
+  mulaw: { encoding: 'audio/x-mulaw', sampleRate: 8000, bytesPerSample: 1 },
+};
+
+export const samplesPerFrame = (format: FrameAudioFormat) =>
+  (FRAME_FORMATS[format].sampleRate * FRAME_DURATION_MS) / 1000;
+
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 32635;
+
+export const floatToPcm16 = (sample: number) => {
+  const clamped = Math.max(-1, Math.min(1, sample));
+  return clamped < 0 ? Math.round(clamped * 0x8000) : Math.round(clamped * 0x7fff);
+};
+
+/** G.711 μ-law encode of one signed 16-bit sample. */
+export const linearToMulaw = (sample: number) => {
+  const sign = sample < 0 ? 0x80 : 0;
+  let magnitude = Math.min(Math.abs(sample), MULAW_CLIP) + MULAW_BIAS;
+
+  let exponent = 7;
+  let mask = 0x4000;
+  while ((magnitude & mask) === 0 && exponent > 0) {
+    exponent--;
+    mask >>= 1;
+  }
+
+  const mantissa = (magnitude >> (exponent + 3)) & 0x0f;
+  magnitude = sign | (exponent << 4) | mantissa;
+  return ~magnitude & 0xff;
+};
+
+/** G.711 μ-law decode to a signed 16-bit sample. */
+export const mulawToLinear = (value: number) => {
+  const inverted = ~value & 0xff;
+  const sign = inverted & 0x80;
+  const exponent = (inverted >> 4) & 0x07;
+  const mantissa = inverted & 0x0f;
+  const magnitude = (((mantissa << 3) + MULAW_BIAS) << exponent) - MULAW_BIAS;
+  return sign ? -magnitude : magnitude;
+};
+
+/**
+ * Turns an arbitrary-rate float stream (AudioWorklet render quanta) into
+ * fixed 20 ms frames at the target rate, encoded as little-endian PCM16 or
+ * μ-law. Keeps interpolation state between calls so frame boundaries are
+ * seamless.
+ */
+export class FrameEncoder {
+  private readonly step: number;
+  private readonly frameSamples: number;
+  private readonly frame: Int16Array;
+  private filled = 0;
+  private position = 0;
+  private previous = 0;
+
+  constructor(inputSampleRate: number, private readonly format: FrameAudioFormat) {
+    this.step = inputSampleRate / FRAME_FORMATS[format].sampleRate;
+    this.frameSamples = samplesPerFrame(format);
+    this.frame = new Int16Array(this.frameSamples);
+  }
+
+  push(input: Float32Array): ArrayBuffer[] {
+    const frames: ArrayBuffer[] = [];
+
+    // `position` is the next output sample's index into [previous, ...input].
+    while (this.position < input.length) {
+      const index = Math.floor(this.position);
+      const fraction = this.position - index;
+      const left = index === 0 ? this.previous : input[index - 1];
+      const right = input[index];
+      this.frame[this.filled++] = floatToPcm16(left + (right - left) * fraction);
+
+      if (this.filled === this.frameSamples) {
+        frames.push(this.encode());
+        this.filled = 0;
+      }
+      this.position += this.step;
+    }
+
+    this.position -= input.length;
+    this.previous = input[input.length - 1] ?? this.previous;
+    return frames;
+  }
+
+  private encode(): ArrayBuffer {
+    if (this.format === 'mulaw') {
+      const bytes = new Uint8Array(this.frameSamples);
+      for (let i = 0; i < this.frameSamples; i++) {
+        bytes[i] = linearToMulaw(this.frame[i]);
+      }
+      return bytes.buffer;
+    }
+
+    const view = new DataView(new ArrayBuffer(this.frameSamples * 2));
+    for (let i = 0; i < this.frameSamples; i++) {
+      view.setInt16(i * 2, this.frame[i], true);
+    }
+    return view.buffer;
+  }
+}
@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeAudioContext, type FakeGainNode } from '@/test/fakes';
+import { PlaybackQueue } from './playback';
+
+const buffer = (id: number, duration = 0.5) => ({ id, duration }) as unknown as AudioBuffer;
+
+describe('PlaybackQueue', () => {
+  let context: FakeAudioContext;
+  let queue: PlaybackQueue;
+  let speaking: ReturnType<typeof vi.fn>;
+  const output = {} as AudioNode;
+
+  beforeEach(() => {
+    context = new FakeAudioContext();
+    speaking = vi.fn();
+    queue = new PlaybackQueue(
+      context as unknown as AudioContext,
+      [output],
+      { crossfadeMs: 10, scheduleAheadMs: 20 },
+      { log: vi.fn(), speaking }
+    );
+  });
+
+  const startTimes = () => context.sources.map(source => source.startTime);
+
+  it('schedules consecutive chunks back to back, overlapping by the crossfade', () => {
+    queue.enqueue(buffer(0));
+    queue.enqueue(buffer(1));
+    queue.enqueue(buffer(2));
+
+    expect(context.sources.every(source => source.started)).toBe(true);
+    expect(startTimes()[0]).toBeCloseTo(0.02);
+    expect(startTimes()[1]).toBeCloseTo(0.51);
+    expect(startTimes()[2]).toBeCloseTo(1.0);
+  });
+
+  it('fades each chunk in and out', () => {
+    queue.enqueue(buffer(0));
+
+    const envelope = context.sources[0].connections[0] as FakeGainNode;
+    expect(envelope.gain.setValueAtTime).toHaveBeenCalledWith(0, 0.02);
+    expect(envelope.gain.linearRampToValueAtTime).toHaveBeenCalledWith(1, expect.closeTo(0.03));
+    expect(envelope.gain.linearRampToValueAtTime).toHaveBeenCalledWith(0, expect.closeTo(0.52));
+    const master = envelope.connections[0] as FakeGainNode;
+    expect(master.connect).toHaveBeenCalledWith(output);
+  });
+
+  it('starts fresh after an underrun instead of scheduling in the past', () => {
+    queue.enqueue(buffer(0));
+    context.currentTime = 2;
+    context.sources[0].finish();
+
+    queue.enqueue(buffer(1));
+
+    expect(startTimes()[1]).toBeCloseTo(2.02);
+  });
+
+  it('reports speaking until the last scheduled chunk has finished', () => {
+    queue.enqueue(buffer(0));
+    queue.enqueue(buffer(1));
+    expect(queue.isSpeaking).toBe(true);
+    expect(speaking).toHaveBeenCalledWith(true);
+
+    context.sources[0].finish();
+    expect(queue.isSpeaking).toBe(true);
+
+    context.sources[1].finish();
+    expect(queue.isSpeaking).toBe(false);
+    expect(speaking).toHaveBeenLastCalledWith(false);
+    expect(speaking).toHaveBeenCalledTimes(2);
+  });
+
+  it('ducks and restores every scheduled chunk through one master gain', () => {
+    queue.enqueue(buffer(0));
+    const master = (context.sources[0].connections[0] as FakeGainNode).connections[0] as FakeGainNode;
+
+    queue.duck(0.2);
+    expect(queue.isDucked).toBe(true);
+    expect(master.gain.setTargetAtTime).toHaveBeenLastCalledWith(0.2, 0, expect.any(Number));
+
+    queue.unduck();
+    expect(master.gain.setTargetAtTime).toHaveBeenLastCalledWith(1, 0, expect.any(Number));
+  });
+
+  it('reports how long the current run has been audible', () => {
+    queue.enqueue(buffer(0));
+    queue.enqueue(buffer(1));
+    context.currentTime = 0.72;
+
+    expect(queue.speakingForMs).toBeCloseTo(700);
+  });
+
+  it('stop() cuts every scheduled chunk', () => {
+    queue.enqueue(buffer(0));
+    queue.enqueue(buffer(1));
+
+    queue.stop();
+
+    expect(context.sources.every(source => source.stopped)).toBe(true);
+    expect(queue.isSpeaking).toBe(false);
+    expect(speaking).toHaveBeenLastCalledWith(false);
+  });
+});
@@ -0,0 +1,140 @@
+import type { LogType, PlaybackOptions } from './types';
+
+export interface PlaybackCallbacks {
+  log: (message: string, type?: LogType) => void;
+  /** Fires when the first chunk of a run is scheduled and when the last one finishes. */
+  speaking?: (speaking: boolean) => void;
+}
+
+export const DEFAULT_PLAYBACK_OPTIONS: PlaybackOptions = {
+  crossfadeMs: 5,
+  scheduleAheadMs: 20,
+};
+
+/** Time constant of the gain change when ducking or restoring playback. */
+const DUCK_TIME_CONSTANT_S = 0.03;
+
+interface ScheduledChunk {
+  source: AudioBufferSourceNode;
+  envelope: GainNode;
+}
+
+/**
+ * Plays decoded TTS chunks back to back in the order they are enqueued;
+ * ordering by `seq` is the jitter buffer's job. Start times are computed on the
+ * AudioContext clock so consecutive chunks overlap by a short crossfade
+ * instead of waiting for `onended`. Each chunk is routed both to the speakers
+ * and to the recording mixer so the saved conversation contains the agent's
+ * voice.
+ */
+export class PlaybackQueue {
+  private readonly options: PlaybackOptions;
+  private readonly master: GainNode;
+  private scheduled: ScheduledChunk[] = [];
+  private nextStartTime = 0;
+  private runStartTime = 0;
+  private speaking = false;
+  private ducked = false;
+
+  constructor(
+    private readonly context: AudioContext,
+    outputs: AudioNode[],
+    options: Partial<PlaybackOptions>,
+    private readonly callbacks: PlaybackCallbacks
+  ) {
+    this.options = { ...DEFAULT_PLAYBACK_OPTIONS, ...options };
+    this.master = context.createGain();
+    outputs.forEach(output => this.master.connect(output));
+  }
+
+  /** True from the first scheduled chunk until the last one has played out. */
+  get isSpeaking() {
+    return this.speaking;
+  }
+
+  get isDucked() {
+    return this.ducked;
+  }
+
+  /** How long the current run of TTS audio has been audible, in ms. */
+  get speakingForMs() {
+    if (!this.speaking) return 0;
+    return Math.max(0, (this.context.currentTime - this.runStartTime) * 1000);
+  }
+
+  enqueue(buffer: AudioBuffer) {
+    const earliest = this.context.currentTime + this.options.scheduleAheadMs / 1000;
+    const fade = Math.min(this.options.crossfadeMs / 1000, buffer.duration / 2);
+
+    // Overlap the previous chunk's fade-out if it hasn't started yet; after an
+    // underrun there is nothing to blend with, so start as soon as possible.
+    const startTime =
+      this.scheduled.length > 0 && this.nextStartTime - fade >= earliest
+        ? this.nextStartTime - fade
+        : Math.max(earliest, this.nextStartTime);
+    const endTime = startTime + buffer.duration;
+
+    const envelope = this.context.createGain();
+    envelope.gain.setValueAtTime(0, startTime);
+    envelope.gain.linearRampToValueAtTime(1, startTime + fade);
+    envelope.gain.setValueAtTime(1, endTime - fade);
+    envelope.gain.linearRampToValueAtTime(0, endTime);
+    envelope.connect(this.master);
+
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(envelope);
+
+    const chunk: ScheduledChunk = { source, envelope };
+    source.onended = () => {
+      envelope.disconnect();
+      this.scheduled = this.scheduled.filter(scheduled => scheduled !== chunk);
+      if (this.scheduled.length === 0) {
+        this.setSpeaking(false);
+      }
+    };
+
+    if (this.scheduled.length === 0) {
+      this.runStartTime = startTime;
+    }
+    this.scheduled.push(chunk);
+    this.nextStartTime = endTime;
+    source.start(startTime);
+    this.setSpeaking(true);
+  }
+
+  /** Lowers playback to `gain` (0–1) until `unduck()`, e.g. while the caller talks over the agent. */
+  duck(gain: number) {
+    if (this.ducked) return;
+    this.ducked = true;
+    this.master.gain.setTargetAtTime(gain, this.context.currentTime, DUCK_TIME_CONSTANT_S);
+  }
+
+  unduck() {
+    if (!this.ducked) return;
+    this.ducked = false;
+    this.master.gain.setTargetAtTime(1, this.context.currentTime, DUCK_TIME_CONSTANT_S);
+  }
+
+  /** Cuts every scheduled chunk immediately, e.g. on barge-in. */
+  stop() {
+    for (const { source, envelope } of this.scheduled) {
+      source.onended = null;
+      source.stop();
+      envelope.disconnect();
+    }
+    this.scheduled = [];
+    this.nextStartTime = 0;
+    this.unduck();
+    this.setSpeaking(false);
+  }
+
+  private setSpeaking(speaking: boolean) {
+    if (this.speaking === speaking) {
+      return;
+    }
+    this.speaking = speaking;
+    this.callbacks.log(speaking ? 'Starting TTS playback - microphone continues listening' : 'TTS playback ended');
+    this.callbacks.speaking?.(speaking);
+  }
+}
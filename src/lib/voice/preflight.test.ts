@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { FakeAudioContext, FakeMediaStream, FakeWebSocket, flushPromises, installMediaFakes } from '@/test/fakes';
+import { isAudible, recordMicSample, testServerConnection } from './preflight';
+
+describe('testServerConnection', () => {
+  beforeEach(() => {
+    installMediaFakes();
+  });
+
+  it('times the hello handshake on a preflight socket and closes it', async () => {
+    const result = testServerConnection('ws://voice.test/stream', { language: 'English' });
+    const ws = FakeWebSocket.last;
+    ws.open();
+    ws.receive({ type: 'hello', protocol: 3, minProtocol: 1 });
+
+    await expect(result).resolves.toMatchObject({ protocol: 3, roundTripMs: expect.any(Number) });
+    expect(ws.params.get('preflight')).toBe('true');
+    expect(ws.params.get('streamSid')).toMatch(/^preflight-/);
+    expect(ws.sentJson[0]).toMatchObject({ type: 'hello', resume: false });
+    expect(ws.closeCode).toBe(1000);
+  });
+
+  it('fails on a server this client cannot talk to', async () => {
+    const result = testServerConnection('ws://voice.test/stream', { language: 'English' });
+    FakeWebSocket.last.open();
+    FakeWebSocket.last.receive({ type: 'hello', protocol: 9, minProtocol: 9 });
+
+    await expect(result).rejects.toThrow(/Incompatible server protocol/);
+  });
+
+  it('passes without a round trip when a legacy server never says hello', async () => {
+    const result = testServerConnection('ws://voice.test/stream', { language: 'English', timeoutMs: 5 });
+    FakeWebSocket.last.open();
+
+    await expect(result).resolves.toMatchObject({ roundTripMs: null, protocol: null });
+  });
+
+  it('fails when the server is unreachable or never opens', async () => {
+    const unreachable = testServerConnection('ws://voice.test/stream', { language: 'English' });
+    FakeWebSocket.last.fail();
+    await expect(unreachable).rejects.toThrow('Could not reach the voice server');
+
+    const silent = testServerConnection('ws://voice.test/stream', { language: 'English', timeoutMs: 5 });
+    await expect(silent).rejects.toThrow('Voice server did not answer within 0.005s');
+  });
+});
+
+describe('recordMicSample', () => {
+  let getUserMedia: ReturnType<typeof installMediaFakes>['getUserMedia'];
+
+  beforeEach(() => {
+    ({ getUserMedia } = installMediaFakes());
+  });
+
+  it('records the exact device, measures its level and releases the mic', async () => {
+    const stream = new FakeMediaStream();
+    getUserMedia.mockResolvedValueOnce(stream);
+
+    const recording = recordMicSample({ deviceId: 'usb-mic', constraints: { echoCancellation: true }, durationMs: 120 });
+    await flushPromises();
+    FakeAudioContext.last.analysers[0].level = 0.1;
+    const sample = await recording;
+
+    expect(getUserMedia).toHaveBeenCalledWith({
+      audio: { echoCancellation: true, deviceId: { exact: 'usb-mic' } },
+      video: false,
+    });
+    expect(sample.loudestDbfs).toBeCloseTo(-20, 0);
+    expect(isAudible(sample)).toBe(true);
+    expect(sample.blob.size).toBeGreaterThan(0);
+    expect(stream.tracks[0].stop).toHaveBeenCalled();
+    expect(FakeAudioContext.last.close).toHaveBeenCalled();
+  });
+
+  it('flags a silent microphone', async () => {
+    const sample = await recordMicSample({ deviceId: null, constraints: {}, durationMs: 60 });
+
+    expect(isAudible(sample)).toBe(false);
+  });
+});
@@ -0,0 +1,209 @@
+import { TOO_QUIET_DBFS, measureLevel } from './levels';
+import { PROTOCOL_VERSION, checkProtocolCompatibility, createHelloMessage, parseServerMessage, serializeClientMessage } from './protocol';
+
+export type PreflightCheckId = 'microphone' | 'speaker' | 'server';
+
+/** `confirming` waits for the operator to say whether they heard the test tone. */
+export type PreflightStatus = 'idle' | 'running' | 'confirming' | 'passed' | 'failed';
+
+export interface PreflightCheck {
+  status: PreflightStatus;
+  /** Result or failure reason to show next to the check. */
+  detail?: string;
+}
+
+export interface MicSample {
+  blob: Blob;
+  /** Loudest 50 ms block of the sample, in dBFS. */
+  loudestDbfs: number;
+}
+
+export interface ServerCheckResult {
+  /** Time until the socket was open (DNS, TCP, TLS and the upgrade). */
+  connectMs: number;
+  /** From our hello to the server's; null for legacy servers that never answer it. */
+  roundTripMs: number | null;
+  protocol: number | null;
+}
+
+export const PREFLIGHT_CHECKS: PreflightCheckId[] = ['microphone', 'speaker', 'server'];
+
+const METER_INTERVAL_MS = 50;
+const DEFAULT_SAMPLE_MS = 3000;
+const DEFAULT_TONE_MS = 1000;
+const DEFAULT_TONE_HZ = 440;
+const TONE_GAIN = 0.2;
+const DEFAULT_SERVER_TIMEOUT_MS = 5000;
+
+type SinkableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+const createAudioContext = (): SinkableAudioContext => {
+  const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+  return new AudioContextClass();
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Whether a sample is loud enough to have picked up the operator's voice. */
+export const isAudible = (sample: MicSample) => sample.loudestDbfs >= TOO_QUIET_DBFS;
+
+/**
+ * Records a few seconds from the chosen microphone so the operator can hear
+ * themselves back. Unlike a call, a missing device is an error here rather
+ * than a silent fallback to the default mic: that is exactly what the check
+ * is for.
+ */
+export const recordMicSample = async ({
+  deviceId,
+  constraints,
+  durationMs = DEFAULT_SAMPLE_MS,
+}: {
+  deviceId: string | null;
+  constraints: MediaTrackConstraints;
+  durationMs?: number;
+}): Promise<MicSample> => {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: deviceId ? { ...constraints, deviceId: { exact: deviceId } } : constraints,
+    video: false,
+  });
+  const context = createAudioContext();
+
+  try {
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 1024;
+    context.createMediaStreamSource(stream).connect(analyser);
+
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise(resolve => {
+      recorder.onstop = resolve;
+    });
+
+    let loudestDbfs = -Infinity;
+    const meter = setInterval(() => {
+      loudestDbfs = Math.max(loudestDbfs, measureLevel(analyser).rmsDbfs);
+    }, METER_INTERVAL_MS);
+
+    recorder.start();
+    await sleep(durationMs);
+    recorder.stop();
+    await stopped;
+    clearInterval(meter);
+
+    return { blob: new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }), loudestDbfs };
+  } finally {
+    stream.getTracks().forEach(track => track.stop());
+    context.close();
+  }
+};
+
+/** Plays a short sine tone on the chosen speaker, resolving when it has finished. */
+export const playTestTone = async ({
+  outputDeviceId,
+  durationMs = DEFAULT_TONE_MS,
+  frequency = DEFAULT_TONE_HZ,
+}: {
+  outputDeviceId: string | null;
+  durationMs?: number;
+  frequency?: number;
+}) => {
+  const context = createAudioContext();
+
+  try {
+    if (outputDeviceId && context.setSinkId) {
+      await context.setSinkId(outputDeviceId);
+    }
+
+    const start = context.currentTime;
+    const end = start + durationMs / 1000;
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(0, start);
+    gain.gain.linearRampToValueAtTime(TONE_GAIN, start + 0.02);
+    gain.gain.setValueAtTime(TONE_GAIN, end - 0.02);
+    gain.gain.linearRampToValueAtTime(0, end);
+    gain.connect(context.destination);
+
+    const oscillator = context.createOscillator();
+    oscillator.frequency.value = frequency;
+    oscillator.connect(gain);
+    const ended = new Promise(resolve => {
+      oscillator.onended = resolve;
+    });
+    oscillator.start(start);
+    oscillator.stop(end);
+    await ended;
+  } finally {
+    context.close();
+  }
+};
+
+/**
+ * Opens a throwaway socket to the voice server and times the hello handshake.
+ * The `preflight` query parameter tells the server not to start a
+ * conversation for this stream.
+ */
+export const testServerConnection = (
+  url: string,
+  { language, timeoutMs = DEFAULT_SERVER_TIMEOUT_MS }: { language: string; timeoutMs?: number }
+) =>
+  new Promise<ServerCheckResult>((resolve, reject) => {
+    const streamSid = `preflight-${crypto.randomUUID()}`;
+    const params = new URLSearchParams({
+      streamSid,
+      language,
+      protocol: String(PROTOCOL_VERSION),
+      preflight: 'true',
+    });
+    const startedAt = performance.now();
+    let openedAt: number | null = null;
+    let settled = false;
+
+    const webSocket = new WebSocket(`${url}?${params}`);
+
+    const finish = (outcome: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      webSocket.onclose = null;
+      webSocket.onerror = null;
+      webSocket.onmessage = null;
+      webSocket.close(1000, 'Pre-call check complete');
+      outcome();
+    };
+
+    const timeout = setTimeout(() => {
+      const opened = openedAt;
+      if (opened === null) {
+        finish(() => reject(new Error(`Voice server did not answer within ${timeoutMs / 1000}s`)));
+      } else {
+        finish(() => resolve({ connectMs: opened - startedAt, roundTripMs: null, protocol: null }));
+      }
+    }, timeoutMs);
+
+    webSocket.onopen = () => {
+      openedAt = performance.now();
+      webSocket.send(serializeClientMessage(createHelloMessage(streamSid, false)));
+    };
+
+    webSocket.onmessage = (event) => {
+      const parsed = parseServerMessage(event.data);
+      if (parsed.status !== 'ok' || parsed.message.type !== 'hello' || openedAt === null) return;
+
+      const hello = parsed.message;
+      const connectMs = openedAt - startedAt;
+      const roundTripMs = performance.now() - openedAt;
+      try {
+        const protocol = checkProtocolCompatibility(hello);
+        finish(() => resolve({ connectMs, roundTripMs, protocol }));
+      } catch (err) {
+        finish(() => reject(err));
+      }
+    };
+
+    webSocket.onerror = () => finish(() => reject(new Error('Could not reach the voice server')));
+    webSocket.onclose = (event) =>
+      finish(() => reject(new Error(`Voice server closed the connection (Code: ${event.code})`)));
+  });
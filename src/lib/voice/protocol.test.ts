@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { ProtocolVersionError, checkProtocolCompatibility, parseServerMessage } from './protocol';
+
+describe('parseServerMessage', () => {
+  it('normalises media events to a typed message', () => {
+    const result = parseServerMessage(JSON.stringify({ event: 'media', media: { payload: 'AAA=', seq: 3 } }));
+
+    expect(result).toEqual({ status: 'ok', message: { type: 'media', seq: 3, payload: 'AAA=' } });
+
+    const tagged = parseServerMessage(JSON.stringify({ event: 'media', media: { payload: 'AAA=', seq: 0, utterance: 'tts-2' } }));
+    expect(tagged).toEqual({ status: 'ok', message: { type: 'media', seq: 0, payload: 'AAA=', utterance: 'tts-2' } });
+  });
+
+  it.each([
+    [{ type: 'log', message: 'hi' }],
+    [{ type: 'playback', play: false }],
+    [{ type: 'end_call', play: false }],
+    [{ type: 'hello', protocol: 2, minProtocol: 1 }],
+    [{ type: 'error', message: 'boom', code: 'protocol_version' }],
+    [{ type: 'transcript', id: 'u1', speaker: 'prospect', text: 'hello', final: false, startMs: 120, endMs: 900 }],
+  ])('accepts %j', (message) => {
+    expect(parseServerMessage(JSON.stringify(message))).toEqual({ status: 'ok', message });
+  });
+
+  it('reports non-JSON, unknown and invalid messages separately', () => {
+    expect(parseServerMessage('plain text').status).toBe('not_json');
+    expect(parseServerMessage(JSON.stringify({ type: 'surprise' })).status).toBe('unknown');
+
+    const invalid = parseServerMessage(JSON.stringify({ event: 'media', media: { payload: 'AAA=' } }));
+    expect(invalid).toMatchObject({ status: 'invalid', error: expect.stringContaining('media.seq') });
+  });
+});
+
+describe('checkProtocolCompatibility', () => {
+  it('negotiates down to the version both sides speak', () => {
+    expect(checkProtocolCompatibility({ protocol: 1 })).toBe(1);
+    expect(checkProtocolCompatibility({ protocol: 5, minProtocol: 1 })).toBe(4);
+  });
+
+  it('rejects servers that no longer accept our version', () => {
+    expect(() => checkProtocolCompatibility({ protocol: 6, minProtocol: 5 })).toThrow(ProtocolVersionError);
+    expect(() => checkProtocolCompatibility({ protocol: 0 })).toThrow(/server speaks v0/);
+  });
+});
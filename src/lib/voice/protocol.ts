@@ -0,0 +1,293 @@
+import { z } from 'zod';
+import { FRAME_FORMATS } from './pcm';
+import type { BargeInMode, FrameAudioFormat, TranscriptSpeaker } from './types';
+
+/**
+ * Wire protocol between the browser client and the voice server.
+ *
+ * Version history:
+ *   1 — log / playback / end_call / media (seq) messages, hello handshake.
+ *   2 — `start` event with mediaFormat, followed by binary PCM16/μ-law frames.
+ *   3 — client `barge_in` event when the caller talks over TTS playback.
+ *   4 — server `transcript` messages with live speech-to-text for both sides.
+ *
+ * Any version may tag `media` chunks with an `utterance` id; the client then
+ * starts a new utterance when the id changes instead of guessing from seq 0.
+ */
+export const PROTOCOL_VERSION = 4;
+export const MIN_SUPPORTED_PROTOCOL_VERSION = 1;
+export const BINARY_AUDIO_PROTOCOL_VERSION = 2;
+export const BARGE_IN_PROTOCOL_VERSION = 3;
+export const TRANSCRIPT_PROTOCOL_VERSION = 4;
+
+// Server → client wire schemas
+
+const helloSchema = z.object({
+  type: z.literal('hello'),
+  protocol: z.number().int(),
+  minProtocol: z.number().int().optional(),
+  server: z.string().optional(),
+});
+
+const logSchema = z.object({
+  type: z.literal('log'),
+  message: z.string(),
+});
+
+const playbackSchema = z.object({
+  type: z.literal('playback'),
+  play: z.boolean(),
+});
+
+const endCallSchema = z.object({
+  type: z.literal('end_call'),
+  play: z.boolean().optional(),
+});
+
+const errorSchema = z.object({
+  type: z.literal('error'),
+  message: z.string(),
+  code: z.string().optional(),
+});
+
+const transcriptSchema = z.object({
+  type: z.literal('transcript'),
+  id: z.string().min(1),
+  speaker: z.enum(['prospect', 'agent']),
+  text: z.string(),
+  final: z.boolean(),
+  startMs: z.number().nonnegative(),
+  endMs: z.number().nonnegative(),
+});
+
+const mediaSchema = z.object({
+  event: z.literal('media'),
+  media: z.object({
+    payload: z.string().min(1),
+    seq: z.number().int().nonnegative(),
+    utterance: z.string().min(1).optional(),
+  }),
+});
+
+export interface ServerHelloMessage {
+  type: 'hello';
+  protocol: number;
+  minProtocol?: number;
+  server?: string;
+}
+
+export interface ServerLogMessage {
+  type: 'log';
+  message: string;
+}
+
+export interface ServerPlaybackMessage {
+  type: 'playback';
+  play: boolean;
+}
+
+export interface ServerEndCallMessage {
+  type: 'end_call';
+  play?: boolean;
+}
+
+export interface ServerErrorMessage {
+  type: 'error';
+  message: string;
+  code?: string;
+}
+
+/**
+ * Speech-to-text for one utterance (protocol v4+). Interim results are sent
+ * repeatedly with the same `id` and `final: false`, each replacing the last,
+ * until one with `final: true` settles the text. Times are milliseconds since
+ * the call started streaming.
+ */
+export interface ServerTranscriptMessage {
+  type: 'transcript';
+  id: string;
+  speaker: Exclude<TranscriptSpeaker, 'unknown'>;
+  text: string;
+  final: boolean;
+  startMs: number;
+  endMs: number;
+}
+
+/** TTS audio; the wire shape is `{ event: 'media', media: { payload, seq, utterance? } }`. */
+export interface ServerMediaMessage {
+  type: 'media';
+  seq: number;
+  payload: string;
+  /** Numbering restarts at 0 for each utterance. */
+  utterance?: string;
+}
+
+/** Server messages, normalised so every variant is discriminated by `type`. */
+export type ServerMessage =
+  | ServerHelloMessage
+  | ServerLogMessage
+  | ServerPlaybackMessage
+  | ServerEndCallMessage
+  | ServerErrorMessage
+  | ServerTranscriptMessage
+  | ServerMediaMessage;
+
+export type ParseResult =
+  | { status: 'ok'; message: ServerMessage }
+  | { status: 'not_json' | 'unknown' | 'invalid'; raw: unknown; error?: string };
+
+const typedSchemas = {
+  hello: helloSchema,
+  log: logSchema,
+  playback: playbackSchema,
+  end_call: endCallSchema,
+  error: errorSchema,
+  transcript: transcriptSchema,
+} as const;
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+
+export const parseServerMessage = (data: string): ParseResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch {
+    return { status: 'not_json', raw: data };
+  }
+
+  if (typeof raw !== 'object' || raw === null) {
+    return { status: 'unknown', raw };
+  }
+
+  const record = raw as Record<string, unknown>;
+
+  if (record.event === 'media') {
+    const parsed = mediaSchema.safeParse(raw);
+    if (!parsed.success) {
+      return { status: 'invalid', raw, error: formatIssues(parsed.error) };
+    }
+    const { seq, payload, utterance } = parsed.data.media;
+    return { status: 'ok', message: { type: 'media', seq, payload, ...(utterance !== undefined && { utterance }) } };
+  }
+
+  const schema = typedSchemas[record.type as keyof typeof typedSchemas];
+  if (!schema) {
+    return { status: 'unknown', raw };
+  }
+
+  const parsed = schema.safeParse(raw);
+  if (!parsed.success) {
+    return { status: 'invalid', raw, error: formatIssues(parsed.error) };
+  }
+  return { status: 'ok', message: parsed.data as ServerMessage };
+};
+
+// Client → server messages
+
+export interface ClientHelloMessage {
+  type: 'hello';
+  protocol: number;
+  minProtocol: number;
+  streamSid: string;
+  resume: boolean;
+}
+
+export interface ClientMediaMessage {
+  start: { streamSid: string };
+  media: { payload: string };
+}
+
+/** Announces the format of the binary frames that follow (protocol v2+). */
+export interface ClientStartMessage {
+  event: 'start';
+  start: {
+    streamSid: string;
+    mediaFormat: {
+      encoding: 'audio/l16' | 'audio/x-mulaw';
+      sampleRate: number;
+      channels: 1;
+    };
+  };
+}
+
+/**
+ * The caller started talking while TTS was playing (protocol v3+). Times are
+ * milliseconds since the call started streaming.
+ */
+export interface ClientBargeInMessage {
+  type: 'barge_in';
+  streamSid: string;
+  /** When the caller's speech began. */
+  speechStartMs: number;
+  /** When the detector was confident enough to fire; minus speechStartMs is the detection latency. */
+  detectedAtMs: number;
+  /** How long the agent's current utterance had been audible. */
+  playbackPositionMs: number;
+  /** What the client did locally; `none` leaves it to the server. */
+  action: 'duck' | 'stop' | 'none';
+}
+
+export type ClientMessage = ClientHelloMessage | ClientMediaMessage | ClientStartMessage | ClientBargeInMessage;
+
+export const createHelloMessage = (streamSid: string, resume: boolean): ClientHelloMessage => ({
+  type: 'hello',
+  protocol: PROTOCOL_VERSION,
+  minProtocol: MIN_SUPPORTED_PROTOCOL_VERSION,
+  streamSid,
+  resume,
+});
+
+export const createMediaMessage = (streamSid: string, payload: string): ClientMediaMessage => ({
+  start: { streamSid },
+  media: { payload },
+});
+
+export const createStartMessage = (streamSid: string, format: FrameAudioFormat): ClientStartMessage => ({
+  event: 'start',
+  start: {
+    streamSid,
+    mediaFormat: {
+      encoding: FRAME_FORMATS[format].encoding,
+      sampleRate: FRAME_FORMATS[format].sampleRate,
+      channels: 1,
+    },
+  },
+});
+
+export const createBargeInMessage = (
+  streamSid: string,
+  mode: Exclude<BargeInMode, 'off'>,
+  timing: { speechStartMs: number; detectedAtMs: number; playbackPositionMs: number }
+): ClientBargeInMessage => ({
+  type: 'barge_in',
+  streamSid,
+  ...timing,
+  action: mode === 'server' ? 'none' : mode,
+});
+
+export const serializeClientMessage = (message: ClientMessage) => JSON.stringify(message);
+
+export class ProtocolVersionError extends Error {
+  constructor(readonly serverVersion: number, readonly serverMinVersion?: number) {
+    super(
+      `Incompatible server protocol: server speaks v${serverVersion}` +
+        (serverMinVersion !== undefined ? ` (accepts v${serverMinVersion}+)` : '') +
+        `, this client supports v${MIN_SUPPORTED_PROTOCOL_VERSION}–v${PROTOCOL_VERSION}`
+    );
+    this.name = 'ProtocolVersionError';
+  }
+}
+
+/**
+ * Checks the server's hello against what this client speaks. The server may
+ * be newer than us as long as it still accepts our version.
+ */
+export const checkProtocolCompatibility = (hello: { protocol: number; minProtocol?: number }) => {
+  const serverMin = hello.minProtocol ?? hello.protocol;
+  const compatible = hello.protocol >= MIN_SUPPORTED_PROTOCOL_VERSION && serverMin <= PROTOCOL_VERSION;
+  if (!compatible) {
+    throw new ProtocolVersionError(hello.protocol, hello.minProtocol);
+  }
+  return Math.min(hello.protocol, PROTOCOL_VERSION);
+};
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { type MockVoiceServer, startMockVoiceServer } from '../../../mock-server/server';
+import type { Scenario } from '../../../mock-server/scenarios';
+import { FakeAudioContext, FakeAudioWorkletNode, installMediaFakes } from '@/test/fakes';
+import { CAPTURE_PROCESSOR_NAME } from './pcm';
+import { VoiceStreamSession } from './session';
+import type { VoiceStreamOptions, VoiceStreamResult } from './types';
+
+// The session talks to the mock server over jsdom's real WebSocket; only the mic and audio output are faked.
+const RealWebSocket = globalThis.WebSocket;
+
+const scenario = (steps: Scenario['steps']): Scenario => ({ name: 'e2e', description: '', steps });
+
+/** 20 ms of PCM16 silence at 16 kHz, as the capture worklet would post it. */
+const frame = () => new ArrayBuffer(640);
+
+describe('VoiceStreamSession against the mock voice server', () => {
+  let server: MockVoiceServer;
+  let session: VoiceStreamSession | undefined;
+
+  beforeEach(() => {
+    installMediaFakes();
+    vi.stubGlobal('WebSocket', RealWebSocket);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await session?.stop();
+    await server?.close();
+  });
+
+  const startSession = async (steps: Scenario['steps'], options: Partial<VoiceStreamOptions> = {}) => {
+    server = await startMockVoiceServer({ scenario: scenario(steps) });
+    session = new VoiceStreamSession({
+      url: server.url,
+      language: 'English',
+      audioFormat: 'pcm16',
+      bargeIn: { mode: 'off' },
+      jitterBuffer: { targetDelayMs: 0, gapTimeoutMs: 50 },
+      ...options,
+    });
+    const logs: string[] = [];
+    session.on('log', entry => logs.push(entry.message));
+    const ended = new Promise<VoiceStreamResult>(resolve => session?.on('ended', resolve));
+    await session.start();
+    const capture = FakeAudioWorkletNode.instances.find(node => node.name === CAPTURE_PROCESSOR_NAME);
+    if (!capture) throw new Error('Binary frame capture did not start');
+    return { session, logs, ended, capture };
+  };
+
+  it('streams binary frames, plays TTS, honours a playback stop and ends on end_call', async () => {
+    const { session, logs, ended, capture } = await startSession([
+      { action: 'waitForAudio', count: 2 },
+      { action: 'say', chunks: 2, durationMs: 200 },
+      { action: 'wait', ms: 100 },
+      { action: 'stopPlayback' },
+      { action: 'say', chunks: 2, durationMs: 200, resetSeq: true },
+      { action: 'wait', ms: 100 },
+      { action: 'endCall' },
+    ]);
+
+    expect(session.state).toBe('streaming');
+    expect(session.negotiatedProtocol).toBe(4);
+    expect(session.audioFormat).toBe('pcm16');
+
+    capture.emitFrame(frame());
+    capture.emitFrame(frame());
+    const result = await ended;
+
+    const [connection] = server.connections;
+    expect(connection.streamSid).toBe(session.streamSid);
+    expect(connection.mediaFormat).toMatchObject({ encoding: 'audio/l16', sampleRate: 16000 });
+    expect(connection.binaryFrames).toBe(2);
+    expect(logs).toContain('[Server]: Received playback stop command from server');
+    expect(logs).toContain('[Server]: Received end_call command from server - closing connection');
+    expect(FakeAudioContext.last.sources).toHaveLength(4);
+    expect(FakeAudioContext.last.sources[1].stopped).toBe(true);
+
+    expect(session.state).toBe('closed');
+    expect(result.error).toBeUndefined();
+    expect(result.playbackStats).toMatchObject({ received: 4, released: 4, lost: 0, late: 0, resets: 1 });
+  });
+
+  it('resumes the same stream after the connection drops and replays what was captured meanwhile', async () => {
+    const { session, capture } = await startSession([{ action: 'waitForAudio', count: 1 }, { action: 'disconnect' }], {
+      reconnect: { baseDelayMs: 200, maxDelayMs: 200, maxAttempts: 2 },
+    });
+
+    capture.emitFrame(frame());
+    await vi.waitFor(() => expect(session.state).toBe('reconnecting'));
+    capture.emitFrame(frame());
+    capture.emitFrame(frame());
+
+    await vi.waitFor(() => expect(session.state).toBe('streaming'), { timeout: 2000 });
+    const [first, resumed] = server.connections;
+    expect(first.closed).toBe(true);
+    expect(resumed).toMatchObject({ streamSid: first.streamSid, resume: true });
+    await vi.waitFor(() => expect(resumed.binaryFrames).toBe(2));
+    expect(resumed.mediaFormat).toMatchObject({ encoding: 'audio/l16', sampleRate: 16000 });
+
+    await session.stop();
+    expect(session.state).toBe('closed');
+  });
+});
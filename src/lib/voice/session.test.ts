@@ -0,0 +1,557 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  FAKE_AUDIO_PAYLOAD,
+  FakeAudioContext,
+  FakeAudioWorkletNode,
+  FakeMediaRecorder,
+  FakeMediaStream,
+  FakeWebSocket,
+  flushPromises,
+  installMediaFakes,
+} from '@/test/fakes';
+import { VoiceStreamSession } from './session';
+import type { VoiceStreamOptions, VoiceStreamState } from './types';
+
+const createSession = (options: Partial<VoiceStreamOptions> = {}) => {
+  const session = new VoiceStreamSession({
+    url: 'ws://voice.test/stream',
+    language: 'English',
+    reconnect: { baseDelayMs: 1, maxDelayMs: 1, maxAttempts: 2 },
+    jitterBuffer: { targetDelayMs: 0, gapTimeoutMs: 5 },
+    bargeIn: { mode: 'off' },
+    ...options,
+  });
+  const states: VoiceStreamState[] = [];
+  const ended = vi.fn();
+  session.on('state', ({ state }) => states.push(state));
+  session.on('ended', ended);
+  return { session, states, ended };
+};
+
+/** Starts a session and walks it through the socket handshake to `streaming`. */
+const startStreaming = async (options: Partial<VoiceStreamOptions> = {}, serverProtocol = 4) => {
+  const context = createSession(options);
+  const started = context.session.start();
+  const ws = FakeWebSocket.last;
+  ws.handshake(serverProtocol);
+  await started;
+  return { ...context, ws, conversationRecorder: FakeMediaRecorder.instances[0], streamRecorder: FakeMediaRecorder.instances[1] };
+};
+
+describe('VoiceStreamSession', () => {
+  let getUserMedia: ReturnType<typeof installMediaFakes>['getUserMedia'];
+  let enumerateDevices: ReturnType<typeof installMediaFakes>['enumerateDevices'];
+  let mediaDevices: ReturnType<typeof installMediaFakes>['mediaDevices'];
+
+  beforeEach(() => {
+    ({ getUserMedia, enumerateDevices, mediaDevices } = installMediaFakes());
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('connect', () => {
+    it('walks idle → connecting → connected → streaming', async () => {
+      const { session, states } = await startStreaming();
+
+      expect(states).toEqual(['connecting', 'connected', 'streaming']);
+      expect(session.state).toBe('streaming');
+    });
+
+    it('opens the socket with the stream id, language and protocol version', async () => {
+      const { session, ws } = await startStreaming();
+
+      expect(ws.params.get('streamSid')).toBe(session.streamSid);
+      expect(ws.params.get('language')).toBe('English');
+      expect(ws.params.get('protocol')).toBe('4');
+      expect(ws.sentJson[0]).toMatchObject({ type: 'hello', streamSid: session.streamSid, resume: false });
+    });
+
+    it('requests the configured mic processing and reports what was applied', async () => {
+      getUserMedia.mockImplementationOnce(async () => {
+        const stream = new FakeMediaStream();
+        stream.tracks[0].settings = { echoCancellation: true, noiseSuppression: true };
+        return stream;
+      });
+      const { session, ended } = await startStreaming({ mic: { autoGainControl: false, highPass: true } });
+
+      expect(getUserMedia).toHaveBeenCalledWith({
+        audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: false },
+        video: false,
+      });
+      expect(session.micReport).toMatchObject({ mismatched: ['autoGainControl'], highPass: true, noiseGate: false });
+
+      await session.stop();
+      expect(ended.mock.calls[0][0].micReport).toEqual(session.micReport);
+    });
+
+    it('records the caller on the left channel and the agent on the right in stereo', async () => {
+      const createGain = vi.spyOn(FakeAudioContext.prototype, 'createGain');
+      const createChannelMerger = vi.spyOn(FakeAudioContext.prototype, 'createChannelMerger');
+      const { session, ended } = await startStreaming({ recordingChannels: 'stereo' });
+
+      const merger = createChannelMerger.mock.results[0].value;
+      expect(createChannelMerger).toHaveBeenCalledWith(2);
+      const gains = createGain.mock.results.map(result => result.value);
+      expect(gains.some(gain => gain.connect.mock.calls.some(([node, output, input]) => node === merger && output === 0 && input === 0))).toBe(true);
+      expect(gains.some(gain => gain.connect.mock.calls.some(([node, output, input]) => node === merger && output === 0 && input === 1))).toBe(true);
+
+      await session.stop();
+      expect(ended.mock.calls[0][0].recordingChannels).toBe('stereo');
+    });
+
+    it('exposes level analysers for the mic and for agent playback', async () => {
+      const { session } = await startStreaming();
+
+      expect(session.inputAnalyser).toBeTruthy();
+      expect(session.outputAnalyser).toBeTruthy();
+      expect(session.outputAnalyser).not.toBe(session.inputAnalyser);
+
+      await session.stop();
+      expect(session.inputAnalyser).toBeNull();
+    });
+
+    it('waits for the server hello before streaming', async () => {
+      const { session, states } = createSession();
+      const started = session.start();
+      const ws = FakeWebSocket.last;
+      ws.open();
+      await flushPromises();
+
+      expect(states).toEqual(['connecting']);
+      expect(getUserMedia).not.toHaveBeenCalled();
+
+      ws.receive({ type: 'hello', protocol: 4 });
+      await started;
+      expect(session.state).toBe('streaming');
+      expect(session.negotiatedProtocol).toBe(4);
+    });
+
+    it('streams binary frames and announces the format to a server that speaks v2+', async () => {
+      const { session, ws } = await startStreaming({ audioFormat: 'pcm16' });
+
+      expect(session.audioFormat).toBe('pcm16');
+      expect(ws.sentJson).toContainEqual(expect.objectContaining({ event: 'start' }));
+      expect(FakeMediaRecorder.instances).toHaveLength(1);
+
+      const frame = new ArrayBuffer(640);
+      FakeAudioWorkletNode.instances[0].emitFrame(frame);
+      expect(ws.sent).toContain(frame);
+      await session.stop();
+    });
+
+    it('treats a server that never says hello as v1 and streams WebM instead of binary frames', async () => {
+      const { session, ended } = createSession({ audioFormat: 'pcm16', helloTimeoutMs: 5 });
+      const logs: string[] = [];
+      session.on('log', entry => logs.push(entry.message));
+      const started = session.start();
+      const ws = FakeWebSocket.last;
+      ws.open();
+      await started;
+
+      expect(session.state).toBe('streaming');
+      expect(session.negotiatedProtocol).toBe(1);
+      expect(session.audioFormat).toBe('webm');
+      expect(logs).toContain('[Browser]: Server sent no hello within 5ms - assuming protocol v1');
+      expect(ws.sentJson.some(message => message.event === 'start')).toBe(false);
+
+      FakeMediaRecorder.instances[1].emitData(new Blob(['abc']));
+      await vi.waitFor(() => expect(ws.sentJson).toContainEqual(expect.objectContaining({ media: { payload: btoa('abc') } })));
+      expect(ws.sent.every(data => typeof data === 'string')).toBe(true);
+
+      await session.stop();
+      expect(ended.mock.calls[0][0].error).toBeUndefined();
+    });
+
+    it('fails when the socket does not open in time', async () => {
+      const { session, ended } = createSession({ connectTimeoutMs: 5 });
+      await session.start();
+
+      expect(session.state).toBe('failed');
+      expect(ended).toHaveBeenCalledWith(expect.objectContaining({ error: 'WebSocket connection timeout' }));
+    });
+
+    it('fails when the socket errors before opening', async () => {
+      const { session, ended } = createSession();
+      const started = session.start();
+      FakeWebSocket.last.fail();
+      await started;
+
+      expect(session.state).toBe('failed');
+      expect(ended).toHaveBeenCalledWith(expect.objectContaining({ error: 'WebSocket connection failed' }));
+    });
+
+    it('fails and closes the socket when the microphone is denied', async () => {
+      getUserMedia.mockRejectedValueOnce(new Error('Permission denied'));
+      const { session, ended } = createSession();
+      const started = session.start();
+      const ws = FakeWebSocket.last;
+      ws.handshake();
+      await started;
+
+      expect(session.state).toBe('failed');
+      expect(ended).toHaveBeenCalledWith(expect.objectContaining({ error: 'Permission denied' }));
+      expect(ws.readyState).toBe(FakeWebSocket.CLOSED);
+    });
+
+    it('stopping while connecting closes without failing', async () => {
+      const { session, states, ended } = createSession();
+      const started = session.start();
+      const ws = FakeWebSocket.last;
+      await session.stop();
+      await started;
+
+      expect(states).toEqual(['connecting', 'stopping', 'closed']);
+      expect(ended).toHaveBeenCalledWith(expect.not.objectContaining({ error: expect.anything() }));
+      expect(ws.readyState).toBe(FakeWebSocket.CLOSED);
+    });
+  });
+
+  describe('stream', () => {
+    it('sends microphone chunks as base64 media messages', async () => {
+      const { session, ws, streamRecorder } = await startStreaming();
+
+      streamRecorder.emitData(new Blob(['abc']));
+
+      await vi.waitFor(() =>
+        expect(ws.sentJson).toContainEqual({ start: { streamSid: session.streamSid }, media: { payload: btoa('abc') } })
+      );
+    });
+
+    it('plays server audio once the next seq has arrived', async () => {
+      const { ws } = await startStreaming({ jitterBuffer: { targetDelayMs: 0, gapTimeoutMs: 1000 } });
+      const audioContext = FakeAudioContext.last;
+
+      ws.receive({ event: 'media', media: { payload: FAKE_AUDIO_PAYLOAD, seq: 1 } });
+      await flushPromises();
+      expect(audioContext.sources).toHaveLength(0);
+
+      ws.receive({ event: 'media', media: { payload: FAKE_AUDIO_PAYLOAD, seq: 0 } });
+      await flushPromises();
+      expect(audioContext.sources).toHaveLength(2);
+      expect(audioContext.sources.every(source => source.started)).toBe(true);
+    });
+
+    it('logs and drops a media frame that is not valid base64', async () => {
+      const { session, ws } = await startStreaming({ jitterBuffer: { targetDelayMs: 0, gapTimeoutMs: 1000 } });
+      const audioContext = FakeAudioContext.last;
+      const logs: string[] = [];
+      session.on('log', entry => logs.push(entry.message));
+
+      ws.receive({ event: 'media', media: { payload: '%%not base64%%', seq: 0 } });
+      await flushPromises();
+
+      expect(logs).toContain('[Browser]: Error decoding audio from server, dropped chunk seq=0');
+      expect(audioContext.sources).toHaveLength(0);
+      expect(session.state).toBe('streaming');
+    });
+
+    it('skips a lost seq after the gap timeout and reports it in the result', async () => {
+      const { session, ws, ended } = await startStreaming();
+      const audioContext = FakeAudioContext.last;
+      const logs: string[] = [];
+      session.on('log', entry => logs.push(entry.message));
+
+      ws.receive({ event: 'media', media: { payload: FAKE_AUDIO_PAYLOAD, seq: 0 } });
+      ws.receive({ event: 'media', media: { payload: FAKE_AUDIO_PAYLOAD, seq: 2 } });
+      await vi.waitFor(() => expect(logs).toContain('[Browser]: Audio gap: seq=1 never arrived, skipped'));
+
+      expect(audioContext.sources).toHaveLength(2);
+
+      await session.stop();
+      expect(ended.mock.calls[0][0].playbackStats).toMatchObject({ received: 2, released: 2, lost: 1 });
+    });
+
+    it('logs server log messages and flags unknown ones', async () => {
+      const { session, ws } = await startStreaming();
+      const logs: string[] = [];
+      session.on('log', entry => logs.push(entry.message));
+
+      ws.receive({ type: 'log', message: 'hello from server' });
+      ws.receive({ type: 'mystery' });
+      ws.receive({ type: 'log' });
+
+      expect(logs[0]).toBe('[Server]: hello from server');
+      expect(logs[1]).toMatch(/^\[Server\]: \[Unhandled\]/);
+      expect(logs[2]).toMatch(/^\[Server\]: \[Invalid\]/);
+    });
+
+    it('builds the transcript from interim and final results and returns it with the call', async () => {
+      const { session, ws, ended } = await startStreaming();
+      const updates: string[][] = [];
+      session.on('transcript', segments => updates.push(segments.map(segment => segment.text)));
+
+      const utterance = { type: 'transcript', id: 'u1', speaker: 'prospect', startMs: 100, endMs: 400 };
+      ws.receive({ ...utterance, text: 'who', final: false });
+      ws.receive({ ...utterance, text: 'who is this', final: true });
+      ws.receive({ ...utterance, text: 'who is', final: false });
+      ws.receive({ type: 'transcript', id: 'a1', speaker: 'agent', text: 'Sam from Acme', final: true, startMs: 500, endMs: 900 });
+
+      expect(updates).toEqual([['who'], ['who is this'], ['who is this', 'Sam from Acme']]);
+
+      await session.stop();
+      expect(ended.mock.calls[0][0].transcript).toMatchObject([
+        { id: 'u1', speaker: 'prospect', final: true },
+        { id: 'a1', speaker: 'agent', final: true },
+      ]);
+    });
+  });
+
+  describe('barge-in stop', () => {
+    it('stops the playing chunk when the server sends playback:false', async () => {
+      const { session, ws } = await startStreaming();
+      const audioContext = FakeAudioContext.last;
+      const speaking = vi.fn();
+      session.on('speaking', speaking);
+
+      ws.receive({ event: 'media', media: { payload: FAKE_AUDIO_PAYLOAD, seq: 0 } });
+      await vi.waitFor(() => expect(session.isSpeaking).toBe(true));
+
+      ws.receive({ type: 'playback', play: false });
+
+      expect(audioContext.sources[0].stopped).toBe(true);
+      expect(session.isSpeaking).toBe(false);
+      expect(speaking.mock.calls).toEqual([[true], [false]]);
+      expect(session.state).toBe('streaming');
+    });
+  });
+
+  describe('client barge-in', () => {
+    /** Streams with barge-in on, starts TTS playback and makes the caller talk over it. */
+    const talkOverAgent = async (options: Partial<VoiceStreamOptions>, serverProtocol = 3) => {
+      const context = await startStreaming(options, serverProtocol);
+      const logs: string[] = [];
+      context.session.on('log', entry => logs.push(entry.message));
+      context.ws.receive({ event: 'media', media: { payload: FAKE_AUDIO_PAYLOAD, seq: 0 } });
+      await vi.waitFor(() => expect(context.session.isSpeaking).toBe(true));
+
+      FakeAudioContext.last.analysers[0].level = 0.5;
+      await vi.waitFor(() => expect(logs.some(message => message.includes('Barge-in detected'))).toBe(true));
+      return { ...context, logs };
+    };
+
+    it('stop mode cuts playback and reports the barge-in with timing', async () => {
+      const { session, ws } = await talkOverAgent({ bargeIn: { mode: 'stop', minSpeechMs: 0 } });
+
+      expect(session.isSpeaking).toBe(false);
+      const bargeIn = ws.sentJson.find(message => message.type === 'barge_in');
+      expect(bargeIn).toMatchObject({ streamSid: session.streamSid, action: 'stop' });
+      expect(bargeIn.detectedAtMs).toBeGreaterThanOrEqual(bargeIn.speechStartMs);
+      expect(bargeIn.playbackPositionMs).toEqual(expect.any(Number));
+
+      await session.stop();
+    });
+
+    it('server mode keeps playing and leaves the decision to the server', async () => {
+      const { session, ws } = await talkOverAgent({ bargeIn: { mode: 'server', minSpeechMs: 0 } });
+
+      expect(session.isSpeaking).toBe(true);
+      expect(ws.sentJson).toContainEqual(expect.objectContaining({ type: 'barge_in', action: 'none' }));
+
+      ws.receive({ type: 'playback', play: false });
+      expect(session.isSpeaking).toBe(false);
+
+      await session.stop();
+    });
+
+    it('handles the barge-in locally without reporting it to pre-v3 servers', async () => {
+      const { session, ws, logs } = await talkOverAgent({ bargeIn: { mode: 'duck', minSpeechMs: 0 } }, 2);
+
+      expect(session.isSpeaking).toBe(true);
+      expect(ws.sentJson.some(message => message.type === 'barge_in')).toBe(false);
+      expect(logs).toContain('[Browser]: Server protocol v2 has no barge_in event - not reported');
+
+      await session.stop();
+    });
+  });
+
+  describe('devices', () => {
+    const device = (kind: MediaDeviceKind, deviceId: string) => ({ kind, deviceId, label: deviceId, groupId: '' }) as MediaDeviceInfo;
+
+    it('opens the chosen microphone and speaker', async () => {
+      const { session } = await startStreaming({ inputDeviceId: 'headset-mic', outputDeviceId: 'headset-out' });
+
+      expect(getUserMedia.mock.calls[0][0]).toMatchObject({ audio: { deviceId: { exact: 'headset-mic' } } });
+      expect(FakeAudioContext.last.setSinkId).toHaveBeenCalledWith('headset-out');
+      await session.stop();
+    });
+
+    it('falls back to the default microphone when the chosen one is gone', async () => {
+      getUserMedia.mockRejectedValueOnce(Object.assign(new Error('gone'), { name: 'OverconstrainedError' }));
+      const { session } = await startStreaming({ inputDeviceId: 'unplugged-mic' });
+
+      expect(session.state).toBe('streaming');
+      expect(getUserMedia.mock.calls[1][0]).toMatchObject({ audio: { echoCancellation: true } });
+      expect(getUserMedia.mock.calls[1][0].audio).not.toHaveProperty('deviceId');
+      await session.stop();
+    });
+
+    it('swaps the microphone mid-call without touching the socket', async () => {
+      const { session, ws } = await startStreaming();
+      const firstStream = await getUserMedia.mock.results[0].value;
+      const switched = vi.fn();
+      session.on('device', switched);
+
+      await session.setInputDevice('usb-mic');
+
+      expect(getUserMedia.mock.calls[1][0]).toMatchObject({ audio: { deviceId: { exact: 'usb-mic' } } });
+      expect(firstStream.tracks[0].stop).toHaveBeenCalled();
+      expect(switched).toHaveBeenCalledWith(expect.objectContaining({ kind: 'input' }));
+      expect(FakeWebSocket.instances).toEqual([ws]);
+      expect(session.state).toBe('streaming');
+      await session.stop();
+    });
+
+    it('reopens a microphone when the one in use is unplugged', async () => {
+      const { session } = await startStreaming();
+      const firstStream = await getUserMedia.mock.results[0].value;
+
+      firstStream.tracks[0].end();
+
+      await vi.waitFor(() => expect(getUserMedia).toHaveBeenCalledTimes(2));
+      expect(session.state).toBe('streaming');
+      await session.stop();
+    });
+
+    it('moves back to the preferred speaker when it is plugged in again', async () => {
+      const { session } = await startStreaming({ outputDeviceId: 'headset-out' });
+      const audioContext = FakeAudioContext.last;
+      audioContext.setSinkId.mockClear();
+      await session.setOutputDevice(null);
+      await session.setOutputDevice('headset-out');
+      expect(audioContext.setSinkId.mock.calls).toEqual([[''], ['headset-out']]);
+
+      enumerateDevices.mockResolvedValue([device('audiooutput', 'speakers')]);
+      mediaDevices.dispatchEvent(new Event('devicechange'));
+      await vi.waitFor(() => expect(audioContext.setSinkId).toHaveBeenLastCalledWith(''));
+
+      enumerateDevices.mockResolvedValue([device('audiooutput', 'speakers'), device('audiooutput', 'headset-out')]);
+      mediaDevices.dispatchEvent(new Event('devicechange'));
+      await vi.waitFor(() => expect(audioContext.setSinkId).toHaveBeenLastCalledWith('headset-out'));
+      await session.stop();
+    });
+  });
+
+  describe('end of call', () => {
+    it('end_call from the server closes the call and returns the recording', async () => {
+      const { session, ws, ended, states } = await startStreaming();
+
+      ws.receive({ type: 'end_call', play: false });
+      await vi.waitFor(() => expect(session.state).toBe('closed'));
+
+      expect(states.slice(-2)).toEqual(['stopping', 'closed']);
+      expect(ws.closeCode).toBe(1000);
+      const result = ended.mock.calls[0][0];
+      expect(result.error).toBeUndefined();
+      expect(result.audioBlob).toBeInstanceOf(Blob);
+      expect(result.logs.length).toBeGreaterThan(0);
+    });
+
+    it('user stop releases the microphone, recorders and audio context', async () => {
+      const { session, ws, conversationRecorder, streamRecorder } = await startStreaming();
+      const audioContext = FakeAudioContext.last;
+      const micStream = await getUserMedia.mock.results[0].value;
+
+      await session.stop();
+
+      expect(session.state).toBe('closed');
+      expect(conversationRecorder.state).toBe('inactive');
+      expect(streamRecorder.state).toBe('inactive');
+      expect(micStream.tracks[0].stop).toHaveBeenCalled();
+      expect(audioContext.close).toHaveBeenCalled();
+      expect(ws.closeReason).toBe('Client initiated stop');
+    });
+
+    it('ignores a second stop', async () => {
+      const { session, ended } = await startStreaming();
+
+      await Promise.all([session.stop(), session.stop()]);
+
+      expect(ended).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('errors', () => {
+    it('fails the call when the streaming recorder errors', async () => {
+      const { session, ended, streamRecorder } = await startStreaming();
+
+      streamRecorder.emitError('NotSupportedError');
+
+      expect(session.state).toBe('failed');
+      await vi.waitFor(() =>
+        expect(ended).toHaveBeenCalledWith(expect.objectContaining({ error: 'MediaRecorder error: NotSupportedError' }))
+      );
+    });
+
+    it('keeps the conversation recorded up to the failure', async () => {
+      const { session, ws, ended, conversationRecorder } = await startStreaming();
+      conversationRecorder.emitData(new Blob(['first'], { type: 'audio/webm' }));
+
+      ws.receive({ type: 'error', message: 'Unsupported client', code: 'protocol_version' });
+
+      expect(session.state).toBe('failed');
+      expect(conversationRecorder.state).toBe('inactive');
+      await vi.waitFor(() => expect(ended).toHaveBeenCalled());
+      const result = ended.mock.calls[0][0];
+      expect(result.error).toMatch(/Incompatible server protocol/);
+      expect(result.audioBlob.size).toBe('first'.length + 'final'.length);
+    });
+
+    it('fails when the server speaks an incompatible protocol', async () => {
+      const { session, ended } = createSession();
+      const started = session.start();
+      const ws = FakeWebSocket.last;
+      ws.handshake(99);
+      await started;
+
+      expect(session.state).toBe('failed');
+      expect(getUserMedia).not.toHaveBeenCalled();
+      expect(ws.readyState).toBe(FakeWebSocket.CLOSED);
+      await vi.waitFor(() => expect(ended.mock.calls[0][0].error).toMatch(/Incompatible server protocol/));
+    });
+  });
+
+  describe('reconnect', () => {
+    it('resumes the same stream after a drop and replays buffered audio', async () => {
+      const { session, ws, streamRecorder, states } = await startStreaming();
+
+      ws.fail();
+      expect(session.state).toBe('reconnecting');
+
+      streamRecorder.emitData(new Blob(['while-offline']));
+      await vi.waitFor(() => expect(FakeWebSocket.instances).toHaveLength(2));
+
+      const resumed = FakeWebSocket.last;
+      expect(resumed.params.get('streamSid')).toBe(session.streamSid);
+      expect(resumed.params.get('resume')).toBe('true');
+
+      await flushPromises();
+      resumed.handshake();
+      await vi.waitFor(() => expect(session.state).toBe('streaming'));
+
+      expect(states).toContain('reconnecting');
+      expect(resumed.sentJson).toContainEqual(expect.objectContaining({ media: { payload: btoa('while-offline') } }));
+    });
+
+    it('gives up after the configured number of attempts', async () => {
+      const { session, ws, ended } = await startStreaming();
+
+      ws.fail();
+      await vi.waitFor(() => expect(FakeWebSocket.instances).toHaveLength(2));
+      FakeWebSocket.last.fail();
+      await vi.waitFor(() => expect(FakeWebSocket.instances).toHaveLength(3));
+      FakeWebSocket.last.fail();
+
+      await vi.waitFor(() => expect(session.state).toBe('failed'));
+      expect(ended.mock.calls[0][0].error).toMatch(/gave up after 2 reconnect attempts/);
+    });
+
+    it('ends normally when the server closes with 1000', async () => {
+      const { session, ws } = await startStreaming();
+
+      ws.serverClose(1000, 'done');
+
+      await vi.waitFor(() => expect(session.state).toBe('closed'));
+      expect(FakeWebSocket.instances).toHaveLength(1);
+    });
+  });
+});
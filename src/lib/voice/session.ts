@@ -0,0 +1,1234 @@
+import { TypedEmitter } from './emitter';
+import { DEFAULT_JITTER_BUFFER_OPTIONS, JitterBuffer } from './jitter-buffer';
+import { PlaybackQueue } from './playback';
+import {
+  DEFAULT_MIC_PROCESSING,
+  NOISE_GATE_PROCESSOR_NAME,
+  buildAudioConstraints,
+  describeAppliedConstraints,
+  formatMicReport,
+} from './mic';
+import { VoiceActivityDetector, rmsLevel } from './vad';
+import { CAPTURE_PROCESSOR_NAME, FRAME_DURATION_MS, FRAME_FORMATS } from './pcm';
+import captureWorkletUrl from './capture.worklet.ts?worker&url';
+import noiseGateWorkletUrl from './noise-gate.worklet.ts?worker&url';
+import {
+  PROTOCOL_VERSION,
+  MIN_SUPPORTED_PROTOCOL_VERSION,
+  ProtocolVersionError,
+  checkProtocolCompatibility,
+  BINARY_AUDIO_PROTOCOL_VERSION,
+  BARGE_IN_PROTOCOL_VERSION,
+  createBargeInMessage,
+  createHelloMessage,
+  createMediaMessage,
+  createStartMessage,
+  parseServerMessage,
+  serializeClientMessage,
+  type ServerHelloMessage,
+  type ServerTranscriptMessage,
+} from './protocol';
+import { applyTranscriptMessage } from './transcript';
+import type {
+  BargeInOptions,
+  LogEntry,
+  LogSource,
+  AudioFormat,
+  FrameAudioFormat,
+  JitterBufferOptions,
+  JitterBufferStats,
+  LogType,
+  MicProcessingOptions,
+  MicProcessingReport,
+  PlaybackOptions,
+  ReconnectOptions,
+  TranscriptSegment,
+  VoiceStreamEventMap,
+  VoiceStreamOptions,
+  VoiceStreamResult,
+  VoiceStreamState,
+} from './types';
+
+const DEFAULT_CHUNK_DURATION_MS = 1000;
+const DEFAULT_CONNECT_TIMEOUT_MS = 10000;
+const DEFAULT_HELLO_TIMEOUT_MS = 3000;
+const DEFAULT_MAX_BUFFERED_SECONDS = 60;
+const DEFAULT_RECONNECT: ReconnectOptions = {
+  maxAttempts: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+const DEFAULT_BARGE_IN: BargeInOptions = {
+  mode: 'duck',
+  sensitivity: 0.5,
+  minSpeechMs: 200,
+  hangoverMs: 400,
+  duckGain: 0.2,
+};
+const VAD_INTERVAL_MS = 20;
+
+type SinkableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+const TRANSITIONS: Record<VoiceStreamState, VoiceStreamState[]> = {
+  idle: ['connecting'],
+  connecting: ['connected', 'stopping', 'failed'],
+  connected: ['streaming', 'stopping', 'failed'],
+  streaming: ['reconnecting', 'stopping', 'failed'],
+  reconnecting: ['streaming', 'stopping', 'failed'],
+  stopping: ['closed', 'failed'],
+  closed: [],
+  failed: [],
+};
+
+export const isActiveState = (state: VoiceStreamState) =>
+  state === 'connecting' ||
+  state === 'connected' ||
+  state === 'streaming' ||
+  state === 'reconnecting' ||
+  state === 'stopping';
+
+export const formatLogTimestamp = (date: Date = new Date()) =>
+  date.toISOString().replace('T', ' ').replace('Z', '').slice(0, 23);
+
+/**
+ * One browser ↔ server call: owns the WebSocket, the microphone, the
+ * conversation recorder and TTS playback. Sessions are single-use; create a
+ * new one for every call.
+ */
+export class VoiceStreamSession extends TypedEmitter<VoiceStreamEventMap> {
+  readonly id = crypto.randomUUID();
+  readonly streamSid = crypto.randomUUID();
+
+  private _state: VoiceStreamState = 'idle';
+  private readonly options: Required<Omit<VoiceStreamOptions, 'reconnect' | 'jitterBuffer' | 'playback' | 'bargeIn' | 'mic' | 'inputDeviceId' | 'outputDeviceId'>> & {
+    inputDeviceId: string | null;
+    outputDeviceId: string | null;
+    reconnect: ReconnectOptions;
+    bargeIn: BargeInOptions;
+    mic: MicProcessingOptions;
+    jitterBuffer: JitterBufferOptions;
+    playback: Partial<PlaybackOptions>;
+  };
+  private readonly logs: LogEntry[] = [];
+  private transcript: TranscriptSegment[] = [];
+
+  private webSocket: WebSocket | null = null;
+  private micStream: MediaStream | null = null;
+  private audioContext: AudioContext | null = null;
+  /** Where the mic and the agent's TTS enter the conversation recording; the same node when mono. */
+  private recordMicInput: AudioNode | null = null;
+  private recordAgentInput: AudioNode | null = null;
+  private recordingNodes: AudioNode[] = [];
+  private micSource: MediaStreamAudioSourceNode | null = null;
+  /** Fixed head of the mic chain, so a new microphone can be swapped in behind it. */
+  private micInput: GainNode | null = null;
+  private inputSwitch: Promise<void> = Promise.resolve();
+  private activeOutputDeviceId: string | null = null;
+  /** End of the in-browser mic processing chain; everything that consumes the mic taps this. */
+  private micOutput: AudioNode | null = null;
+  private micStages: AudioNode[] = [];
+  /** Processed mic as a stream for MediaRecorder, when any in-browser stage is active. */
+  private uplinkDestination: MediaStreamAudioDestinationNode | null = null;
+  private _micReport: MicProcessingReport | null = null;
+  private destination: MediaStreamAudioDestinationNode | null = null;
+  private streamRecorder: MediaRecorder | null = null;
+  private conversationRecorder: MediaRecorder | null = null;
+  private playback: PlaybackQueue | null = null;
+  private jitterBuffer: JitterBuffer<AudioBuffer> | null = null;
+  private playbackStats: JitterBufferStats | null = null;
+  private _inputAnalyser: AnalyserNode | null = null;
+  private _outputAnalyser: AnalyserNode | null = null;
+  private vadTimer: ReturnType<typeof setInterval> | null = null;
+  private speechOnsetAt: number | null = null;
+  private bargedIn = false;
+  private audioChunks: Blob[] = [];
+  private protocolVersion: number | null = null;
+  /** Completes the open socket's handshake; set while waiting for the server's hello. */
+  private pendingHello: ((error?: Error) => void) | null = null;
+  private captureNode: AudioWorkletNode | null = null;
+  private activeAudioFormat: AudioFormat = 'webm';
+  private bufferedAudio: { data: string | ArrayBuffer; durationMs: number }[] = [];
+  private bufferedMs = 0;
+  private bufferOverflowLogged = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private startedAt: number | null = null;
+  private _duration = 0;
+  private durationTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: VoiceStreamOptions) {
+    super();
+    this.options = {
+      chunkDurationMs: DEFAULT_CHUNK_DURATION_MS,
+      connectTimeoutMs: DEFAULT_CONNECT_TIMEOUT_MS,
+      helloTimeoutMs: DEFAULT_HELLO_TIMEOUT_MS,
+      maxBufferedSeconds: DEFAULT_MAX_BUFFERED_SECONDS,
+      audioFormat: 'webm',
+      recordingChannels: 'mono',
+      ...options,
+      reconnect: { ...DEFAULT_RECONNECT, ...options.reconnect },
+      jitterBuffer: { ...DEFAULT_JITTER_BUFFER_OPTIONS, ...options.jitterBuffer },
+      playback: { ...options.playback },
+      bargeIn: { ...DEFAULT_BARGE_IN, ...options.bargeIn },
+      mic: { ...DEFAULT_MIC_PROCESSING, ...options.mic },
+      inputDeviceId: options.inputDeviceId || null,
+      outputDeviceId: options.outputDeviceId || null,
+    };
+  }
+
+  get state() {
+    return this._state;
+  }
+
+  /** Elapsed call time in whole seconds. */
+  get duration() {
+    return this._duration;
+  }
+
+  /** Protocol version agreed with the server (1 if it never said hello), or null until the handshake ends. */
+  get negotiatedProtocol() {
+    return this.protocolVersion;
+  }
+
+  /** Format actually used for upstream audio, after any fallback. */
+  get audioFormat() {
+    return this.activeAudioFormat;
+  }
+
+  /** Requested vs. applied mic processing, once the microphone is open. */
+  get micReport() {
+    return this._micReport;
+  }
+
+  /** Taps the processed microphone, e.g. for level meters. Null until the mic is open. */
+  get inputAnalyser() {
+    return this._inputAnalyser;
+  }
+
+  /** Taps TTS playback after ducking. Null until the mic is open. */
+  get outputAnalyser() {
+    return this._outputAnalyser;
+  }
+
+  /** Whether the agent's TTS audio is audible right now. */
+  get isSpeaking() {
+    return this.playback?.isSpeaking ?? false;
+  }
+
+  /**
+   * Connects and starts streaming the microphone. Never rejects: failures move
+   * the session to `failed` and are reported through the `ended` event.
+   */
+  async start() {
+    if (this._state !== 'idle') {
+      return;
+    }
+
+    this.transition('connecting');
+    this.startDurationTracking();
+    this.log('Starting new audio recording...');
+
+    try {
+      this.log('Connecting to WebSocket...');
+      const webSocket = await this.openWebSocket();
+      if (!this.inState('connecting')) {
+        webSocket.close(1000, 'Client initiated stop');
+        return;
+      }
+      // The server times transcripts from here; the recording starts a little later.
+      this.log('WebSocket connected. Requesting microphone access...', 'info', 'browser', { event: 'stream_started' });
+      this.transition('connected');
+      this.log('Connection established! Ready to speak - your voice will be sent to the server.');
+
+      await this.startCapture();
+      if (!this.inState('connected')) return;
+      this.transition('streaming');
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'WebSocket connection failed';
+      if (!this.inState('connecting', 'connected')) return;
+      this.log(`Failed to start recording: ${errorMessage}`, 'error');
+      this.fail(errorMessage);
+    }
+  }
+
+  /** Ends the call and resolves once the conversation recording is finalised. */
+  async stop() {
+    if (!isActiveState(this._state) || this._state === 'stopping') {
+      return;
+    }
+
+    this.transition('stopping');
+    this.log(`Stopping recording after ${this._duration} seconds`);
+    this.stopDurationTracking();
+
+    const recorderStopped = this.stopRecorder(this.conversationRecorder);
+    this.stopRecorder(this.streamRecorder);
+    await recorderStopped;
+
+    this.release();
+    if (!this.inState('stopping')) return;
+    this.transition('closed');
+    this.emit('ended', this.result());
+  }
+
+  /** Stops whatever TTS audio is playing, e.g. on barge-in. */
+  stopPlayback() {
+    this.jitterBuffer?.clear();
+    this.playback?.stop();
+  }
+
+  private fail(errorMessage: string) {
+    if (!isActiveState(this._state)) {
+      return;
+    }
+
+    this.transition('failed');
+    this.stopDurationTracking();
+    // Keep what was recorded up to the failure; its last chunk arrives once the recorder stops.
+    const recorderStopped = this.stopRecorder(this.conversationRecorder);
+    this.release();
+    recorderStopped.then(() => this.emit('ended', { ...this.result(), error: errorMessage }));
+  }
+
+  private inState(...states: VoiceStreamState[]) {
+    return states.includes(this._state);
+  }
+
+  private transition(next: VoiceStreamState) {
+    const previous = this._state;
+    if (!TRANSITIONS[previous].includes(next)) {
+      throw new Error(`Invalid voice stream transition: ${previous} → ${next}`);
+    }
+    this._state = next;
+    this.emit('state', { state: next, previous });
+  }
+
+  private log(message: string, type: LogType = 'info', source: LogSource = 'browser', payload?: Record<string, unknown>) {
+    const prefixedMessage = source === 'server' ? `[Server]: ${message}` : `[Browser]: ${message}`;
+    const entry: LogEntry = { timestamp: formatLogTimestamp(), type, source, message: prefixedMessage };
+    if (payload) {
+      entry.payload = payload;
+    }
+
+    this.logs.push(entry);
+    this.emit('log', entry);
+    console.log(`[${type.toUpperCase()}] ${prefixedMessage}`);
+  }
+
+  private result(): VoiceStreamResult {
+    return {
+      id: this.id,
+      streamSid: this.streamSid,
+      duration: this._duration,
+      logs: [...this.logs],
+      transcript: this.transcript,
+      audioBlob: this.audioChunks.length > 0 ? new Blob(this.audioChunks, { type: 'audio/webm' }) : undefined,
+      recordingChannels: this.options.recordingChannels,
+      playbackStats: this.playbackStats ?? undefined,
+      micReport: this._micReport ?? undefined,
+    };
+  }
+
+  private startDurationTracking() {
+    this.startedAt = Date.now();
+    this._duration = 0;
+    this.durationTimer = setInterval(() => this.updateDuration(), 1000);
+  }
+
+  private stopDurationTracking() {
+    if (this.durationTimer) {
+      clearInterval(this.durationTimer);
+      this.durationTimer = null;
+    }
+    this.updateDuration();
+  }
+
+  private updateDuration() {
+    if (this.startedAt === null) return;
+    const duration = Math.floor((Date.now() - this.startedAt) / 1000);
+    if (duration !== this._duration) {
+      this._duration = duration;
+      this.emit('duration', duration);
+    }
+  }
+
+  /**
+   * Opens a socket for this stream and resolves once the protocol handshake
+   * is done: the server's hello has arrived, or it has stayed silent for
+   * `helloTimeoutMs` and is taken to be a v1 server. Rejects with a
+   * `ProtocolVersionError` when the server's version is incompatible.
+   * `resume` tells the server to attach to the existing `streamSid` instead
+   * of starting a new conversation.
+   */
+  private openWebSocket(resume = false) {
+    return new Promise<WebSocket>((resolve, reject) => {
+      const params = new URLSearchParams({
+        streamSid: this.streamSid,
+        language: this.options.language,
+        protocol: String(PROTOCOL_VERSION),
+      });
+      if (resume) {
+        params.set('resume', 'true');
+      }
+
+      const webSocket = new WebSocket(`${this.options.url}?${params}`);
+      this.webSocket = webSocket;
+      let handshaken = false;
+      let helloTimeout: ReturnType<typeof setTimeout> | null = null;
+
+      const finishHandshake = (error?: Error) => {
+        if (helloTimeout) clearTimeout(helloTimeout);
+        if (this.pendingHello === finishHandshake) this.pendingHello = null;
+        if (error) {
+          reject(error);
+          return;
+        }
+        handshaken = true;
+        // Resuming a binary stream: announce the format again, unless this server can't take it.
+        if (this.activeAudioFormat !== 'webm') {
+          if ((this.protocolVersion ?? MIN_SUPPORTED_PROTOCOL_VERSION) < BINARY_AUDIO_PROTOCOL_VERSION) {
+            this.fallbackToWebm(`server protocol v${this.protocolVersion} has no binary audio`);
+          } else {
+            webSocket.send(serializeClientMessage(createStartMessage(this.streamSid, this.activeAudioFormat)));
+          }
+        }
+        resolve(webSocket);
+      };
+
+      const connectionTimeout = setTimeout(() => {
+        if (webSocket.readyState === WebSocket.CONNECTING) {
+          webSocket.close();
+          reject(new Error('WebSocket connection timeout'));
+        }
+      }, this.options.connectTimeoutMs);
+
+      webSocket.onopen = () => {
+        clearTimeout(connectionTimeout);
+        webSocket.send(serializeClientMessage(createHelloMessage(this.streamSid, resume)));
+        this.pendingHello = finishHandshake;
+        helloTimeout = setTimeout(() => {
+          this.protocolVersion = MIN_SUPPORTED_PROTOCOL_VERSION;
+          this.log(
+            `Server sent no hello within ${this.options.helloTimeoutMs}ms - assuming protocol v${MIN_SUPPORTED_PROTOCOL_VERSION}`,
+            'warning'
+          );
+          finishHandshake();
+        }, this.options.helloTimeoutMs);
+      };
+
+      webSocket.onclose = (event) => {
+        clearTimeout(connectionTimeout);
+        if (!handshaken) {
+          if (helloTimeout) clearTimeout(helloTimeout);
+          if (this.pendingHello === finishHandshake) this.pendingHello = null;
+          if (this.webSocket === webSocket) this.webSocket = null;
+          reject(new Error('WebSocket connection failed'));
+          return;
+        }
+        this.handleSocketClose(webSocket, event);
+      };
+
+      webSocket.onerror = () => {
+        clearTimeout(connectionTimeout);
+        this.log('WebSocket connection failed', 'error');
+        reject(new Error('WebSocket connection failed'));
+      };
+
+      webSocket.onmessage = (event) => this.handleMessage(event);
+    });
+  }
+
+  private handleSocketClose(webSocket: WebSocket, event: CloseEvent) {
+    if (this.webSocket !== webSocket) return;
+    this.webSocket = null;
+    this.log(`WebSocket closed: ${event.reason || 'No reason given'} (Code: ${event.code})`, 'warning');
+
+    if (event.code === 1000 && this.inState('connected', 'streaming')) {
+      this.stop();
+    } else if (this.inState('streaming')) {
+      this.reconnect();
+    } else if (this.inState('connected')) {
+      this.fail(`Connection closed: ${event.reason || 'No reason given'} (Code: ${event.code})`);
+    }
+  }
+
+  /**
+   * Reopens the socket with exponential backoff while the microphone keeps
+   * recording. Audio produced in the meantime is buffered and replayed once
+   * the stream is resumed.
+   */
+  private async reconnect() {
+    const { maxAttempts, baseDelayMs, maxDelayMs } = this.options.reconnect;
+    if (maxAttempts <= 0) {
+      this.fail('Connection lost');
+      return;
+    }
+
+    this.transition('reconnecting');
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const delayMs = Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs);
+      this.emit('reconnecting', { attempt, maxAttempts, delayMs });
+      this.log(`Connection lost - reconnecting (attempt ${attempt} of ${maxAttempts}) in ${delayMs}ms`, 'warning');
+
+      await new Promise<void>(resolve => {
+        this.reconnectTimer = setTimeout(resolve, delayMs);
+      });
+      this.reconnectTimer = null;
+      if (!this.inState('reconnecting')) return;
+
+      try {
+        const webSocket = await this.openWebSocket(true);
+        if (!this.inState('reconnecting')) {
+          webSocket.close(1000, 'Client initiated stop');
+          return;
+        }
+        this.log(`Reconnected on attempt ${attempt} - resuming stream ${this.streamSid}`);
+        this.transition('streaming');
+        this.flushBufferedAudio();
+        return;
+      } catch (err) {
+        if (!this.inState('reconnecting')) return;
+        if (err instanceof ProtocolVersionError) {
+          this.log(err.message, 'error');
+          this.fail(err.message);
+          return;
+        }
+        this.log(`Reconnect attempt ${attempt} failed`, 'warning');
+      }
+    }
+
+    this.fail(`Connection lost - gave up after ${maxAttempts} reconnect attempts`);
+  }
+
+  private async handleMessage(event: MessageEvent) {
+    const result = parseServerMessage(event.data);
+
+    if (result.status !== 'ok') {
+      if (result.status === 'not_json') {
+        this.log(event.data, 'info', 'server');
+      } else if (result.status === 'invalid') {
+        this.log(`[Invalid]: ${JSON.stringify(result.raw)} (${result.error})`, 'warning', 'server', {
+          raw: result.raw,
+          error: result.error,
+        });
+      } else {
+        this.log(`[Unhandled]: ${JSON.stringify(result.raw)}`, 'warning', 'server', { raw: result.raw });
+      }
+      return;
+    }
+
+    const message = result.message;
+    console.log('[LOG] Message received from server:', message);
+
+    switch (message.type) {
+      case 'hello':
+        this.handleServerHello(message);
+        break;
+      case 'log':
+        this.log(message.message, 'info', 'server');
+        break;
+      case 'error':
+        this.log(message.code ? `${message.message} (${message.code})` : message.message, 'error', 'server');
+        if (message.code === 'protocol_version') {
+          this.fail(`Incompatible server protocol: ${message.message}`);
+        }
+        break;
+      case 'playback':
+        if (!message.play) {
+          this.log('Received playback stop command from server', 'info', 'server', { event: 'playback_stop' });
+          this.stopPlayback();
+        }
+        break;
+      case 'end_call':
+        if (message.play === false || message.play === undefined) {
+          this.log('Received end_call command from server - closing connection', 'info', 'server', { event: 'end_call' });
+          this.webSocket?.close(1000, 'Server requested end call');
+          this.stop();
+        }
+        break;
+      case 'transcript':
+        this.handleTranscript(message);
+        break;
+      case 'media':
+        await this.handleMedia(message.seq, message.payload, message.utterance);
+        break;
+    }
+  }
+
+  private handleServerHello(hello: ServerHelloMessage) {
+    let version: number;
+    try {
+      version = checkProtocolCompatibility(hello);
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Incompatible server protocol');
+      // During the handshake whoever opened the socket reports it.
+      if (this.pendingHello) {
+        this.pendingHello(error);
+        return;
+      }
+      this.log(error.message, 'error');
+      this.fail(error.message);
+      return;
+    }
+
+    this.protocolVersion = version;
+    this.log(`Protocol handshake complete: v${version}${hello.server ? ` (${hello.server})` : ''}`);
+    if (this.pendingHello) {
+      this.pendingHello();
+    } else if (version < BINARY_AUDIO_PROTOCOL_VERSION && this.activeAudioFormat !== 'webm') {
+      this.fallbackToWebm(`server protocol v${version} has no binary audio`);
+    }
+  }
+
+  private handleTranscript(message: ServerTranscriptMessage) {
+    const next = applyTranscriptMessage(this.transcript, message);
+    if (next === this.transcript) return;
+    this.transcript = next;
+    this.emit('transcript', next);
+  }
+
+  private async handleMedia(seq: number, payload: string, utterance?: string) {
+    this.log(`Received audio chunk, seq=${seq}`, 'info', 'server');
+
+    if (!this.audioContext || !this.jitterBuffer) return;
+
+    // A bad frame is dropped; the jitter buffer treats it like a lost chunk.
+    try {
+      const audioBytes = Uint8Array.from(atob(payload), c => c.charCodeAt(0));
+      const audioBuffer = await this.audioContext.decodeAudioData(audioBytes.buffer);
+      this.jitterBuffer?.push(seq, audioBuffer, utterance);
+    } catch (error) {
+      console.error('Error decoding audio:', error);
+      this.log(`Error decoding audio from server, dropped chunk seq=${seq}`, 'error');
+    }
+  }
+
+  private async startCapture() {
+    let stream: MediaStream;
+    try {
+      stream = await this.openMicrophone(this.options.inputDeviceId);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Microphone access denied';
+      this.log(`Error accessing microphone: ${errorMessage}`, 'error');
+      throw err;
+    }
+
+    if (this._state !== 'connected') {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    this.micStream = stream;
+    this.log('Microphone access granted. Setting up full conversation recording...');
+
+    const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+    const audioContext = new AudioContextClass();
+    this.audioContext = audioContext;
+
+    this.destination = audioContext.createMediaStreamDestination();
+    this.createRecordingMix(audioContext, this.destination);
+
+    this.micInput = audioContext.createGain();
+    this.micSource = audioContext.createMediaStreamSource(stream);
+    this.micSource.connect(this.micInput);
+    const chain = await this.buildMicChain(audioContext, this.micInput);
+    if (!this.inState('connected') || !this.recordMicInput || !this.recordAgentInput) return;
+    this.micOutput = chain.output;
+    this.micOutput.connect(this.recordMicInput);
+
+    this._micReport = { ...this.describeMicrophone(stream), highPass: chain.highPass, noiseGate: chain.noiseGate };
+    this.log(formatMicReport(this._micReport), this._micReport.mismatched.length > 0 ? 'warning' : 'info', 'browser', {
+      ...this._micReport,
+    });
+    this.emit('mic', this._micReport);
+    this.watchMicrophone(stream);
+    navigator.mediaDevices.addEventListener?.('devicechange', this.handleDeviceChange);
+
+    if (this.options.outputDeviceId) {
+      await this.applyOutputDevice(this.options.outputDeviceId);
+      if (!this.inState('connected')) return;
+    }
+
+    this._inputAnalyser = createLevelAnalyser(audioContext);
+    this.micOutput.connect(this._inputAnalyser);
+    this._outputAnalyser = createLevelAnalyser(audioContext);
+
+    const playbackOutputs = [this.recordAgentInput, audioContext.destination, this._outputAnalyser];
+    this.playback = new PlaybackQueue(audioContext, playbackOutputs, this.options.playback, {
+      log: (message, type) => this.log(message, type),
+      speaking: speaking => this.emit('speaking', speaking),
+    });
+    this.jitterBuffer = new JitterBuffer<AudioBuffer>(this.options.jitterBuffer, {
+      release: buffer => this.playback?.enqueue(buffer),
+      gap: (fromSeq, toSeq) =>
+        this.log(
+          fromSeq === toSeq
+            ? `Audio gap: seq=${fromSeq} never arrived, skipped`
+            : `Audio gap: seq=${fromSeq}-${toSeq} never arrived, skipped`,
+          'warning'
+        ),
+      reset: () => this.log('New TTS utterance - sequence reset'),
+    });
+
+    if (this.options.bargeIn.mode !== 'off') {
+      this.startBargeInDetection(this._inputAnalyser);
+    }
+
+    this.startConversationRecorder(this.destination.stream);
+
+    if (this.options.audioFormat === 'webm') {
+      this.startStreamRecorder(this.uplinkStream());
+      return;
+    }
+    if ((this.protocolVersion ?? MIN_SUPPORTED_PROTOCOL_VERSION) < BINARY_AUDIO_PROTOCOL_VERSION) {
+      this.fallbackToWebm(`server protocol v${this.protocolVersion ?? MIN_SUPPORTED_PROTOCOL_VERSION} has no binary audio`);
+      return;
+    }
+
+    try {
+      await this.startFrameCapture(this.options.audioFormat);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : 'AudioWorklet unavailable';
+      this.fallbackToWebm(reason);
+    }
+  }
+
+  private createRecordingMix(audioContext: AudioContext, destination: AudioNode) {
+    if (this.options.recordingChannels === 'mono') {
+      const mixer = audioContext.createGain();
+      mixer.connect(destination);
+      this.recordMicInput = mixer;
+      this.recordAgentInput = mixer;
+      this.recordingNodes = [mixer];
+      return;
+    }
+
+    // Each merger input is downmixed to one channel, so a stereo mic still lands on the left only.
+    const merger = audioContext.createChannelMerger(2);
+    const mic = audioContext.createGain();
+    const agent = audioContext.createGain();
+    mic.connect(merger, 0, 0);
+    agent.connect(merger, 0, 1);
+    merger.connect(destination);
+    this.recordMicInput = mic;
+    this.recordAgentInput = agent;
+    this.recordingNodes = [mic, agent, merger];
+    this.log('Recording in stereo: caller on the left channel, agent on the right');
+  }
+
+  /**
+   * Polls the microphone level and treats caller speech during TTS playback
+   * as a barge-in. Detection works the same for every upstream audio format.
+   */
+  private startBargeInDetection(analyser: AnalyserNode) {
+    const samples = new Float32Array(analyser.fftSize);
+    const detector = new VoiceActivityDetector(this.options.bargeIn, {
+      speechStart: onsetAt => {
+        this.speechOnsetAt = onsetAt;
+      },
+      speechEnd: () => {
+        this.speechOnsetAt = null;
+        this.bargedIn = false;
+        this.playback?.unduck();
+      },
+    });
+
+    this.vadTimer = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      const now = Date.now();
+      detector.process(rmsLevel(samples), now);
+      // Checked every tick, not only at onset, so talking before the agent starts still counts.
+      if (detector.isSpeech && !this.bargedIn && this.playback?.isSpeaking && this.inState('streaming')) {
+        this.bargedIn = true;
+        this.handleBargeIn(this.speechOnsetAt ?? now, now);
+      }
+    }, VAD_INTERVAL_MS);
+  }
+
+  private handleBargeIn(speechStartedAt: number, detectedAt: number) {
+    const { mode, duckGain } = this.options.bargeIn;
+    if (mode === 'off' || !this.playback) return;
+
+    const callStartedAt = this.startedAt ?? detectedAt;
+    const timing = {
+      speechStartMs: speechStartedAt - callStartedAt,
+      detectedAtMs: detectedAt - callStartedAt,
+      playbackPositionMs: Math.round(this.playback.speakingForMs),
+    };
+
+    if (mode === 'duck') {
+      this.playback.duck(duckGain);
+      this.log('Barge-in detected - ducking TTS playback', 'info', 'browser', { event: 'barge_in', mode, ...timing });
+    } else if (mode === 'stop') {
+      this.stopPlayback();
+      this.log('Barge-in detected - stopping TTS playback', 'info', 'browser', { event: 'barge_in', mode, ...timing });
+    } else {
+      this.log('Barge-in detected - leaving playback to the server', 'info', 'browser', { event: 'barge_in', mode, ...timing });
+    }
+    this.emit('bargeIn', { mode, speechStartMs: timing.speechStartMs });
+
+    if ((this.protocolVersion ?? 1) < BARGE_IN_PROTOCOL_VERSION) {
+      this.log(`Server protocol v${this.protocolVersion ?? 1} has no barge_in event - not reported`, 'warning');
+      return;
+    }
+    if (this.webSocket?.readyState === WebSocket.OPEN) {
+      this.webSocket.send(serializeClientMessage(createBargeInMessage(this.streamSid, mode, timing)));
+    }
+  }
+
+  /**
+   * Streams 20 ms PCM16/μ-law frames from an AudioWorklet as binary
+   * messages, announced by a Twilio-style `start` event carrying the format.
+   */
+  private async startFrameCapture(format: FrameAudioFormat) {
+    const audioContext = this.audioContext;
+    if (!audioContext?.audioWorklet) {
+      throw new Error('AudioWorklet is not supported in this browser');
+    }
+
+    await audioContext.audioWorklet.addModule(captureWorkletUrl);
+    if (!this.inState('connected') || !this.micOutput) return;
+
+    const node = new AudioWorkletNode(audioContext, CAPTURE_PROCESSOR_NAME, {
+      numberOfOutputs: 0,
+      processorOptions: { format },
+    });
+    node.port.onmessage = (event: MessageEvent<ArrayBuffer>) => this.sendOrBuffer(event.data, FRAME_DURATION_MS);
+    this.micOutput.connect(node);
+    this.captureNode = node;
+    this.activeAudioFormat = format;
+
+    if (this.webSocket?.readyState === WebSocket.OPEN) {
+      this.webSocket.send(serializeClientMessage(createStartMessage(this.streamSid, format)));
+    }
+    this.log(`Streaming ${format} frames (${FRAME_DURATION_MS} ms @ ${FRAME_FORMATS[format].sampleRate} Hz) as binary WebSocket messages`);
+  }
+
+  private fallbackToWebm(reason: string) {
+    this.log(`Binary audio capture unavailable (${reason}) - falling back to WebM chunks`, 'warning');
+    this.stopFrameCapture();
+    this.activeAudioFormat = 'webm';
+    if (this.micStream && !this.streamRecorder) {
+      this.startStreamRecorder(this.uplinkStream());
+    }
+  }
+
+  /**
+   * Switches the microphone mid-call. Only the capture track is replaced; the
+   * WebSocket, recorders and processing chain keep running. `null` selects
+   * the system default.
+   */
+  setInputDevice(deviceId: string | null) {
+    this.options.inputDeviceId = deviceId || null;
+    return this.switchMicrophone(this.options.inputDeviceId);
+  }
+
+  /** Routes TTS playback to another speaker; a no-op where `setSinkId` is unsupported. */
+  async setOutputDevice(deviceId: string | null) {
+    this.options.outputDeviceId = deviceId || null;
+    if (this.audioContext) {
+      await this.applyOutputDevice(this.options.outputDeviceId);
+    }
+  }
+
+  /** Opens the given microphone, falling back to the default if it has gone away. */
+  private async openMicrophone(deviceId: string | null) {
+    const audio = buildAudioConstraints(this.options.mic);
+    if (!deviceId) {
+      return navigator.mediaDevices.getUserMedia({ audio, video: false });
+    }
+
+    try {
+      return await navigator.mediaDevices.getUserMedia({ audio: { ...audio, deviceId: { exact: deviceId } }, video: false });
+    } catch (err) {
+      const name = err instanceof Error ? err.name : '';
+      if (name !== 'OverconstrainedError' && name !== 'NotFoundError') {
+        throw err;
+      }
+      this.log('Selected microphone is not available - using the default microphone', 'warning');
+      return navigator.mediaDevices.getUserMedia({ audio, video: false });
+    }
+  }
+
+  private describeMicrophone(stream: MediaStream) {
+    const [track] = stream.getAudioTracks();
+    return describeAppliedConstraints(track, this.options.mic);
+  }
+
+  private watchMicrophone(stream: MediaStream) {
+    const [track] = stream.getAudioTracks();
+    track?.addEventListener?.('ended', () => {
+      if (this.micStream === stream) {
+        this.log('Microphone disconnected', 'warning');
+        this.switchMicrophone(this.options.inputDeviceId);
+      }
+    });
+  }
+
+  /** Calls are serialised so a burst of devicechange events swaps at most one track at a time. */
+  private switchMicrophone(deviceId: string | null) {
+    this.inputSwitch = this.inputSwitch.then(() => this.replaceMicrophone(deviceId));
+    return this.inputSwitch;
+  }
+
+  private async replaceMicrophone(deviceId: string | null) {
+    if (!this.audioContext || !this.micInput || !this.inState('connected', 'streaming', 'reconnecting')) {
+      return;
+    }
+    const current = this.micStream?.getAudioTracks()[0];
+    if (deviceId && current?.readyState === 'live' && current.getSettings?.().deviceId === deviceId) {
+      return;
+    }
+
+    let stream: MediaStream;
+    try {
+      stream = await this.openMicrophone(deviceId);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Microphone access denied';
+      this.log(`Could not switch microphone: ${errorMessage}`, 'error');
+      return;
+    }
+
+    if (!this.audioContext || !this.micInput || !this.inState('connected', 'streaming', 'reconnecting')) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    const source = this.audioContext.createMediaStreamSource(stream);
+    source.connect(this.micInput);
+    this.micSource?.disconnect();
+    this.micStream?.getTracks().forEach(track => track.stop());
+    this.micSource = source;
+    this.micStream = stream;
+    this.watchMicrophone(stream);
+
+    const [track] = stream.getAudioTracks();
+    this.log(`Switched microphone to ${track?.label || 'default device'}`);
+    this.emit('device', { kind: 'input', deviceId: track?.getSettings?.().deviceId ?? deviceId, label: track?.label ?? '' });
+
+    // Constraints are re-negotiated for the new device and may differ.
+    this._micReport = { ...this._micReport, ...this.describeMicrophone(stream) };
+    this.emit('mic', this._micReport);
+  }
+
+  private async applyOutputDevice(deviceId: string | null) {
+    const audioContext = this.audioContext as SinkableAudioContext | null;
+    if (!audioContext?.setSinkId) {
+      if (deviceId) {
+        this.log('This browser cannot choose the speaker - TTS plays on the default output', 'warning');
+      }
+      return;
+    }
+
+    try {
+      await audioContext.setSinkId(deviceId ?? '');
+      this.activeOutputDeviceId = deviceId;
+      this.log(`TTS playback routed to ${deviceId ? 'selected speaker' : 'default speaker'}`);
+      this.emit('device', { kind: 'output', deviceId, label: '' });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'setSinkId failed';
+      this.log(`Could not switch speaker: ${errorMessage}`, 'warning');
+    }
+  }
+
+  /**
+   * Hot-plug handling: return to the preferred device when it reappears and
+   * fall back to the default when the device in use disappears.
+   */
+  private handleDeviceChange = async () => {
+    if (!this.audioContext) return;
+
+    let devices: MediaDeviceInfo[];
+    try {
+      devices = await navigator.mediaDevices.enumerateDevices();
+    } catch {
+      return;
+    }
+    const present = (kind: MediaDeviceKind, deviceId: string | null) =>
+      deviceId !== null && devices.some(device => device.kind === kind && device.deviceId === deviceId);
+
+    const preferredInput = this.options.inputDeviceId;
+    const track = this.micStream?.getAudioTracks()[0];
+    const currentInput = track?.getSettings?.().deviceId ?? null;
+    if (present('audioinput', preferredInput) && currentInput !== preferredInput) {
+      this.log('Preferred microphone connected - switching to it');
+      this.switchMicrophone(preferredInput);
+    } else if (track?.readyState === 'ended' || (currentInput && !present('audioinput', currentInput))) {
+      this.log('Microphone in use was disconnected - switching to the default microphone', 'warning');
+      this.switchMicrophone(null);
+    }
+
+    if (!(this.audioContext as SinkableAudioContext).setSinkId) return;
+    const preferredOutput = this.options.outputDeviceId;
+    if (present('audiooutput', preferredOutput) && this.activeOutputDeviceId !== preferredOutput) {
+      await this.applyOutputDevice(preferredOutput);
+    } else if (this.activeOutputDeviceId && !present('audiooutput', this.activeOutputDeviceId)) {
+      this.log('Speaker in use was disconnected - switching to the default speaker', 'warning');
+      await this.applyOutputDevice(null);
+    }
+  };
+
+  /**
+   * Optional high-pass and noise gate between the microphone and everything
+   * that consumes it. A stage that can't be built is skipped with a warning
+   * rather than failing the call.
+   */
+  private async buildMicChain(audioContext: AudioContext, micSource: AudioNode) {
+    const { highPass, highPassHz, noiseGate, noiseGateThresholdDbfs } = this.options.mic;
+    const chain = { output: micSource, highPass: false, noiseGate: false };
+
+    if (highPass) {
+      const filter = audioContext.createBiquadFilter();
+      filter.type = 'highpass';
+      filter.frequency.value = highPassHz;
+      chain.output.connect(filter);
+      this.micStages.push(filter);
+      chain.output = filter;
+      chain.highPass = true;
+    }
+
+    if (noiseGate) {
+      try {
+        if (!audioContext.audioWorklet) {
+          throw new Error('AudioWorklet is not supported in this browser');
+        }
+        await audioContext.audioWorklet.addModule(noiseGateWorkletUrl);
+        const gate = new AudioWorkletNode(audioContext, NOISE_GATE_PROCESSOR_NAME, {
+          processorOptions: { thresholdDbfs: noiseGateThresholdDbfs },
+        });
+        chain.output.connect(gate);
+        this.micStages.push(gate);
+        chain.output = gate;
+        chain.noiseGate = true;
+      } catch (err) {
+        const reason = err instanceof Error ? err.message : 'AudioWorklet unavailable';
+        this.log(`Noise gate unavailable (${reason}) - sending ungated audio`, 'warning');
+      }
+    }
+
+    return chain;
+  }
+
+  /**
+   * The stream MediaRecorder sends: the end of the mic chain rather than the
+   * raw track, so in-browser stages apply and a microphone can be hot-swapped
+   * without restarting the recorder.
+   */
+  private uplinkStream() {
+    if (!this.audioContext || !this.micOutput) {
+      return this.micStream;
+    }
+    if (!this.uplinkDestination) {
+      this.uplinkDestination = this.audioContext.createMediaStreamDestination();
+      this.micOutput.connect(this.uplinkDestination);
+    }
+    return this.uplinkDestination.stream;
+  }
+
+  private stopFrameCapture() {
+    if (!this.captureNode) return;
+    this.captureNode.port.onmessage = null;
+    this.captureNode.disconnect();
+    this.captureNode = null;
+  }
+
+  private startConversationRecorder(stream: MediaStream) {
+    const recorder = new MediaRecorder(stream);
+    this.conversationRecorder = recorder;
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        this.audioChunks.push(event.data);
+        this.log(`Full conversation chunk recorded: ${event.data.size} bytes`);
+      }
+    };
+
+    recorder.onstart = () => {
+      this.log('Full conversation recording started', 'info', 'browser', { event: 'recording_started' });
+    };
+
+    recorder.onstop = () => {
+      this.log('Full conversation recording stopped');
+    };
+
+    recorder.onerror = (event) => {
+      this.log(`Full conversation recorder error: ${recorderErrorName(event)}`, 'error');
+    };
+
+    recorder.start(this.options.chunkDurationMs);
+  }
+
+  private startStreamRecorder(stream: MediaStream) {
+    const recorder = new MediaRecorder(stream);
+    this.streamRecorder = recorder;
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        this.sendAudioChunk(event.data);
+      }
+    };
+
+    recorder.onstart = () => {
+      this.log('WebSocket streaming started');
+    };
+
+    recorder.onstop = () => {
+      this.log('WebSocket streaming stopped');
+    };
+
+    recorder.onerror = (event) => {
+      this.log(`WebSocket streaming error: ${recorderErrorName(event)}`, 'error');
+      this.fail(`MediaRecorder error: ${recorderErrorName(event)}`);
+    };
+
+    recorder.start(this.options.chunkDurationMs);
+  }
+
+  private sendAudioChunk(chunk: Blob) {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const base64Audio = (reader.result as string).split(',')[1];
+      this.sendOrBuffer(serializeClientMessage(createMediaMessage(this.streamSid, base64Audio)), this.options.chunkDurationMs);
+    };
+    reader.readAsDataURL(chunk);
+  }
+
+  private sendOrBuffer(data: string | ArrayBuffer, durationMs: number) {
+    if (this.webSocket?.readyState === WebSocket.OPEN && this.inState('streaming', 'connected')) {
+      this.webSocket.send(data);
+      // Binary frames arrive 50 times a second; only WebM chunks are worth a log line each.
+      if (typeof data === 'string') {
+        this.log('Audio chunk sent to server using websocket');
+      }
+      return;
+    }
+
+    if (!this.inState('reconnecting')) {
+      return;
+    }
+
+    this.bufferedAudio.push({ data, durationMs });
+    this.bufferedMs += durationMs;
+    while (this.bufferedMs > this.options.maxBufferedSeconds * 1000 && this.bufferedAudio.length > 0) {
+      this.bufferedMs -= this.bufferedAudio.shift().durationMs;
+      if (!this.bufferOverflowLogged) {
+        this.bufferOverflowLogged = true;
+        this.log(`Reconnect buffer full - keeping only the last ${this.options.maxBufferedSeconds}s of audio`, 'warning');
+      }
+    }
+  }
+
+  private flushBufferedAudio() {
+    const buffered = this.bufferedAudio;
+    const bufferedMs = this.bufferedMs;
+    this.bufferedAudio = [];
+    this.bufferedMs = 0;
+    this.bufferOverflowLogged = false;
+    if (buffered.length === 0) {
+      return;
+    }
+
+    this.log(`Replaying ${buffered.length} audio chunks (${(bufferedMs / 1000).toFixed(1)}s) buffered while disconnected`);
+    buffered.forEach(({ data }) => this.webSocket?.send(data));
+  }
+
+  /** Stops a recorder and resolves after its final `dataavailable` has fired. */
+  private stopRecorder(recorder: MediaRecorder | null) {
+    if (!recorder || recorder.state === 'inactive') {
+      return Promise.resolve();
+    }
+
+    return new Promise<void>(resolve => {
+      recorder.addEventListener('stop', () => resolve(), { once: true });
+      recorder.stop();
+    });
+  }
+
+  /** Tears down every resource the session owns. Safe to call repeatedly. */
+  private release() {
+    this.log('Cleaning up audio resources...');
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.bufferedAudio = [];
+    this.bufferedMs = 0;
+    this.stopFrameCapture();
+
+    if (this.vadTimer) {
+      clearInterval(this.vadTimer);
+      this.vadTimer = null;
+    }
+    this._inputAnalyser?.disconnect();
+    this._inputAnalyser = null;
+    this._outputAnalyser?.disconnect();
+    this._outputAnalyser = null;
+
+    if (this.jitterBuffer) {
+      this.playbackStats = this.jitterBuffer.stats;
+      this.jitterBuffer.dispose();
+      this.jitterBuffer = null;
+      if (this.playbackStats.received > 0) {
+        const { received, lost, late, reordered, duplicates } = this.playbackStats;
+        this.log(
+          `TTS chunk stats: ${received} received, ${lost} lost, ${late} late, ${reordered} reordered, ${duplicates} duplicate`,
+          'info',
+          'browser',
+          { ...this.playbackStats }
+        );
+      }
+    }
+    this.playback?.stop();
+    this.playback = null;
+
+    for (const recorder of [this.conversationRecorder, this.streamRecorder]) {
+      if (recorder && recorder.state !== 'inactive') {
+        recorder.stop();
+      }
+    }
+    this.conversationRecorder = null;
+    this.streamRecorder = null;
+
+    this.micStream?.getTracks().forEach(track => track.stop());
+    this.micStream = null;
+
+    navigator.mediaDevices?.removeEventListener?.('devicechange', this.handleDeviceChange);
+    this.micSource?.disconnect();
+    this.micSource = null;
+    this.micInput?.disconnect();
+    this.micInput = null;
+    this.micStages.forEach(stage => stage.disconnect());
+    this.micStages = [];
+    this.micOutput = null;
+    this.uplinkDestination?.disconnect();
+    this.uplinkDestination = null;
+    this.recordingNodes.forEach(node => node.disconnect());
+    this.recordingNodes = [];
+    this.recordMicInput = null;
+    this.recordAgentInput = null;
+    this.destination?.disconnect();
+    this.destination = null;
+
+    if (this.audioContext && this.audioContext.state !== 'closed') {
+      this.audioContext.close();
+    }
+    this.audioContext = null;
+
+    const webSocket = this.webSocket;
+    this.webSocket = null;
+    if (webSocket && (webSocket.readyState === WebSocket.OPEN || webSocket.readyState === WebSocket.CONNECTING)) {
+      webSocket.close(1000, 'Client initiated stop');
+    }
+  }
+}
+
+const createLevelAnalyser = (audioContext: AudioContext) => {
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 1024;
+  return analyser;
+};
+
+const recorderErrorName = (event: Event) =>
+  (event as Event & { error?: DOMException }).error?.name ?? 'UnknownError';
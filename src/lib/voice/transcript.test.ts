@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import type { ServerTranscriptMessage } from './protocol';
+import { applyTranscriptMessage, formatTranscript } from './transcript';
+
+const message = (overrides: Partial<ServerTranscriptMessage>): ServerTranscriptMessage => ({
+  type: 'transcript',
+  id: 'u1',
+  speaker: 'prospect',
+  text: '',
+  final: false,
+  startMs: 0,
+  endMs: 0,
+  ...overrides,
+});
+
+describe('applyTranscriptMessage', () => {
+  it('revises an utterance in place and appends new ones', () => {
+    let segments = applyTranscriptMessage([], message({ id: 'u1', text: 'hi' }));
+    segments = applyTranscriptMessage(segments, message({ id: 'a1', speaker: 'agent', text: 'Hello' }));
+    segments = applyTranscriptMessage(segments, message({ id: 'u1', text: 'hi there', final: true }));
+
+    expect(segments.map(segment => [segment.id, segment.text, segment.final])).toEqual([
+      ['u1', 'hi there', true],
+      ['a1', 'Hello', false],
+    ]);
+  });
+
+  it('ignores interim results that arrive after the final one', () => {
+    const final = applyTranscriptMessage([], message({ text: 'hi there', final: true }));
+
+    expect(applyTranscriptMessage(final, message({ text: 'hi' }))).toBe(final);
+  });
+});
+
+describe('formatTranscript', () => {
+  it('writes one line per utterance with its start time and speaker', () => {
+    const segments = [
+      applyTranscriptMessage([], message({ text: 'Who is this?', final: true, startMs: 4200 }))[0],
+      applyTranscriptMessage([], message({ id: 'a1', speaker: 'agent', text: 'Sam from Acme', startMs: 65000 }))[0],
+      applyTranscriptMessage([], message({ id: 'u2', text: '  ' }))[0],
+    ];
+
+    expect(formatTranscript(segments)).toBe('[0:04] Prospect: Who is this?\n[1:05] Agent: Sam from Acme');
+  });
+});
@@ -0,0 +1,50 @@
+import type { ServerTranscriptMessage } from './protocol';
+import type { TranscriptSegment, TranscriptSpeaker } from './types';
+
+export const SPEAKER_LABELS: Record<TranscriptSpeaker, string> = {
+  prospect: 'Prospect',
+  agent: 'Agent',
+  unknown: 'Speaker',
+};
+
+/**
+ * Applies one `transcript` message: an interim or final result for a known
+ * utterance replaces it where it stands, a new utterance is appended. Once
+ * final, an utterance ignores late interim results. Returns a new array.
+ */
+export const applyTranscriptMessage = (segments: TranscriptSegment[], message: ServerTranscriptMessage) => {
+  const segment: TranscriptSegment = {
+    id: message.id,
+    speaker: message.speaker,
+    text: message.text,
+    final: message.final,
+    startMs: message.startMs,
+    endMs: message.endMs,
+  };
+
+  const index = segments.findIndex(existing => existing.id === message.id);
+  if (index === -1) {
+    return [...segments, segment];
+  }
+  if (segments[index].final && !message.final) {
+    return segments;
+  }
+  const next = [...segments];
+  next[index] = segment;
+  return next;
+};
+
+export const formatTranscriptTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+/**
+ * One line per utterance, e.g. `[0:04] Prospect: Hi, who is this?`. An
+ * utterance still interim when the call ended keeps its last text.
+ */
+export const formatTranscript = (segments: TranscriptSegment[]) =>
+  segments
+    .filter(segment => segment.text.trim())
+    .map(segment => `[${formatTranscriptTime(segment.startMs)}] ${SPEAKER_LABELS[segment.speaker]}: ${segment.text.trim()}`)
+    .join('\n');
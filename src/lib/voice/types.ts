@@ -0,0 +1,194 @@
+export type LogType = 'info' | 'error' | 'warning';
+export type LogSource = 'server' | 'browser';
+
+export interface LogEntry {
+  timestamp: string;
+  type: LogType;
+  source: LogSource;
+  message: string;
+  /** Structured details behind the message, e.g. the raw server message or stats. */
+  payload?: Record<string, unknown>;
+}
+
+/**
+ * Moments a call review marks on the recording, tagged as `payload.event` on
+ * their log line so they survive being saved without matching on wording.
+ */
+export type CallLogEvent = 'stream_started' | 'recording_started' | 'barge_in' | 'playback_stop' | 'end_call';
+
+/**
+ * Lifecycle of a single call:
+ * idle → connecting → connected → streaming → stopping → closed,
+ * with `failed` reachable from any non-terminal state. A dropped socket
+ * moves streaming → reconnecting and back to streaming once resumed.
+ */
+export type VoiceStreamState =
+  | 'idle'
+  | 'connecting'
+  | 'connected'
+  | 'streaming'
+  | 'reconnecting'
+  | 'stopping'
+  | 'closed'
+  | 'failed';
+
+/**
+ * How microphone audio is sent upstream: `webm` is MediaRecorder chunks as
+ * base64 JSON, the frame formats are 20 ms binary frames from an AudioWorklet.
+ */
+export type AudioFormat = 'webm' | 'pcm16' | 'mulaw';
+export type FrameAudioFormat = Exclude<AudioFormat, 'webm'>;
+
+export interface ReconnectOptions {
+  /** Set to 0 to end the call on the first drop. */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface JitterBufferOptions {
+  /** How long the first chunk of an utterance is held so late neighbours can catch up. */
+  targetDelayMs: number;
+  /** How long a missing seq may hold up later chunks before it is declared lost. */
+  gapTimeoutMs: number;
+}
+
+export interface JitterBufferStats {
+  received: number;
+  released: number;
+  /** Arrived after a higher seq had already been seen. */
+  reordered: number;
+  /** Arrived after its slot was skipped or played; dropped. */
+  late: number;
+  /** Never arrived within the gap timeout; skipped. */
+  lost: number;
+  duplicates: number;
+  /** Times the server restarted numbering at seq 0 for a new utterance. */
+  resets: number;
+}
+
+export interface PlaybackOptions {
+  /** Overlap between consecutive TTS chunks, faded out/in to avoid clicks. */
+  crossfadeMs: number;
+  /** How far ahead of the AudioContext clock a chunk is scheduled after an underrun. */
+  scheduleAheadMs: number;
+}
+
+/**
+ * What the client does when the caller talks over the agent: `duck` lowers
+ * TTS playback, `stop` cuts it, `server` only reports the barge-in and leaves
+ * the decision to the server. Every mode except `off` tells the server.
+ */
+export type BargeInMode = 'off' | 'duck' | 'stop' | 'server';
+
+export interface BargeInOptions {
+  mode: BargeInMode;
+  /** 0–1; higher values trigger on quieter speech. */
+  sensitivity: number;
+  /** How long speech must last before it counts as a barge-in. */
+  minSpeechMs: number;
+  /** Silence that ends the caller's utterance and restores ducked playback. */
+  hangoverMs: number;
+  /** Playback gain while ducked. */
+  duckGain: number;
+}
+
+export type MicConstraintName = 'echoCancellation' | 'noiseSuppression' | 'autoGainControl';
+
+export interface MicProcessingOptions extends Record<MicConstraintName, boolean> {
+  /** Cuts rumble and handling noise below `highPassHz` before audio is sent. */
+  highPass: boolean;
+  highPassHz: number;
+  /** Mutes the mic between words when it is quieter than `noiseGateThresholdDbfs`. */
+  noiseGate: boolean;
+  noiseGateThresholdDbfs: number;
+}
+
+/** What the browser actually did with the requested mic processing. */
+export interface MicProcessingReport {
+  requested: Record<MicConstraintName, boolean>;
+  /** From `MediaStreamTrack.getSettings()`; a key is missing when the browser doesn't report it. */
+  applied: Partial<Record<MicConstraintName, boolean>>;
+  /** Constraints whose applied value differs from the request or is unknown. */
+  mismatched: MicConstraintName[];
+  highPass: boolean;
+  noiseGate: boolean;
+}
+
+/**
+ * `prospect` is the person called, `agent` the voice agent on our side.
+ * `unknown` is for offline transcripts of a mixed-down recording.
+ */
+export type TranscriptSpeaker = 'prospect' | 'agent' | 'unknown';
+
+export interface TranscriptSegment {
+  id: string;
+  speaker: TranscriptSpeaker;
+  text: string;
+  /** False while the server may still revise the text. */
+  final: boolean;
+  /** Milliseconds since the call started streaming. */
+  startMs: number;
+  endMs: number;
+}
+
+/**
+ * How the conversation recording is laid out: `mono` mixes both sides,
+ * `stereo` puts the caller's mic on the left channel and agent TTS on the right.
+ */
+export type RecordingChannels = 'mono' | 'stereo';
+
+export interface VoiceStreamOptions {
+  url: string;
+  language: string;
+  chunkDurationMs?: number;
+  connectTimeoutMs?: number;
+  /** How long to wait for the server's hello before treating it as a v1 server. */
+  helloTimeoutMs?: number;
+  /** Falls back to `webm` when the browser or server cannot do binary frames. */
+  audioFormat?: AudioFormat;
+  reconnect?: Partial<ReconnectOptions>;
+  /** Seconds of microphone audio kept while reconnecting; older audio is dropped. */
+  maxBufferedSeconds?: number;
+  jitterBuffer?: Partial<JitterBufferOptions>;
+  playback?: Partial<PlaybackOptions>;
+  bargeIn?: Partial<BargeInOptions>;
+  mic?: Partial<MicProcessingOptions>;
+  /** Microphone to open; `null` or missing uses the system default. */
+  inputDeviceId?: string | null;
+  /** Speaker for TTS playback, where the browser supports `AudioContext.setSinkId`. */
+  outputDeviceId?: string | null;
+  recordingChannels?: RecordingChannels;
+}
+
+export interface VoiceStreamResult {
+  id: string;
+  streamSid: string;
+  duration: number;
+  logs: LogEntry[];
+  /** Every utterance in order of first appearance, interim ones included as last seen. */
+  transcript: TranscriptSegment[];
+  audioBlob?: Blob;
+  /** Layout of `audioBlob`. */
+  recordingChannels: RecordingChannels;
+  error?: string;
+  /** TTS chunk delivery stats; absent if playback never started. */
+  playbackStats?: JitterBufferStats;
+  micReport?: MicProcessingReport;
+}
+
+export interface VoiceStreamEventMap {
+  state: { state: VoiceStreamState; previous: VoiceStreamState };
+  log: LogEntry;
+  /** The whole transcript so far, after an utterance was added, revised or finalised. */
+  transcript: TranscriptSegment[];
+  duration: number;
+  reconnecting: { attempt: number; maxAttempts: number; delayMs: number };
+  /** The agent's TTS audio started or finished playing out. */
+  speaking: boolean;
+  bargeIn: { mode: BargeInMode; speechStartMs: number };
+  mic: MicProcessingReport;
+  /** The call switched microphone or speaker; `deviceId` is null for the system default. */
+  device: { kind: 'input' | 'output'; deviceId: string | null; label: string };
+  ended: VoiceStreamResult;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from 'vitest';
+import { VoiceActivityDetector, rmsLevel, sensitivityToThreshold } from './vad';
+
+const LOUD = -20;
+const QUIET = -70;
+
+const createDetector = () => {
+  const speechStart = vi.fn();
+  const speechEnd = vi.fn();
+  const detector = new VoiceActivityDetector(
+    { sensitivity: 0.5, minSpeechMs: 100, hangoverMs: 200 },
+    { speechStart, speechEnd }
+  );
+  /** Feeds `levels` as consecutive 20 ms measurements starting at `startMs`. */
+  const feed = (levels: number[], startMs = 0) => levels.forEach((level, i) => detector.process(level, startMs + i * 20));
+  return { detector, speechStart, speechEnd, feed };
+};
+
+describe('VoiceActivityDetector', () => {
+  it('fires once speech has lasted minSpeechMs, reporting its onset', () => {
+    const { detector, speechStart, feed } = createDetector();
+
+    feed([QUIET, LOUD, LOUD, LOUD, LOUD, LOUD]);
+    expect(speechStart).not.toHaveBeenCalled();
+
+    feed([LOUD], 120);
+    expect(speechStart).toHaveBeenCalledWith(20);
+    expect(detector.isSpeech).toBe(true);
+  });
+
+  it('ignores short bursts such as clicks', () => {
+    const { speechStart, feed } = createDetector();
+
+    feed([LOUD, LOUD, ...Array(15).fill(QUIET), LOUD]);
+
+    expect(speechStart).not.toHaveBeenCalled();
+  });
+
+  it('bridges pauses shorter than the hangover and ends after it', () => {
+    const { detector, speechEnd, feed } = createDetector();
+    feed(Array(6).fill(LOUD));
+
+    feed([QUIET, QUIET, QUIET, LOUD], 120);
+    expect(detector.isSpeech).toBe(true);
+
+    feed(Array(11).fill(QUIET), 200);
+    expect(speechEnd).toHaveBeenCalledTimes(1);
+    expect(detector.isSpeech).toBe(false);
+  });
+});
+
+describe('level helpers', () => {
+  it('maps higher sensitivity to a lower threshold', () => {
+    expect(sensitivityToThreshold(1)).toBe(-60);
+    expect(sensitivityToThreshold(0)).toBe(-20);
+    expect(sensitivityToThreshold(0.5)).toBe(-40);
+  });
+
+  it('measures RMS level in dBFS', () => {
+    expect(rmsLevel(new Float32Array(128).fill(1))).toBeCloseTo(0);
+    expect(rmsLevel(new Float32Array(128).fill(0.1))).toBeCloseTo(-20);
+  });
+});
@@ -0,0 +1,74 @@
+import type { BargeInOptions } from './types';
+
+export interface VoiceActivityCallbacks {
+  /** `onsetMs` is when the first loud frame of this utterance was seen. */
+  speechStart: (onsetMs: number) => void;
+  speechEnd?: () => void;
+}
+
+/** Quietest (sensitivity 1) and loudest (sensitivity 0) RMS level treated as speech. */
+const MIN_THRESHOLD_DBFS = -60;
+const MAX_THRESHOLD_DBFS = -20;
+
+/** Maps 0–1 sensitivity to an RMS threshold in dBFS. */
+export const sensitivityToThreshold = (sensitivity: number) => {
+  const clamped = Math.min(1, Math.max(0, sensitivity));
+  return MAX_THRESHOLD_DBFS - clamped * (MAX_THRESHOLD_DBFS - MIN_THRESHOLD_DBFS);
+};
+
+/** RMS level of a block of float samples, in dBFS (-Infinity for silence). */
+export const rmsLevel = (samples: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return 20 * Math.log10(Math.sqrt(sum / samples.length));
+};
+
+/**
+ * Energy-based voice activity detector. Speech starts once the level has
+ * stayed above the threshold for `minSpeechMs`, so clicks and coughs don't
+ * count, and ends after `hangoverMs` below it, so pauses between words don't
+ * split an utterance.
+ */
+export class VoiceActivityDetector {
+  private readonly threshold: number;
+  private onsetMs: number | null = null;
+  private lastLoudMs: number | null = null;
+  private speaking = false;
+
+  constructor(
+    private readonly options: Pick<BargeInOptions, 'sensitivity' | 'minSpeechMs' | 'hangoverMs'>,
+    private readonly callbacks: VoiceActivityCallbacks
+  ) {
+    this.threshold = sensitivityToThreshold(options.sensitivity);
+  }
+
+  get isSpeech() {
+    return this.speaking;
+  }
+
+  /** Feeds one level measurement taken at `timeMs`. */
+  process(levelDbfs: number, timeMs: number) {
+    if (levelDbfs >= this.threshold) {
+      if (this.onsetMs === null) {
+        this.onsetMs = timeMs;
+      }
+      this.lastLoudMs = timeMs;
+      if (!this.speaking && timeMs - this.onsetMs >= this.options.minSpeechMs) {
+        this.speaking = true;
+        this.callbacks.speechStart(this.onsetMs);
+      }
+      return;
+    }
+
+    if (this.lastLoudMs !== null && timeMs - this.lastLoudMs >= this.options.hangoverMs) {
+      this.onsetMs = null;
+      this.lastLoudMs = null;
+      if (this.speaking) {
+        this.speaking = false;
+        this.callbacks.speechEnd?.();
+      }
+    }
+  }
+}
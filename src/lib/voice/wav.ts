@@ -0,0 +1,34 @@
+/**
+ * Wraps interleaved signed 16-bit samples in a canonical 44-byte RIFF/WAVE
+ * header. Works in the browser and in Node (no Buffer).
+ */
+export const encodeWav = (samples: Int16Array, sampleRate: number, channels = 1): Uint8Array => {
+  const dataSize = samples.length * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * 2, true);
+  view.setUint16(32, channels * 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    view.setInt16(44 + i * 2, samples[i], true);
+  }
+
+  return new Uint8Array(view.buffer);
+};
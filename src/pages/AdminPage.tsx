@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { AlertCircle, MailPlus, Trash2 } from "lucide-react";
+import Header from "@/components/Header";
+import SignInProvidersCard from "@/components/SignInProvidersCard";
+import VoiceServersCard from "@/components/VoiceServersCard";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/hooks/useAuth";
+import { useCreateTeam, useDeleteTeam, useInviteUser, useTeams, useUpdateUserAccess, useUsers } from "@/hooks/useUsers";
+import { APP_ROLES, type AppRole, ROLE_LABELS } from "@/lib/auth/roles";
+
+// Radix Select can't use an empty string as an item value.
+const NO_TEAM = "none";
+
+const AdminPage = () => {
+  const { user } = useAuth();
+  const users = useUsers();
+  const teams = useTeams();
+  const updateAccess = useUpdateUserAccess();
+  const createTeam = useCreateTeam();
+  const deleteTeam = useDeleteTeam();
+  const inviteUser = useInviteUser();
+  const [teamName, setTeamName] = useState("");
+  const [invite, setInvite] = useState({ email: "", role: "agent" as AppRole, teamId: NO_TEAM });
+  const [invitedEmail, setInvitedEmail] = useState<string | null>(null);
+
+  const error = users.error ?? teams.error ?? updateAccess.error ?? inviteUser.error ?? createTeam.error ?? deleteTeam.error;
+  const memberCount = (teamId: string) => users.data?.filter((member) => member.teamId === teamId).length ?? 0;
+
+  return (
+    <div className="min-h-screen bg-white">
+      <Header />
+      <div className="container mx-auto px-4 py-12 space-y-8">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Invite user</CardTitle>
+            <CardDescription>
+              Accounts are invite-only. The invite email links to a page where they choose their password.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <form
+              className="flex flex-wrap gap-2"
+              onSubmit={(event) => {
+                event.preventDefault();
+                const email = invite.email.trim();
+                if (!email) return;
+                setInvitedEmail(null);
+                inviteUser.mutate(
+                  { email, role: invite.role, teamId: invite.teamId === NO_TEAM ? null : invite.teamId },
+                  {
+                    onSuccess: () => {
+                      setInvitedEmail(email);
+                      setInvite((current) => ({ ...current, email: "" }));
+                    },
+                  }
+                );
+              }}
+            >
+              <Input
+                type="email"
+                value={invite.email}
+                onChange={(event) => setInvite((current) => ({ ...current, email: event.target.value }))}
+                placeholder="name@company.com"
+                aria-label="Email to invite"
+                className="max-w-xs"
+              />
+              <Select value={invite.role} onValueChange={(role) => setInvite((current) => ({ ...current, role: role as AppRole }))}>
+                <SelectTrigger className="w-36" aria-label="Role of the invited user">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {APP_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={invite.teamId} onValueChange={(teamId) => setInvite((current) => ({ ...current, teamId }))}>
+                <SelectTrigger className="w-48" aria-label="Team of the invited user">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TEAM}>No team</SelectItem>
+                  {teams.data?.map((team) => (
+                    <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="submit" disabled={!invite.email.trim() || inviteUser.isPending}>
+                <MailPlus className="w-4 h-4 mr-2" />
+                {inviteUser.isPending ? "Sending..." : "Send invite"}
+              </Button>
+            </form>
+            {invitedEmail && (
+              <div className="text-sm text-muted-foreground" role="status">Invite sent to {invitedEmail}.</div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Users</CardTitle>
+            <CardDescription>
+              Agents see their own calls, supervisors also see their team's, admins see everyone's and manage this page.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Team</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center text-muted-foreground">Loading users...</TableCell>
+                  </TableRow>
+                ) : (
+                  users.data?.map((member) => {
+                    // Admins can't change their own access, so there is always an admin left.
+                    const isSelf = member.id === user?.id;
+                    return (
+                      <TableRow key={member.id}>
+                        <TableCell>
+                          {member.email ?? member.id}
+                          {isSelf && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={member.role}
+                            disabled={isSelf}
+                            onValueChange={(role) => updateAccess.mutate({ userId: member.id, role: role as AppRole })}
+                          >
+                            <SelectTrigger className="w-36" aria-label={`Role of ${member.email ?? member.id}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {APP_ROLES.map((role) => (
+                                <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={member.teamId ?? NO_TEAM}
+                            disabled={isSelf}
+                            onValueChange={(teamId) =>
+                              updateAccess.mutate({ userId: member.id, teamId: teamId === NO_TEAM ? null : teamId })
+                            }
+                          >
+                            <SelectTrigger className="w-48" aria-label={`Team of ${member.email ?? member.id}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NO_TEAM}>No team</SelectItem>
+                              {teams.data?.map((team) => (
+                                <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Teams</CardTitle>
+            <CardDescription>Supervisors see the calls of everyone on their team.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form
+              className="flex gap-2"
+              onSubmit={(event) => {
+                event.preventDefault();
+                if (!teamName.trim()) return;
+                createTeam.mutate(teamName, { onSuccess: () => setTeamName("") });
+              }}
+            >
+              <Input
+                value={teamName}
+                onChange={(event) => setTeamName(event.target.value)}
+                placeholder="New team name"
+                aria-label="New team name"
+                className="max-w-xs"
+              />
+              <Button type="submit" variant="outline" disabled={!teamName.trim() || createTeam.isPending}>
+                Add team
+              </Button>
+            </form>
+
+            {teams.data?.length === 0 ? (
+              <div className="text-sm text-muted-foreground">No teams yet.</div>
+            ) : (
+              <ul className="divide-y rounded-lg border">
+                {teams.data?.map((team) => (
+                  <li key={team.id} className="flex items-center justify-between px-4 py-2 text-sm">
+                    <span>
+                      {team.name}
+                      <span className="ml-2 text-muted-foreground">
+                        {memberCount(team.id)} member{memberCount(team.id) === 1 ? "" : "s"}
+                      </span>
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteTeam.mutate(team.id)}
+                      aria-label={`Delete team ${team.name}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <VoiceServersCard />
+
+        <SignInProvidersCard />
+      </div>
+    </div>
+  );
+};
+
+export default AdminPage;
@@ -0,0 +1,119 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { forwardRef, useImperativeHandle } from 'react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { describe, expect, it, vi } from 'vitest';
+import { fetchCallEvents } from '@/lib/recordings/call-events';
+import type { CallEvent } from '@/lib/recordings/call-events';
+import { type CallDetail, fetchCall, fetchRecordingAudioUrl } from '@/lib/recordings/calls';
+import CallDetailPage from './CallDetailPage';
+
+const seek = vi.hoisted(() => vi.fn());
+
+// Decoding audio for the waveform needs a real AudioContext; only seeking matters here.
+vi.mock('@/components/WaveformPlayer', () => ({
+  default: forwardRef((_props, ref) => {
+    useImperativeHandle(ref, () => ({ seek }));
+    return null;
+  }),
+}));
+
+vi.mock('@/hooks/useAuth', () => ({
+  useAuth: () => ({ user: { id: 'user-1', email: 'agent@example.com' }, role: 'agent', hasRole: () => false }),
+}));
+
+const failedCall: CallDetail = {
+  id: '3f2a9c1d-0000-4000-8000-000000000000',
+  user_id: 'user-1',
+  stream_sid: 'stream-1',
+  storage_path: null,
+  mime_type: null,
+  size_bytes: null,
+  duration_seconds: 0,
+  language: 'English',
+  status: 'error',
+  error: 'WebSocket connection failed',
+  started_at: '2026-10-19T14:05:17.000Z',
+  created_at: '2026-10-19T14:05:18.000Z',
+  channels: 1,
+  profiles: { email: 'agent@example.com' },
+  transcript: [],
+};
+
+const event = (seq: number, level: CallEvent['level'], message: string, overrides: Partial<CallEvent> = {}): CallEvent => ({
+  id: seq,
+  call_id: failedCall.id,
+  user_id: 'user-1',
+  seq,
+  occurred_at: '2026-10-19T14:05:17.000Z',
+  level,
+  source: 'browser',
+  message,
+  payload: null,
+  created_at: '2026-10-19T14:05:18.000Z',
+  ...overrides,
+});
+
+vi.mock('@/lib/recordings/calls', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/recordings/calls')>()),
+  fetchCall: vi.fn(async () => failedCall),
+  fetchRecordingAudioUrl: vi.fn(async () => {
+    throw new Error('A failed call without audio has no file to load');
+  }),
+}));
+
+vi.mock('@/lib/recordings/call-events', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/recordings/call-events')>()),
+  fetchCallEvents: vi.fn(async () => [
+    event(0, 'info', '[Browser]: Connecting to WebSocket...'),
+    event(1, 'error', '[Browser]: Failed to start recording: WebSocket connection failed'),
+  ]),
+}));
+
+const renderPage = () =>
+  render(
+    <QueryClientProvider client={new QueryClient()}>
+      <MemoryRouter initialEntries={[`/calls/${failedCall.id}`]}>
+        <Routes>
+          <Route path="/calls/:id" element={<CallDetailPage />} />
+        </Routes>
+      </MemoryRouter>
+    </QueryClientProvider>
+  );
+
+describe('CallDetailPage', () => {
+  it('opens the timeline of a call that failed before any audio was recorded', async () => {
+    renderPage();
+
+    expect(await screen.findByText('Failed')).toBeInTheDocument();
+    expect(screen.getByText('Error: WebSocket connection failed')).toBeInTheDocument();
+    expect(screen.getByText('No audio was recorded before this call failed.')).toBeInTheDocument();
+    expect(await screen.findByText('[Browser]: Failed to start recording: WebSocket connection failed')).toBeInTheDocument();
+    expect(screen.getByText('[Browser]: Connecting to WebSocket...')).toBeInTheDocument();
+  });
+
+  it('seeks transcript lines to their place in the recording, which starts after the stream', async () => {
+    vi.mocked(fetchCall).mockResolvedValueOnce({
+      ...failedCall,
+      storage_path: 'user-1/call.webm',
+      mime_type: 'audio/webm',
+      size_bytes: 2048,
+      status: 'success',
+      error: null,
+      transcript: [{ id: 't1', speaker: 'prospect', text: 'Who is this?', final: true, startMs: 4000, endMs: 5000 }],
+    });
+    vi.mocked(fetchRecordingAudioUrl).mockResolvedValueOnce('blob:recording');
+    vi.mocked(fetchCallEvents).mockResolvedValueOnce([
+      event(0, 'info', '[Browser]: WebSocket connected', { payload: { event: 'stream_started' } }),
+      event(1, 'info', '[Browser]: Recording started', {
+        occurred_at: '2026-10-19T14:05:18.500Z',
+        payload: { event: 'recording_started' },
+      }),
+    ]);
+    renderPage();
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Play from 0:04' }));
+
+    expect(seek).toHaveBeenCalledWith(2500);
+  });
+});
@@ -0,0 +1,183 @@
+import { Link, useParams } from "react-router-dom";
+import { useMemo, useRef, useState } from "react";
+import { AlertCircle, ArrowLeft, Download } from "lucide-react";
+import CallEventTimeline from "@/components/CallEventTimeline";
+import CallExportMenu from "@/components/CallExportMenu";
+import Header from "@/components/Header";
+import TranscriptPanel from "@/components/TranscriptPanel";
+import WaveformPlayer, { type WaveformPlayerHandle } from "@/components/WaveformPlayer";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth } from "@/hooks/useAuth";
+import { useCallExport } from "@/hooks/useCallExport";
+import { useCall, useCallEvents, useRecordingAudioUrl } from "@/hooks/useCalls";
+import { downloadBlob } from "@/lib/download";
+import { RECORDING_SIDE_LABELS, type RecordingSide, exportRecordingSide } from "@/lib/recordings/channels";
+import { fromCallEvents, loadExportableCall } from "@/lib/recordings/export";
+import { findRecordingStart, recordingOffsetMs, toCallMarkers } from "@/lib/recordings/markers";
+
+const formatDuration = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+};
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+const CallDetailPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const { data: call, error, isLoading } = useCall(id);
+  const audio = useRecordingAudioUrl(call?.storage_path);
+  const events = useCallEvents(call);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const callExport = useCallExport();
+  const playerRef = useRef<WaveformPlayerHandle>(null);
+  const logs = useMemo(() => fromCallEvents(events.data ?? []), [events.data]);
+  const markers = useMemo(() => toCallMarkers(logs), [logs]);
+  const recordingStartedAt = findRecordingStart(logs);
+  const seek = (positionMs: number) => playerRef.current?.seek(positionMs);
+  // Transcript times count from the stream start, the player from the recording start.
+  const offsetMs = recordingOffsetMs(logs);
+  const seekTranscript = (startMs: number) => seek(Math.max(0, startMs - offsetMs));
+  const loadCall = () => loadExportableCall(id!);
+
+  const downloadSide = async (side: RecordingSide) => {
+    if (!call || !audio.data) return;
+    setExportError(null);
+    try {
+      const response = await fetch(audio.data);
+      if (!response.ok) {
+        throw new Error(`Downloading the recording failed (${response.status})`);
+      }
+      const blob = await exportRecordingSide(await response.blob(), side);
+      downloadBlob(blob, `${side}_${call.id.slice(0, 8)}.wav`);
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : "Exporting the recording failed");
+    }
+  };
+
+  const details: [string, string][] = call
+    ? [
+        ["Started", new Date(call.started_at).toLocaleString()],
+        ...(call.user_id !== user?.id ? [["Agent", call.profiles?.email ?? call.user_id] as [string, string]] : []),
+        ["Duration", formatDuration(call.duration_seconds)],
+        ["Language", call.language ?? "—"],
+        ["Stream", call.stream_sid],
+        ["Recording", call.storage_path ? `${call.mime_type}, ${formatSize(call.size_bytes)}` : "None"],
+        ["Channels", call.channels === 2 ? "Stereo (caller left, agent right)" : "Mono"]
+      ]
+    : [];
+
+  return (
+    <div className="min-h-screen bg-white">
+      <Header />
+      <div className="container mx-auto px-4 py-12 space-y-8">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/calls" className="flex w-fit items-center gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            Back to call history
+          </Link>
+        </Button>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="text-muted-foreground">Loading call...</div>
+        ) : !call ? (
+          !error && <div className="text-muted-foreground">This call doesn't exist or you don't have access to it.</div>
+        ) : (
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <CardTitle className="flex items-center gap-3">
+                  Call {call.id.slice(0, 8)}
+                  <Badge variant={call.status === "error" ? "destructive" : "secondary"}>
+                    {call.status === "error" ? "Failed" : "Completed"}
+                  </Badge>
+                </CardTitle>
+                <CallExportMenu
+                  label="Export"
+                  hasAudio={!!call.storage_path}
+                  progress={callExport.progress}
+                  onExportAudio={(format) => callExport.exportAudio(loadCall, format)}
+                  onExportBundle={(format) => callExport.exportBundle(async () => [await loadCall()], format)}
+                />
+              </div>
+              {call.error && <CardDescription className="text-red-500">Error: {call.error}</CardDescription>}
+              {callExport.error && <CardDescription className="text-red-500">Export failed: {callExport.error}</CardDescription>}
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <dl className="grid grid-cols-1 gap-x-8 gap-y-2 text-sm sm:grid-cols-2">
+                {details.map(([label, value]) => (
+                  <div key={label} className="flex gap-2">
+                    <dt className="text-muted-foreground w-24 shrink-0">{label}</dt>
+                    <dd className="break-all">{value}</dd>
+                  </div>
+                ))}
+              </dl>
+
+              {!call.storage_path ? (
+                <div className="text-sm text-muted-foreground">No audio was recorded before this call failed.</div>
+              ) : audio.error ? (
+                <div className="text-sm text-red-500">{audio.error.message}</div>
+              ) : audio.data ? (
+                <div className="space-y-2">
+                  <WaveformPlayer ref={playerRef} audio={audio.data} markers={markers} />
+                  {call.channels === 2 && (
+                    <div className="flex flex-wrap items-center gap-2">
+                      {(Object.keys(RECORDING_SIDE_LABELS) as RecordingSide[]).map((side) => (
+                        <Button key={side} variant="outline" size="sm" onClick={() => downloadSide(side)} className="flex items-center gap-2">
+                          <Download className="w-4 h-4" />
+                          {RECORDING_SIDE_LABELS[side]}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                  {exportError && <div className="text-sm text-red-500">{exportError}</div>}
+                </div>
+              ) : (
+                <div className="text-sm text-muted-foreground">Loading recording...</div>
+              )}
+
+              <section className="space-y-3">
+                <h3 className="font-semibold">Transcript</h3>
+                <TranscriptPanel
+                  segments={call.transcript}
+                  emptyMessage="No transcript was saved for this call."
+                  className="border rounded-lg p-4"
+                  onSeek={audio.data ? seekTranscript : undefined}
+                />
+              </section>
+
+              <section className="space-y-3">
+                <h3 className="font-semibold">Timeline</h3>
+                {events.error ? (
+                  <div className="text-sm text-red-500">{events.error.message}</div>
+                ) : events.data ? (
+                  <CallEventTimeline
+                    events={events.data}
+                    recordingStartedAt={recordingStartedAt}
+                    onSeek={audio.data ? seek : undefined}
+                  />
+                ) : (
+                  <div className="text-sm text-muted-foreground">Loading timeline...</div>
+                )}
+              </section>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CallDetailPage;
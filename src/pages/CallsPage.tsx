@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { AlertCircle, CheckCircle, Download } from "lucide-react";
+import Header from "@/components/Header";
+import CallExportMenu from "@/components/CallExportMenu";
+import CallFiltersBar from "@/components/CallFiltersBar";
+import CallHistoryExportDialog from "@/components/CallHistoryExportDialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from "@/components/ui/pagination";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/hooks/useAuth";
+import { useCallExport } from "@/hooks/useCallExport";
+import { useCalls } from "@/hooks/useCalls";
+import { CallFilters, readCallQuery, writeCallQuery } from "@/lib/recordings/calls";
+import { loadExportableCall } from "@/lib/recordings/export";
+import { cn } from "@/lib/utils";
+
+const formatDuration = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+};
+
+/** First, last, and the pages around the current one; null marks a gap. */
+const visiblePages = (page: number, pageCount: number) => {
+  const pages: (number | null)[] = [];
+  for (let p = 1; p <= pageCount; p++) {
+    if (p === 1 || p === pageCount || Math.abs(p - page) <= 1) {
+      pages.push(p);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+};
+
+const CallsPage = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { filters, page } = readCallQuery(searchParams);
+  const { data, error, isLoading, isFetching } = useCalls(filters, page);
+  const { hasRole } = useAuth();
+  // Supervisors and admins also get other agents' calls, so say whose each one is.
+  const showAgent = hasRole("supervisor");
+  const columnCount = showAgent ? 7 : 6;
+  const scope = hasRole("admin") ? "Everyone's" : showAgent ? "Your team's" : "Your";
+
+  const setFilters = (next: CallFilters) => setSearchParams(writeCallQuery(next, 1));
+  const goToPage = (next: number) => setSearchParams(writeCallQuery(filters, next));
+
+  const pageCount = data?.pageCount ?? 1;
+
+  // Kept across pages, so a bundle can span more than one page of results.
+  const [selected, setSelected] = useState<ReadonlySet<string>>(new Set());
+  const callExport = useCallExport();
+  const pageIds = data?.calls.map((call) => call.id) ?? [];
+  const allOnPageSelected = pageIds.length > 0 && pageIds.every((id) => selected.has(id));
+
+  const toggle = (ids: string[], checked: boolean) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      ids.forEach((id) => (checked ? next.add(id) : next.delete(id)));
+      return next;
+    });
+
+  // One at a time, so a large selection doesn't hold every recording download open at once.
+  const loadSelected = async () => {
+    const calls = [];
+    for (const id of selected) {
+      calls.push(await loadExportableCall(id));
+    }
+    return calls;
+  };
+
+  return (
+    <div className="min-h-screen bg-white">
+      <Header />
+      <div className="container mx-auto px-4 py-12 space-y-8">
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>Call History</CardTitle>
+              <CardDescription>
+                {data ? `${data.total} saved call${data.total === 1 ? "" : "s"}` : `${scope} saved calls`}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              {selected.size > 0 && (
+                <>
+                  <Button variant="ghost" size="sm" onClick={() => setSelected(new Set())}>
+                    Clear selection
+                  </Button>
+                  <CallExportMenu
+                    label={`Export ${selected.size} selected`}
+                    progress={callExport.progress}
+                    onExportBundle={(format) => callExport.exportBundle(loadSelected, format)}
+                  />
+                </>
+              )}
+              <CallHistoryExportDialog filters={filters}>
+                <Button variant="outline" size="sm" className="flex items-center gap-1">
+                  <Download className="w-3 h-3" />
+                  Export history
+                </Button>
+              </CallHistoryExportDialog>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <CallFiltersBar filters={filters} onChange={setFilters} />
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error.message}</AlertDescription>
+              </Alert>
+            )}
+
+            {callExport.error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>Export failed: {callExport.error}</AlertDescription>
+              </Alert>
+            )}
+
+            <Table className={cn(isFetching && !isLoading && "opacity-60")}>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={allOnPageSelected}
+                      onCheckedChange={(checked) => toggle(pageIds, checked === true)}
+                      aria-label="Select all calls on this page"
+                    />
+                  </TableHead>
+                  <TableHead>Started</TableHead>
+                  {showAgent && <TableHead>Agent</TableHead>}
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Language</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Error</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={columnCount} className="text-center text-muted-foreground">Loading calls...</TableCell>
+                  </TableRow>
+                ) : data?.calls.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={columnCount} className="text-center text-muted-foreground">No calls match these filters</TableCell>
+                  </TableRow>
+                ) : (
+                  data?.calls.map((call) => (
+                    <TableRow
+                      key={call.id}
+                      className="cursor-pointer"
+                      onClick={() => navigate(`/calls/${call.id}`)}
+                    >
+                      <TableCell onClick={(event) => event.stopPropagation()}>
+                        <Checkbox
+                          checked={selected.has(call.id)}
+                          onCheckedChange={(checked) => toggle([call.id], checked === true)}
+                          aria-label={`Select call ${call.id.slice(0, 8)}`}
+                        />
+                      </TableCell>
+                      <TableCell>{new Date(call.started_at).toLocaleString()}</TableCell>
+                      {showAgent && <TableCell>{call.profiles?.email ?? "—"}</TableCell>}
+                      <TableCell>{formatDuration(call.duration_seconds)}</TableCell>
+                      <TableCell>{call.language ?? "—"}</TableCell>
+                      <TableCell>
+                        {call.status === "error" ? (
+                          <Badge variant="destructive" className="flex w-fit items-center gap-1">
+                            <AlertCircle className="w-3 h-3" /> Failed
+                          </Badge>
+                        ) : (
+                          <Badge variant="secondary" className="flex w-fit items-center gap-1">
+                            <CheckCircle className="w-3 h-3" /> Completed
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-xs truncate text-red-500">{call.error}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+
+            {pageCount > 1 && (
+              <Pagination>
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationPrevious
+                      href="#"
+                      aria-disabled={page <= 1}
+                      className={cn(page <= 1 && "pointer-events-none opacity-50")}
+                      onClick={(event) => {
+                        event.preventDefault();
+                        goToPage(page - 1);
+                      }}
+                    />
+                  </PaginationItem>
+                  {visiblePages(page, pageCount).map((p, index) => (
+                    <PaginationItem key={p ?? `gap-${index}`}>
+                      {p === null ? (
+                        <PaginationEllipsis />
+                      ) : (
+                        <PaginationLink
+                          href="#"
+                          isActive={p === page}
+                          onClick={(event) => {
+                            event.preventDefault();
+                            goToPage(p);
+                          }}
+                        >
+                          {p}
+                        </PaginationLink>
+                      )}
+                    </PaginationItem>
+                  ))}
+                  <PaginationItem>
+                    <PaginationNext
+                      href="#"
+                      aria-disabled={page >= pageCount}
+                      className={cn(page >= pageCount && "pointer-events-none opacity-50")}
+                      onClick={(event) => {
+                        event.preventDefault();
+                        goToPage(page + 1);
+                      }}
+                    />
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default CallsPage;
@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import AuthLayout from '@/components/AuthLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+const ForgotPasswordPage = () => {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+  const [sent, setSent] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const { sendPasswordReset } = useAuth();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    const { error } = await sendPasswordReset(email);
+
+    if (error) {
+      setError(error.message);
+    } else {
+      setSent(true);
+    }
+
+    setLoading(false);
+  };
+
+  return (
+    <AuthLayout title="Reset Password" description="We'll email you a link to choose a new password">
+      {sent ? (
+        // Worded the same whether or not the account exists.
+        <p className="text-sm text-center text-gray-700" role="status">
+          If {email} has an account, a reset link is on its way. It can only be used once.
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="email">Email</Label>
+            <Input
+              id="email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              placeholder="Enter your email"
+            />
+          </div>
+          {error && (
+            <div className="text-red-600 text-sm text-center">
+              {error}
+            </div>
+          )}
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? 'Sending...' : 'Send reset link'}
+          </Button>
+        </form>
+      )}
+      <div className="mt-6 text-center text-sm">
+        <Link to="/" className="text-gray-600 hover:text-gray-900 hover:underline">
+          Back to sign in
+        </Link>
+      </div>
+    </AuthLayout>
+  );
+};
+
+export default ForgotPasswordPage;
@@ -1,81 +1,153 @@
-
 import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import type { Provider } from '@supabase/supabase-js';
 import { useAuth } from '@/hooks/useAuth';
+import { useSsoSettings } from '@/hooks/useAppSettings';
+import AuthLayout from '@/components/AuthLayout';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import { OAUTH_PROVIDER_LABELS, emailDomain } from '@/lib/auth/providers';
+import { AUTH_ROUTES } from '@/lib/auth/redirect';
 
 const LoginPage = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
   const [loading, setLoading] = useState(false);
-  const { signIn } = useAuth();
+  const { signIn, sendMagicLink, signInWithProvider, signInWithSso, authRedirect } = useAuth();
+  const sso = useSsoSettings().data;
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const run = async (action: () => Promise<{ error: { message: string } | null }>, success = '') => {
     setLoading(true);
     setError('');
+    setNotice('');
+
+    const { error } = await action();
 
-    const { error } = await signIn(email, password);
-    
     if (error) {
       setError(error.message);
+    } else {
+      setNotice(success);
     }
-    
+
     setLoading(false);
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => signIn(email, password));
+  };
+
+  const handleMagicLink = () => {
+    if (!email) {
+      setError('Enter your email first');
+      return;
+    }
+    run(() => sendMagicLink(email), `We've emailed a sign-in link to ${email}.`);
+  };
+
+  const handleSso = () => {
+    const domain = emailDomain(email);
+    if (!domain) {
+      setError('Enter your work email to find your company\'s sign-in');
+      return;
+    }
+    run(() => signInWithSso(domain));
+  };
+
+  const hasSso = !!sso && (sso.oauthProviders.length > 0 || sso.saml);
+
   return (
-    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
-      <Card className="w-full max-w-md">
-        <CardHeader className="text-center">
-          <CardTitle className="text-2xl">Sign In</CardTitle>
-          <CardDescription>
-            Enter your credentials to access the cold call audio streaming solution
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="email">Email</Label>
-              <Input
-                id="email"
-                type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-                placeholder="Enter your email"
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-                placeholder="Enter your password"
-              />
-            </div>
-            {error && (
-              <div className="text-red-600 text-sm text-center">
-                {error}
-              </div>
-            )}
-            <Button 
-              type="submit" 
-              className="w-full" 
+    <AuthLayout title="Sign In" description="Enter your credentials to access the cold call audio streaming solution">
+      {authRedirect?.error && (
+        <div className="mb-4 rounded-md bg-red-50 p-3 text-sm text-red-700" role="alert">
+          That link didn't work: {authRedirect.error}. Request a new one below.
+        </div>
+      )}
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="email">Email</Label>
+          <Input
+            id="email"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            placeholder="Enter your email"
+          />
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="password">Password</Label>
+            <Link to={AUTH_ROUTES.forgotPassword} className="text-sm text-gray-600 hover:text-gray-900 underline-offset-2 hover:underline">
+              Forgot password?
+            </Link>
+          </div>
+          <Input
+            id="password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            placeholder="Enter your password"
+          />
+        </div>
+        {error && (
+          <div className="text-red-600 text-sm text-center">
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div className="text-green-700 text-sm text-center" role="status">
+            {notice}
+          </div>
+        )}
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={loading}
+        >
+          {loading ? 'Signing in...' : 'Sign In'}
+        </Button>
+        <Button type="button" variant="outline" className="w-full" disabled={loading} onClick={handleMagicLink}>
+          Email me a sign-in link
+        </Button>
+      </form>
+
+      {hasSso && (
+        <div className="mt-6 space-y-3">
+          <div className="flex items-center gap-3 text-xs text-gray-500">
+            <Separator className="flex-1" />
+            or continue with
+            <Separator className="flex-1" />
+          </div>
+          {sso.oauthProviders.map((provider: Provider) => (
+            <Button
+              key={provider}
+              type="button"
+              variant="outline"
+              className="w-full"
               disabled={loading}
+              onClick={() => run(() => signInWithProvider(provider))}
             >
-              {loading ? 'Signing in...' : 'Sign In'}
+              {OAUTH_PROVIDER_LABELS[provider]}
             </Button>
-          </form>
-        </CardContent>
-      </Card>
-    </div>
+          ))}
+          {sso.saml && (
+            <Button type="button" variant="outline" className="w-full" disabled={loading} onClick={handleSso}>
+              Company single sign-on (SSO)
+            </Button>
+          )}
+        </div>
+      )}
+
+      <p className="mt-6 text-center text-xs text-gray-500">
+        New here? Accounts are invite-only; ask an admin to invite you.
+      </p>
+    </AuthLayout>
   );
 };
 
@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import AuthLayout from '@/components/AuthLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AUTH_ROUTES } from '@/lib/auth/redirect';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const COPY = {
+  reset: { title: 'Choose a New Password', description: 'Enter a new password for your account', submit: 'Update password' },
+  invite: { title: 'Welcome', description: 'Choose a password to finish setting up your account', submit: 'Set password' },
+};
+
+interface SetPasswordPageProps {
+  /** Opened from a password reset email or from an invite. */
+  mode: 'reset' | 'invite';
+}
+
+/** Where reset and invite links land; the link has already signed the user in. */
+const SetPasswordPage = ({ mode }: SetPasswordPageProps) => {
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const { user, loading: authLoading, authRedirect, updatePassword, dismissAuthRedirect } = useAuth();
+  const navigate = useNavigate();
+  const copy = COPY[mode];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Use at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (password !== confirm) {
+      setError('The passwords don\'t match');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    const { error } = await updatePassword(password);
+
+    if (error) {
+      setError(error.message);
+      setLoading(false);
+      return;
+    }
+
+    dismissAuthRedirect();
+    navigate('/', { replace: true });
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-white flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <AuthLayout title={copy.title} description="This link is invalid or has expired">
+        {authRedirect?.error && (
+          <p className="mb-4 text-sm text-center text-red-600" role="alert">{authRedirect.error}</p>
+        )}
+        <p className="text-sm text-center text-gray-700">
+          {mode === 'reset' ? (
+            <Link to={AUTH_ROUTES.forgotPassword} className="underline">Request a new reset link</Link>
+          ) : (
+            'Ask an admin to send you a new invite.'
+          )}
+        </p>
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout title={copy.title} description={<>{copy.description}<br />{user.email}</>}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="password">New password</Label>
+          <Input
+            id="password"
+            type="password"
+            autoComplete="new-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            minLength={MIN_PASSWORD_LENGTH}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="confirm">Confirm password</Label>
+          <Input
+            id="confirm"
+            type="password"
+            autoComplete="new-password"
+            value={confirm}
+            onChange={(e) => setConfirm(e.target.value)}
+            required
+          />
+        </div>
+        {error && (
+          <div className="text-red-600 text-sm text-center">
+            {error}
+          </div>
+        )}
+        <Button type="submit" className="w-full" disabled={loading}>
+          {loading ? 'Saving...' : copy.submit}
+        </Button>
+      </form>
+    </AuthLayout>
+  );
+};
+
+export default SetPasswordPage;
@@ -0,0 +1,329 @@
+import { vi } from 'vitest';
+import { PROTOCOL_VERSION } from '@/lib/voice/protocol';
+
+/**
+ * Minimal, synchronous-where-possible stand-ins for the browser media and
+ * networking APIs the voice session uses. Tests drive the "server" and the
+ * "hardware" through the helper methods (open, receive, emitData, ...).
+ */
+
+export const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+export class FakeWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+  static instances: FakeWebSocket[] = [];
+
+  static get last() {
+    return FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+  }
+
+  readonly CONNECTING = 0;
+  readonly OPEN = 1;
+  readonly CLOSING = 2;
+  readonly CLOSED = 3;
+
+  readyState = FakeWebSocket.CONNECTING;
+  binaryType = 'blob';
+  sent: (string | ArrayBuffer)[] = [];
+  closeCode: number | undefined;
+  closeReason: string | undefined;
+
+  onopen: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  constructor(readonly url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  get params() {
+    return new URL(this.url).searchParams;
+  }
+
+  /** JSON messages the client sent, parsed. */
+  get sentJson() {
+    return this.sent.filter((data): data is string => typeof data === 'string').map(data => JSON.parse(data));
+  }
+
+  send(data: string | ArrayBuffer) {
+    if (this.readyState !== FakeWebSocket.OPEN) {
+      throw new Error('FakeWebSocket is not open');
+    }
+    this.sent.push(data);
+  }
+
+  close(code = 1005, reason = '') {
+    if (this.readyState === FakeWebSocket.CLOSED) return;
+    this.closeCode = code;
+    this.closeReason = reason;
+    this.readyState = FakeWebSocket.CLOSED;
+    queueMicrotask(() => this.onclose?.(new CloseEvent('close', { code, reason })));
+  }
+
+  // Server-side helpers
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.(new Event('open'));
+  }
+
+  /** Opens the socket and answers the client's hello, as a current server does. */
+  handshake(protocol = PROTOCOL_VERSION) {
+    this.open();
+    this.receive({ type: 'hello', protocol });
+  }
+
+  receive(message: unknown) {
+    const data = typeof message === 'string' ? message : JSON.stringify(message);
+    this.onmessage?.(new MessageEvent('message', { data }));
+  }
+
+  serverClose(code = 1000, reason = '') {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.(new CloseEvent('close', { code, reason }));
+  }
+
+  /** Network failure: error followed by an abnormal close. */
+  fail() {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onerror?.(new Event('error'));
+    this.onclose?.(new CloseEvent('close', { code: 1006 }));
+  }
+}
+
+export class FakeMediaStreamTrack extends EventTarget {
+  readyState: 'live' | 'ended' = 'live';
+  kind = 'audio';
+  label = '';
+  settings: MediaTrackSettings = { echoCancellation: true, noiseSuppression: true, autoGainControl: true };
+  getSettings = vi.fn(() => this.settings);
+  stop = vi.fn(() => {
+    this.readyState = 'ended';
+  });
+
+  /** Simulates the device being unplugged. */
+  end() {
+    this.readyState = 'ended';
+    this.dispatchEvent(new Event('ended'));
+  }
+}
+
+export class FakeMediaStream {
+  readonly tracks = [new FakeMediaStreamTrack()];
+
+  getTracks() {
+    return this.tracks;
+  }
+
+  getAudioTracks() {
+    return this.tracks;
+  }
+}
+
+export class FakeMediaRecorder extends EventTarget {
+  static instances: FakeMediaRecorder[] = [];
+
+  state: 'inactive' | 'recording' | 'paused' = 'inactive';
+  timeslice: number | undefined;
+  ondataavailable: ((event: BlobEvent) => void) | null = null;
+  onstart: ((event: Event) => void) | null = null;
+  onstop: ((event: Event) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  constructor(readonly stream: FakeMediaStream) {
+    super();
+    FakeMediaRecorder.instances.push(this);
+  }
+
+  start(timeslice?: number) {
+    this.state = 'recording';
+    this.timeslice = timeslice;
+    this.fire('start', new Event('start'));
+  }
+
+  stop() {
+    if (this.state === 'inactive') return;
+    this.state = 'inactive';
+    this.emitData(new Blob(['final'], { type: 'audio/webm' }));
+    this.fire('stop', new Event('stop'));
+  }
+
+  emitData(data: Blob) {
+    const event = new Event('dataavailable') as BlobEvent;
+    Object.defineProperty(event, 'data', { value: data });
+    this.fire('dataavailable', event);
+  }
+
+  emitError(name = 'UnknownError') {
+    const event = new Event('error');
+    Object.defineProperty(event, 'error', { value: { name } });
+    this.fire('error', event);
+  }
+
+  private fire(type: string, event: Event) {
+    const handler = (this as unknown as Record<string, ((event: Event) => void) | null>)[`on${type}`];
+    handler?.call(this, event);
+    this.dispatchEvent(event);
+  }
+}
+
+class FakeAudioNode {
+  connections: unknown[] = [];
+  connect = vi.fn((destination: unknown) => {
+    this.connections.push(destination);
+    return destination;
+  });
+  disconnect = vi.fn(() => {
+    this.connections = [];
+  });
+}
+
+export class FakeAudioParam {
+  value = 1;
+  setValueAtTime = vi.fn((value: number) => {
+    this.value = value;
+  });
+  linearRampToValueAtTime = vi.fn();
+  setTargetAtTime = vi.fn();
+}
+
+export class FakeGainNode extends FakeAudioNode {
+  readonly gain = new FakeAudioParam();
+}
+
+/** Reports a constant waveform of amplitude `level`; set it to simulate speech. */
+export class FakeAnalyserNode extends FakeAudioNode {
+  fftSize = 2048;
+  level = 0;
+
+  getFloatTimeDomainData(samples: Float32Array) {
+    samples.fill(this.level);
+  }
+}
+
+export class FakeAudioBufferSourceNode extends FakeAudioNode {
+  buffer: { duration: number } | null = null;
+  onended: (() => void) | null = null;
+  started = false;
+  startTime: number | undefined;
+  stopped = false;
+
+  start = vi.fn((when?: number) => {
+    this.started = true;
+    this.startTime = when ?? 0;
+  });
+
+  stop = vi.fn(() => {
+    this.stopped = true;
+  });
+
+  /** Simulates the chunk finishing naturally. */
+  finish() {
+    this.onended?.();
+  }
+}
+
+/** A capture or processing worklet; `emitFrame` plays the worklet posting a frame. */
+export class FakeAudioWorkletNode extends FakeAudioNode {
+  static instances: FakeAudioWorkletNode[] = [];
+  readonly port: { onmessage: ((event: MessageEvent) => void) | null } = { onmessage: null };
+
+  constructor(readonly context: unknown, readonly name: string, readonly options?: AudioWorkletNodeOptions) {
+    super();
+    FakeAudioWorkletNode.instances.push(this);
+  }
+
+  emitFrame(frame: ArrayBuffer) {
+    this.port.onmessage?.(new MessageEvent('message', { data: frame }));
+  }
+}
+
+export class FakeAudioContext {
+  static instances: FakeAudioContext[] = [];
+
+  static get last() {
+    return FakeAudioContext.instances[FakeAudioContext.instances.length - 1];
+  }
+
+  state: AudioContextState = 'running';
+  sampleRate = 48000;
+  currentTime = 0;
+  destination = new FakeAudioNode();
+  sources: FakeAudioBufferSourceNode[] = [];
+  analysers: FakeAnalyserNode[] = [];
+  audioWorklet = { addModule: vi.fn(async () => {}) };
+
+  constructor() {
+    FakeAudioContext.instances.push(this);
+  }
+
+  createGain() {
+    return new FakeGainNode();
+  }
+
+  createChannelMerger(numberOfInputs = 6) {
+    return Object.assign(new FakeAudioNode(), { numberOfInputs });
+  }
+
+  createMediaStreamDestination() {
+    return Object.assign(new FakeAudioNode(), { stream: new FakeMediaStream() });
+  }
+
+  createMediaStreamSource(stream: FakeMediaStream) {
+    return Object.assign(new FakeAudioNode(), { mediaStream: stream });
+  }
+
+  createBiquadFilter() {
+    return Object.assign(new FakeAudioNode(), { type: 'lowpass', frequency: new FakeAudioParam() });
+  }
+
+  createAnalyser() {
+    const analyser = new FakeAnalyserNode();
+    this.analysers.push(analyser);
+    return analyser;
+  }
+
+  createBufferSource() {
+    const source = new FakeAudioBufferSourceNode();
+    this.sources.push(source);
+    return source;
+  }
+
+  decodeAudioData = vi.fn(async (data: ArrayBuffer) => ({ duration: 0.5, length: data.byteLength }));
+
+  close = vi.fn(async () => {
+    this.state = 'closed';
+  });
+
+  setSinkId = vi.fn(async (_sinkId: string) => {});
+}
+
+/** Installs every fake on the global scope; call from `beforeEach`. */
+export const installMediaFakes = () => {
+  FakeWebSocket.instances = [];
+  FakeMediaRecorder.instances = [];
+  FakeAudioContext.instances = [];
+  FakeAudioWorkletNode.instances = [];
+
+  const getUserMedia = vi.fn(async (_constraints?: MediaStreamConstraints) => new FakeMediaStream());
+  const enumerateDevices = vi.fn(async (): Promise<MediaDeviceInfo[]> => []);
+  const mediaDevices = Object.assign(new EventTarget(), { getUserMedia, enumerateDevices });
+
+  vi.stubGlobal('WebSocket', FakeWebSocket);
+  vi.stubGlobal('MediaRecorder', FakeMediaRecorder);
+  vi.stubGlobal('AudioContext', FakeAudioContext);
+  vi.stubGlobal('AudioWorkletNode', FakeAudioWorkletNode);
+  Object.defineProperty(navigator, 'mediaDevices', {
+    configurable: true,
+    value: mediaDevices,
+  });
+
+  return { getUserMedia, enumerateDevices, mediaDevices };
+};
+
+/** A base64 payload the fake AudioContext can "decode". */
+export const FAKE_AUDIO_PAYLOAD = btoa('fake-audio');
@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_PUBLISHABLE_KEY?: string;
+  readonly VITE_VOICE_ENVIRONMENT?: string;
+  readonly VITE_VOICE_WS_URL_LOCAL?: string;
+  readonly VITE_VOICE_WS_URL_STAGING?: string;
+  readonly VITE_VOICE_WS_URL_PROD?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
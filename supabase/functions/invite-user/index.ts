@@ -0,0 +1,63 @@
+// Invites a user by email and gives them a role and team. Sign-ups are
+// invite-only, and inviting needs the service role key, so only this
+// function (called by an admin) can create accounts.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const APP_ROLES = ['agent', 'supervisor', 'admin'];
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const url = Deno.env.get('SUPABASE_URL')!;
+  const caller = createClient(url, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+  const { data: { user } } = await caller.auth.getUser();
+  if (!user) {
+    return json({ error: 'Sign in to invite users' }, 401);
+  }
+  const { data: isAdmin } = await caller.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+  if (!isAdmin) {
+    return json({ error: 'Only admins can invite users' }, 403);
+  }
+
+  const { email, role = 'agent', teamId = null, redirectTo } = await req.json();
+  if (typeof email !== 'string' || !email.includes('@')) {
+    return json({ error: 'A valid email is required' }, 400);
+  }
+  if (!APP_ROLES.includes(role)) {
+    return json({ error: `Unknown role: ${role}` }, 400);
+  }
+
+  const admin = createClient(url, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const { data: invited, error } = await admin.auth.admin.inviteUserByEmail(email.trim(), { redirectTo });
+  if (error) {
+    return json({ error: error.message }, 400);
+  }
+
+  // Normally the sign-up trigger has made the profile (and its trigger, an
+  // agent role) already; make sure, since the role references the profile.
+  const { error: profileError } = await admin
+    .from('profiles')
+    .upsert({ id: invited.user.id, email: invited.user.email }, { ignoreDuplicates: true });
+  const { error: roleError } = profileError
+    ? { error: profileError }
+    : await admin
+        .from('user_roles')
+        .upsert({ user_id: invited.user.id, role, team_id: teamId, updated_at: new Date().toISOString() });
+  if (roleError) {
+    return json({ error: `Invited, but setting their role failed: ${roleError.message}` }, 500);
+  }
+
+  return json({ userId: invited.user.id });
+});
@@ -0,0 +1,59 @@
+-- Conversation recordings: audio lives in the private `recordings` bucket under
+-- `<user id>/<recording id>.<ext>`, metadata in `public.recordings`.
+
+create table public.recordings (
+  id uuid primary key,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  stream_sid text not null,
+  storage_path text not null unique,
+  mime_type text not null,
+  size_bytes bigint not null check (size_bytes >= 0),
+  duration_seconds integer not null check (duration_seconds >= 0),
+  language text,
+  status text not null check (status in ('success', 'error')),
+  error text,
+  started_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create index recordings_user_started_at_idx on public.recordings (user_id, started_at desc);
+
+alter table public.recordings enable row level security;
+
+create policy "Users can view their own recordings"
+  on public.recordings for select
+  using (auth.uid() = user_id);
+
+create policy "Users can add their own recordings"
+  on public.recordings for insert
+  with check (auth.uid() = user_id);
+
+-- Upload retries upsert the row, so updates must be allowed too.
+create policy "Users can update their own recordings"
+  on public.recordings for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own recordings"
+  on public.recordings for delete
+  using (auth.uid() = user_id);
+
+insert into storage.buckets (id, name, public)
+values ('recordings', 'recordings', false)
+on conflict (id) do nothing;
+
+create policy "Users can read their own recording files"
+  on storage.objects for select
+  using (bucket_id = 'recordings' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can upload their own recording files"
+  on storage.objects for insert
+  with check (bucket_id = 'recordings' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can overwrite their own recording files"
+  on storage.objects for update
+  using (bucket_id = 'recordings' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can delete their own recording files"
+  on storage.objects for delete
+  using (bucket_id = 'recordings' and (storage.foldername(name))[1] = auth.uid()::text);
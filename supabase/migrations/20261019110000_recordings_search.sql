@@ -0,0 +1,9 @@
+-- Full-text search over a call's logs (and, later, its transcript). The
+-- client writes the plain text; Postgres keeps the tsvector in step.
+
+alter table public.recordings
+  add column search_text text not null default '',
+  add column search tsvector generated always as (to_tsvector('simple', search_text)) stored;
+
+create index recordings_search_idx on public.recordings using gin (search);
+create index recordings_user_language_idx on public.recordings (user_id, language);
@@ -0,0 +1,30 @@
+-- Every browser and server log line of a call, in order. Rows are written in
+-- batches while the call runs, so they can exist before the call's
+-- `recordings` row (which is only added once the audio has uploaded).
+
+create table public.call_events (
+  id bigint generated always as identity primary key,
+  call_id uuid not null,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  seq integer not null check (seq >= 0),
+  occurred_at timestamptz not null,
+  level text not null check (level in ('info', 'warning', 'error')),
+  source text not null check (source in ('browser', 'server')),
+  message text not null,
+  payload jsonb,
+  created_at timestamptz not null default now(),
+  -- Lets a retried batch skip rows that did make it the first time.
+  unique (call_id, seq)
+);
+
+create index call_events_user_call_idx on public.call_events (user_id, call_id);
+
+alter table public.call_events enable row level security;
+
+create policy "Users can view their own call events"
+  on public.call_events for select
+  using (auth.uid() = user_id);
+
+create policy "Users can add their own call events"
+  on public.call_events for insert
+  with check (auth.uid() = user_id);
@@ -0,0 +1,6 @@
+-- The call's live transcript, as the client saw it when the call ended:
+-- an array of { id, speaker, text, final, startMs, endMs } utterances. Its
+-- text is also appended to search_text so calls can be found by what was said.
+
+alter table public.recordings
+  add column transcript jsonb not null default '[]'::jsonb;
@@ -0,0 +1,5 @@
+-- Stereo recordings keep the caller on the left channel and the agent on the
+-- right, so each side can be exported or transcribed on its own.
+
+alter table public.recordings
+  add column channels smallint not null default 1 check (channels in (1, 2));
@@ -0,0 +1,16 @@
+-- Per-call log line counts for history exports. There is no foreign key from
+-- `call_events` to `recordings` (events are written before the recording
+-- exists), so PostgREST can't embed the counts; this view does the grouping.
+-- `security_invoker` makes it respect the row-level security of `call_events`.
+
+create view public.call_event_counts
+  with (security_invoker = true)
+as
+select
+  call_id,
+  user_id,
+  count(*)::integer as total,
+  (count(*) filter (where level = 'warning'))::integer as warnings,
+  (count(*) filter (where level = 'error'))::integer as errors
+from public.call_events
+group by call_id, user_id;
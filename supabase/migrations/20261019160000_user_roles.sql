@@ -0,0 +1,122 @@
+-- Roles: agents see their own calls, supervisors also see their team's, and
+-- admins see everyone's and manage roles and teams. Each user has exactly one
+-- role; the enum is declared lowest to highest so roles compare with `>=`.
+
+create type public.app_role as enum ('agent', 'supervisor', 'admin');
+
+create table public.teams (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique check (length(trim(name)) > 0),
+  created_at timestamptz not null default now()
+);
+
+create table public.user_roles (
+  user_id uuid primary key references public.profiles (id) on delete cascade,
+  role public.app_role not null default 'agent',
+  team_id uuid references public.teams (id) on delete set null,
+  updated_at timestamptz not null default now()
+);
+
+create index user_roles_team_idx on public.user_roles (team_id);
+
+-- Security definer so policies can call these without recursing into the
+-- row-level security of `user_roles` itself.
+
+create function public.has_role(_user_id uuid, _role public.app_role)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.user_roles where user_id = _user_id and role >= _role)
+$$;
+
+-- Whether the signed-in user may see calls (and the profile) of `_owner`.
+create function public.can_view_calls_of(_owner uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select auth.uid() = _owner
+    or public.has_role(auth.uid(), 'admin')
+    or exists (
+      select 1
+      from public.user_roles viewer
+      join public.user_roles owner on owner.team_id = viewer.team_id
+      where viewer.user_id = auth.uid()
+        and viewer.role >= 'supervisor'
+        and owner.user_id = _owner
+    )
+$$;
+
+-- New users start as agents without a team; existing users are backfilled the same way.
+create function public.handle_new_profile_role()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.user_roles (user_id) values (new.id) on conflict (user_id) do nothing;
+  return new;
+end;
+$$;
+
+create trigger on_profile_created_assign_role
+  after insert on public.profiles
+  for each row execute function public.handle_new_profile_role();
+
+insert into public.user_roles (user_id)
+select id from public.profiles
+on conflict (user_id) do nothing;
+
+alter table public.teams enable row level security;
+alter table public.user_roles enable row level security;
+
+create policy "Signed-in users can view teams"
+  on public.teams for select
+  to authenticated
+  using (true);
+
+create policy "Admins can manage teams"
+  on public.teams for all
+  using (public.has_role(auth.uid(), 'admin'))
+  with check (public.has_role(auth.uid(), 'admin'));
+
+create policy "Users can view roles of people whose calls they can see"
+  on public.user_roles for select
+  using (public.can_view_calls_of(user_id));
+
+-- Only admins change roles, and never their own, so there is always an admin left.
+create policy "Admins can update other users' roles"
+  on public.user_roles for update
+  using (public.has_role(auth.uid(), 'admin') and user_id <> auth.uid())
+  with check (public.has_role(auth.uid(), 'admin') and user_id <> auth.uid());
+
+-- Widen read access to match; writes stay limited to the owner.
+
+create policy "Supervisors and admins can view profiles they oversee"
+  on public.profiles for select
+  using (public.can_view_calls_of(id));
+
+create policy "Supervisors and admins can view recordings they oversee"
+  on public.recordings for select
+  using (public.can_view_calls_of(user_id));
+
+create policy "Supervisors and admins can view call events they oversee"
+  on public.call_events for select
+  using (public.can_view_calls_of(user_id));
+
+create policy "Supervisors and admins can read recording files they oversee"
+  on storage.objects for select
+  using (
+    bucket_id = 'recordings'
+    and exists (
+      select 1 from public.profiles
+      where profiles.id::text = (storage.foldername(name))[1]
+        and public.can_view_calls_of(profiles.id)
+    )
+  );
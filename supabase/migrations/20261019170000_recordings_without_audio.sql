@@ -0,0 +1,10 @@
+-- Calls that fail before any audio was recorded are still saved, so they show
+-- up in call history with their error; only those may have no file.
+
+alter table public.recordings
+  alter column storage_path drop not null,
+  alter column mime_type drop not null,
+  alter column size_bytes drop not null,
+  add constraint recordings_audio_check check (
+    status = 'error' or (storage_path is not null and mime_type is not null and size_bytes is not null)
+  );
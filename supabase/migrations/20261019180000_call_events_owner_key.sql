@@ -0,0 +1,11 @@
+-- Call ids come from the browser, so a call's events are only those its owner
+-- wrote. Keying on the call alone let anyone who knew a call id claim its
+-- sequence numbers first, and the owner's retried batches then skipped their
+-- own rows as duplicates.
+
+alter table public.call_events
+  drop constraint call_events_call_id_seq_key,
+  add constraint call_events_user_call_seq_key unique (user_id, call_id, seq);
+
+-- The new key's index covers lookups by owner and call.
+drop index public.call_events_user_call_idx;
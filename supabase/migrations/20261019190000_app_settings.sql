@@ -0,0 +1,22 @@
+-- Organisation-wide settings that admins manage on the Admin page, one row per
+-- setting. The app owns the shape of each `value` and falls back to its
+-- build-time defaults for settings that have never been saved.
+
+create table public.app_settings (
+  key text primary key,
+  value jsonb not null,
+  updated_at timestamptz not null default now(),
+  updated_by uuid references public.profiles (id) on delete set null
+);
+
+alter table public.app_settings enable row level security;
+
+create policy "Signed-in users can read settings"
+  on public.app_settings for select
+  to authenticated
+  using (true);
+
+create policy "Admins can manage settings"
+  on public.app_settings for all
+  using (public.has_role(auth.uid(), 'admin'))
+  with check (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,7 @@
+-- The login page shows its single sign-on buttons before anyone is signed in,
+-- so the `sign_in` setting (and only that one) is readable anonymously.
+
+create policy "Anyone can read sign-in settings"
+  on public.app_settings for select
+  to anon
+  using (key = 'sign_in');